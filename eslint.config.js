@@ -85,6 +85,13 @@ export default tseslint.config(
         },
     },
     {
-        ignores: ['dist/', 'dev-dist/', 'coverage/', 'node_modules/', 'scripts/'],
+        ignores: [
+            'dist/',
+            'dev-dist/',
+            'coverage/',
+            'node_modules/',
+            'scripts/**/*.js',
+            'scripts/**/*.mjs',
+        ],
     }
 );
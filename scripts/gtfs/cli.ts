@@ -0,0 +1,130 @@
+/* eslint-disable no-console */
+
+/**
+ * GTFS Ingestion CLI
+ * Builds the sharded timetable in public/gtfs/ from one or more local BODS GTFS zips
+ *
+ * Usage:
+ *   npm run gtfs -- <feed.zip> [more.zip...] [--noc FESX,ARBB] [--out dir] [--report path]
+ *
+ * Download feeds from https://data.bus-data.dft.gov.uk/timetable/download/ (one zip per
+ * operator or region). Clip bounds come from public/app.config.json, or the config defaults.
+ */
+
+import { existsSync, mkdirSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { basename, dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { parseArgs } from 'node:util';
+import { ConfigSchema } from '@config/schema';
+import type { GTFSData } from '@/types';
+import { hasErrors, ingestGTFS, type GTFSFeed, type IngestionReport } from './ingest';
+import { shardGTFS } from './shard';
+import { openZipFile } from './zip';
+
+const ROOT = join(dirname(fileURLToPath(import.meta.url)), '..', '..');
+const CONFIG_FILE = join(ROOT, 'public', 'app.config.json');
+const STOPS_FILE = join(ROOT, 'public', 'bus-stops.json');
+const DEFAULT_OUTPUT = join(ROOT, 'public', 'gtfs');
+
+function loadBounds() {
+    const raw: unknown = existsSync(CONFIG_FILE)
+        ? JSON.parse(readFileSync(CONFIG_FILE, 'utf8'))
+        : {};
+    return ConfigSchema.parse(raw).busStops.chelmsfordBounds;
+}
+
+function loadKnownStops(): Set<string> | undefined {
+    if (!existsSync(STOPS_FILE)) return undefined;
+    const stops = JSON.parse(readFileSync(STOPS_FILE, 'utf8')) as { atcoCode: string }[];
+    return new Set(stops.map(stop => stop.atcoCode));
+}
+
+function printReport(report: IngestionReport): void {
+    console.log(`Feeds: ${report.feeds.join(', ')}`);
+    console.log(
+        `Operators: ${report.operators.map(op => `${op.noc} (${op.name})`).join(', ') || 'none'}`
+    );
+    console.log(
+        `Output: ${report.counts.stops} stops, ${report.counts.stopTimes} stop times, ` +
+            `${report.counts.trips} trips, ${report.counts.routes} routes, ` +
+            `${report.counts.services} services`
+    );
+
+    for (const issue of report.issues) {
+        const examples = issue.examples.length > 0 ? ` (e.g. ${issue.examples.join('; ')})` : '';
+        console.log(
+            `  [${issue.severity}] ${issue.code}: ${issue.message} x${issue.count}${examples}`
+        );
+    }
+}
+
+/**
+ * Write shards, line patterns and the manifest, replacing any previous build
+ * The manifest is written last, once every shard it lists exists
+ */
+function writeShards(data: GTFSData, outDir: string): void {
+    const { manifest, shards, lines, network } = shardGTFS(data);
+
+    for (const dir of ['stops', 'lines']) {
+        rmSync(join(outDir, dir), { recursive: true, force: true });
+        mkdirSync(join(outDir, dir), { recursive: true });
+    }
+
+    for (const [path, shard] of shards) {
+        writeFileSync(join(outDir, path), JSON.stringify(shard));
+    }
+    for (const [path, line] of lines) {
+        writeFileSync(join(outDir, path), JSON.stringify(line));
+    }
+    writeFileSync(join(outDir, network.path), JSON.stringify(network.data));
+    writeFileSync(join(outDir, 'index.json'), JSON.stringify(manifest, null, 4));
+
+    console.log(
+        `Wrote ${shards.size} stop shards, ${lines.size} line patterns and the journey planning timetable to ${outDir}`
+    );
+}
+
+function main(): number {
+    const { values, positionals } = parseArgs({
+        allowPositionals: true,
+        options: {
+            noc: { type: 'string' },
+            out: { type: 'string', default: DEFAULT_OUTPUT },
+            report: { type: 'string' },
+        },
+    });
+
+    if (positionals.length === 0) {
+        console.error(
+            'Usage: npm run gtfs -- <feed.zip> [more.zip...] [--noc FESX,ARBB] [--out dir] [--report path]'
+        );
+        return 2;
+    }
+
+    const feeds: GTFSFeed[] = positionals.map(path => ({
+        name: basename(path),
+        ...openZipFile(path),
+    }));
+
+    const { data, report } = ingestGTFS(feeds, {
+        bounds: loadBounds(),
+        operatorNocs: values.noc?.split(',').filter(Boolean),
+        knownStops: loadKnownStops(),
+    });
+
+    printReport(report);
+
+    if (values.report) {
+        writeFileSync(values.report, JSON.stringify(report, null, 2));
+    }
+
+    if (hasErrors(report)) {
+        console.error('Ingestion failed - output not written');
+        return 1;
+    }
+
+    writeShards(data, values.out);
+    return 0;
+}
+
+process.exitCode = main();
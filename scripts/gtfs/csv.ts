@@ -0,0 +1,75 @@
+/**
+ * GTFS CSV Parsing
+ * RFC 4180 parser handling quoted fields, escaped quotes and CRLF line endings
+ */
+
+/** A CSV row keyed by header name */
+export type CsvRecord = Record<string, string>;
+
+/**
+ * Split CSV text into rows of fields
+ */
+function* parseRows(text: string): Generator<string[]> {
+    let field = '';
+    let row: string[] = [];
+    let inQuotes = false;
+
+    // Strip UTF-8 byte order mark (common in operator exports)
+    const start = text.charCodeAt(0) === 0xfeff ? 1 : 0;
+
+    for (let i = start; i < text.length; i++) {
+        const char = text[i];
+
+        if (inQuotes) {
+            if (char === '"' && text[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                inQuotes = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"') {
+            inQuotes = true;
+        } else if (char === ',') {
+            row.push(field.trim());
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && text[i + 1] === '\n') i++;
+            row.push(field.trim());
+            yield row;
+            row = [];
+            field = '';
+        } else {
+            field += char;
+        }
+    }
+
+    if (field !== '' || row.length > 0) {
+        row.push(field.trim());
+        yield row;
+    }
+}
+
+/**
+ * Parse CSV text into records keyed by the header row
+ * Blank lines are skipped; missing trailing fields become empty strings
+ */
+export function* parseCsv(text: string): Generator<CsvRecord> {
+    let header: string[] | null = null;
+
+    for (const row of parseRows(text)) {
+        if (row.length === 1 && row[0] === '') continue;
+
+        if (!header) {
+            header = row;
+            continue;
+        }
+
+        const record: CsvRecord = {};
+        header.forEach((name, index) => {
+            record[name] = row[index] ?? '';
+        });
+        yield record;
+    }
+}
@@ -0,0 +1,187 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest';
+import { join } from 'node:path';
+import { hasErrors, ingestGTFS, type GTFSFeed, type IngestOptions } from './ingest';
+import { openZipFile } from './zip';
+import type { GTFSData } from '@/types';
+
+const FIXTURES = join(__dirname, 'fixtures');
+const BUS_STATION = '150033038003';
+const BROOMFIELD = '150042019004';
+
+const OPTIONS: IngestOptions = {
+    bounds: { north: 51.82, south: 51.68, east: 0.55, west: 0.4 },
+    today: new Date(2025, 5, 11),
+};
+
+function loadFeed(fileName: string): GTFSFeed {
+    return { name: fileName, ...openZipFile(join(FIXTURES, fileName)) };
+}
+
+function issueCodes(feeds: GTFSFeed[], options: IngestOptions = OPTIONS): string[] {
+    return ingestGTFS(feeds, options).report.issues.map(issue => issue.code);
+}
+
+describe('ingestGTFS', () => {
+    const feed = loadFeed('multi-operator.zip');
+
+    it('should include every operator with calls inside the bounds', () => {
+        const { data, report } = ingestGTFS([feed], OPTIONS);
+
+        expect(report.operators).toEqual([
+            { noc: 'ARBB', name: 'Arriva Southern Counties' },
+            { noc: 'FESX', name: 'First Essex' },
+        ]);
+        expect(Object.keys(data.routes).sort()).toEqual(['R100', 'R42']);
+        expect(data.routes.R42.operatorName).toBe('First Essex');
+        expect(data.routes.R42.operatorCode).toBe('FESX');
+        expect(data.trips.T4).toBeUndefined();
+        expect(hasErrors(report)).toBe(false);
+    });
+
+    it('should filter to the requested operator NOCs', () => {
+        const { data, report } = ingestGTFS([feed], { ...OPTIONS, operatorNocs: ['fesx'] });
+
+        expect(report.operators.map(op => op.noc)).toEqual(['FESX']);
+        expect(Object.keys(data.trips).sort()).toEqual(['T1', 'T2']);
+        expect(Object.keys(data.calendar)).toEqual(['WEEKDAY']);
+        expect(data.calendarDates.WEEKDAY).toEqual([
+            { serviceId: 'WEEKDAY', date: '20251225', exceptionType: 2 },
+        ]);
+    });
+
+    it('should clip stop times to the bounds and sort after-midnight calls last', () => {
+        const { data } = ingestGTFS([feed], OPTIONS);
+
+        expect(Object.keys(data.stopTimes).sort()).toEqual([BUS_STATION, BROOMFIELD]);
+        expect(data.stopTimes[BUS_STATION].map(st => st.departureTime)).toEqual([
+            '07:10:00',
+            '09:00:00',
+            '12:00:00',
+            '24:05:00',
+        ]);
+    });
+
+    it('should parse trip fields including quoted headsigns', () => {
+        const { data } = ingestGTFS([feed], OPTIONS);
+
+        expect(data.trips.T2).toEqual({
+            tripId: 'T2',
+            routeId: 'R42',
+            serviceId: 'WEEKDAY',
+            tripHeadsign: 'City Centre, Bus Station',
+            directionId: 1,
+            blockId: 'B1',
+            vehicleJourneyCode: 'VJ1002',
+            originStopId: BROOMFIELD,
+            destinationStopId: BUS_STATION,
+        });
+    });
+
+    it('should report data problems as warnings', () => {
+        const { report } = ingestGTFS([feed], OPTIONS);
+        const invalidTime = report.issues.find(issue => issue.code === 'invalid-time');
+
+        expect(issueCodes([feed])).toEqual(
+            expect.arrayContaining([
+                'invalid-time',
+                'unknown-trip',
+                'service-no-calendar',
+                'service-expired',
+            ])
+        );
+        expect(invalidTime?.examples).toEqual([`T3@${BROOMFIELD}: "9:75"`]);
+        expect(report.issues.every(issue => issue.severity === 'warning')).toBe(true);
+    });
+
+    it('should flag stops missing from the NaPTAN stop list', () => {
+        const { report } = ingestGTFS([feed], { ...OPTIONS, knownStops: new Set([BUS_STATION]) });
+        const missing = report.issues.find(issue => issue.code === 'stop-not-in-naptan');
+
+        expect(missing?.examples).toEqual([BROOMFIELD]);
+    });
+
+    it('should replace trips duplicated across feeds without doubling their calls', () => {
+        const { data, report } = ingestGTFS([feed, { ...feed, name: 'copy.zip' }], OPTIONS);
+        const single = ingestGTFS([feed], OPTIONS).data;
+
+        expect(report.issues.map(issue => issue.code)).toContain('duplicate-trip');
+        expect(data.stopTimes[BUS_STATION]).toHaveLength(single.stopTimes[BUS_STATION].length);
+        expect(data.stopTimes[BROOMFIELD]).toHaveLength(single.stopTimes[BROOMFIELD].length);
+        expect(data.trips.T1.serviceId).toBe('copy.zip:WEEKDAY');
+        expect(data.calendarDates['copy.zip:WEEKDAY']).toEqual([
+            { serviceId: 'copy.zip:WEEKDAY', date: '20251225', exceptionType: 2 },
+        ]);
+    });
+
+    it("should keep another feed's reused route and service IDs apart", () => {
+        const files: Record<string, string> = {
+            'agency.txt': 'agency_id,agency_name,agency_noc\nA,Other Buses,OTHR\n',
+            'routes.txt': 'route_id,agency_id,route_short_name,route_type\nR42,A,7,3\n',
+            'trips.txt': 'route_id,service_id,trip_id\nR42,WEEKDAY,X1\n',
+            'stops.txt': `stop_id,stop_lat,stop_lon\n${BUS_STATION},51.7362,0.4690\n`,
+            'stop_times.txt': `trip_id,arrival_time,departure_time,stop_id,stop_sequence\nX1,08:00:00,08:00:00,${BUS_STATION},1\n`,
+            'calendar_dates.txt':
+                'service_id,date,exception_type\nWEEKDAY,20250612,1\nWEEKDAY,20250612,1\n',
+        };
+        const other: GTFSFeed = {
+            name: 'other.zip',
+            names: Object.keys(files),
+            readText: name => files[name] ?? null,
+        };
+
+        const { data } = ingestGTFS([feed, other], OPTIONS);
+
+        expect(data.routes.R42.operatorName).toBe('First Essex');
+        expect(data.routes['other.zip:R42'].operatorName).toBe('Other Buses');
+        expect(data.trips.X1.serviceId).toBe('other.zip:WEEKDAY');
+        expect(data.calendarDates.WEEKDAY).toEqual([
+            { serviceId: 'WEEKDAY', date: '20251225', exceptionType: 2 },
+        ]);
+        expect(data.calendarDates['other.zip:WEEKDAY']).toEqual([
+            { serviceId: 'other.zip:WEEKDAY', date: '20250612', exceptionType: 1 },
+        ]);
+    });
+
+    it("should keep another operator's reused trip IDs apart, even on excluded routes", () => {
+        const files: Record<string, string> = {
+            'agency.txt':
+                'agency_id,agency_name,agency_noc\nA,Other Buses,OTHR\nB,Excluded Buses,EXCL\n',
+            'routes.txt': 'route_id,agency_id,route_short_name,route_type\nR7,A,7,3\nR8,B,8,3\n',
+            'trips.txt': 'route_id,service_id,trip_id\nR7,DAILY,T1\nR8,DAILY,T2\n',
+            'stops.txt': `stop_id,stop_lat,stop_lon\n${BUS_STATION},51.7362,0.4690\n${BROOMFIELD},51.7740,0.4660\n`,
+            'stop_times.txt': `trip_id,arrival_time,departure_time,stop_id,stop_sequence\nT1,09:00:00,09:00:00,${BUS_STATION},1\nT2,09:30:00,09:30:00,${BROOMFIELD},1\n`,
+            'calendar_dates.txt': 'service_id,date,exception_type\nDAILY,20250612,1\n',
+        };
+        const other: GTFSFeed = {
+            name: 'other.zip',
+            names: Object.keys(files),
+            readText: name => files[name] ?? null,
+        };
+        const options = { ...OPTIONS, operatorNocs: ['FESX', 'OTHR'] };
+        const calls = (data: GTFSData, tripId: string) =>
+            Object.values(data.stopTimes)
+                .flat()
+                .filter(time => time.tripId === tripId);
+
+        const { data, report } = ingestGTFS([feed, other], options);
+        const single = ingestGTFS([feed], options).data;
+
+        expect(report.issues.map(issue => issue.code)).not.toContain('duplicate-trip');
+        expect(data.trips.T1.routeId).toBe('R42');
+        expect(data.trips['other.zip:T1'].routeId).toBe('R7');
+        expect(calls(data, 'T1')).toEqual(calls(single, 'T1'));
+        expect(calls(data, 'other.zip:T1').map(time => time.departureTime)).toEqual(['09:00:00']);
+        expect(data.trips.T2).toEqual(single.trips.T2);
+        expect(calls(data, 'T2')).toEqual(calls(single, 'T2'));
+    });
+
+    it('should fail when required files are missing', () => {
+        const { report } = ingestGTFS([loadFeed('missing-files.zip')], OPTIONS);
+        const missing = report.issues.find(issue => issue.code === 'missing-file');
+
+        expect(hasErrors(report)).toBe(true);
+        expect(missing?.count).toBe(3);
+        expect(report.issues.map(issue => issue.code)).toContain('no-stop-times');
+    });
+});
@@ -0,0 +1,674 @@
+/**
+ * GTFS Ingestion
+ * Converts one or more BODS GTFS feeds into the app's pre-processed GTFSData format,
+ * clipped to the Chelmsford bounding box, with a validation report
+ */
+
+import { parseServiceTime } from '@utils/time';
+import { formatServiceDate } from '@api/gtfs-calendar';
+import type {
+    GTFSCalendar,
+    GTFSCalendarDate,
+    GTFSData,
+    GTFSRoute,
+    GTFSStopTime,
+    GTFSTrip,
+    GTFSTripCall,
+} from '@/types';
+import { parseCsv, type CsvRecord } from './csv';
+
+/** Source of GTFS text files (a zip archive or in-memory fixture) */
+export interface GTFSFeed {
+    name: string;
+    /** File names in the feed, possibly inside a folder */
+    names: string[];
+    readText(fileName: string): string | null;
+}
+
+/** Geographic clip area, matching busStops.chelmsfordBounds in the app config */
+export interface ClipBounds {
+    north: number;
+    south: number;
+    east: number;
+    west: number;
+}
+
+/** Options for a single ingestion run */
+export interface IngestOptions {
+    bounds: ClipBounds;
+    /** Operator NOCs to include (e.g. FESX, ARBB) - all operators when empty */
+    operatorNocs?: string[];
+    /** NaPTAN ATCO codes from bus-stops.json, used to flag stops the app can't display */
+    knownStops?: Set<string>;
+    /** Reference date for expiry checks (default: now) */
+    today?: Date;
+}
+
+/** A single class of problem found during ingestion */
+export interface IngestionIssue {
+    severity: 'error' | 'warning';
+    code: string;
+    message: string;
+    count: number;
+    examples: string[];
+}
+
+/** Summary of an ingestion run */
+export interface IngestionReport {
+    feeds: string[];
+    operators: { noc: string; name: string }[];
+    counts: {
+        stops: number;
+        stopTimes: number;
+        trips: number;
+        routes: number;
+        services: number;
+    };
+    issues: IngestionIssue[];
+}
+
+/** Output of an ingestion run */
+export interface IngestionResult {
+    data: GTFSData;
+    report: IngestionReport;
+}
+
+/** Operator (GTFS agency) details */
+interface Agency {
+    noc: string;
+    name: string;
+}
+
+/** Intermediate state accumulated across feeds */
+interface WorkingSet {
+    agencies: Map<string, Agency>;
+    /** Operator of each route; agency IDs can repeat across feeds, so this holds the agency */
+    routeAgency: Map<string, Agency>;
+    routes: Map<string, GTFSRoute>;
+    trips: Map<string, GTFSTrip>;
+    stopTimes: Map<string, GTFSStopTime[]>;
+    /** Coordinates of stops inside the clip bounds */
+    stops: Map<string, { latitude: number; longitude: number }>;
+    /** First and last stop_sequence seen per trip, for origin/destination stops */
+    tripEndpoints: Map<string, { first: number; last: number }>;
+    calendar: Map<string, GTFSCalendar>;
+    calendarDates: Map<string, GTFSCalendarDate[]>;
+}
+
+/** Maps a feed's own route or service ID to the ID used in the output */
+type IdScope = (id: string) => string;
+
+const REQUIRED_FILES = ['stops.txt', 'routes.txt', 'trips.txt', 'stop_times.txt'];
+const MAX_EXAMPLES = 5;
+
+/**
+ * Aggregates issues by code so large feeds don't produce huge reports
+ */
+class IssueLog {
+    private readonly issues = new Map<string, IngestionIssue>();
+
+    add(severity: IngestionIssue['severity'], code: string, message: string, example?: string) {
+        let issue = this.issues.get(code);
+        if (!issue) {
+            issue = { severity, code, message, count: 0, examples: [] };
+            this.issues.set(code, issue);
+        }
+        issue.count++;
+        if (example && issue.examples.length < MAX_EXAMPLES) {
+            issue.examples.push(example);
+        }
+    }
+
+    list(): IngestionIssue[] {
+        return [...this.issues.values()].sort((a, b) => a.severity.localeCompare(b.severity));
+    }
+}
+
+function isInBounds(lat: number, lon: number, bounds: ClipBounds): boolean {
+    return lat >= bounds.south && lat <= bounds.north && lon >= bounds.west && lon <= bounds.east;
+}
+
+function optionalNumber(value: string | undefined): number | undefined {
+    if (!value) return undefined;
+    const parsed = parseInt(value, 10);
+    return isNaN(parsed) ? undefined : parsed;
+}
+
+/**
+ * Read agency.txt and pick the operators to include
+ * @returns Included agency IDs
+ */
+function readAgencies(
+    feed: GTFSFeed,
+    working: WorkingSet,
+    nocs: Set<string>,
+    issues: IssueLog
+): Set<string> {
+    const included = new Set<string>();
+    const text = feed.readText('agency.txt');
+    if (text === null) {
+        issues.add('warning', 'missing-agency', 'Feed has no agency.txt', feed.name);
+        return included;
+    }
+
+    for (const row of parseCsv(text)) {
+        const agency: Agency = {
+            noc: (row.agency_noc || row.agency_id).toUpperCase(),
+            name: row.agency_name || row.agency_id,
+        };
+        working.agencies.set(row.agency_id, agency);
+        if (nocs.size === 0 || nocs.has(agency.noc)) {
+            included.add(row.agency_id);
+        }
+    }
+    return included;
+}
+
+/**
+ * Read routes.txt, keeping routes run by included operators
+ * @returns Included route IDs
+ */
+function readRoutes(
+    feed: GTFSFeed,
+    working: WorkingSet,
+    includedAgencies: Set<string>,
+    nocs: Set<string>,
+    routeScope: IdScope
+): Set<string> {
+    const included = new Set<string>();
+    // A single-operator feed may omit agency_id on routes
+    const defaultAgency = includedAgencies.size === 1 ? [...includedAgencies][0] : undefined;
+
+    for (const row of parseCsv(feed.readText('routes.txt') ?? '')) {
+        const agencyId = row.agency_id || defaultAgency;
+        const keep = agencyId ? includedAgencies.has(agencyId) : nocs.size === 0;
+        if (!keep) continue;
+
+        const routeId = routeScope(row.route_id);
+        const agency = agencyId ? working.agencies.get(agencyId) : undefined;
+        working.routes.set(routeId, {
+            routeId,
+            routeShortName: row.route_short_name || row.route_long_name || row.route_id,
+            routeLongName: row.route_long_name || undefined,
+            operatorName: agency?.name,
+            operatorCode: agency?.noc,
+        });
+        if (agency) working.routeAgency.set(routeId, agency);
+        included.add(row.route_id);
+    }
+    return included;
+}
+
+/**
+ * Drop the stop times of trips replaced by a later feed, so their calls aren't doubled
+ */
+function dropStopTimes(working: WorkingSet, tripIds: Set<string>): void {
+    for (const [stopId, times] of working.stopTimes) {
+        const kept = times.filter(time => !tripIds.has(time.tripId));
+        if (kept.length === 0) {
+            working.stopTimes.delete(stopId);
+        } else if (kept.length < times.length) {
+            working.stopTimes.set(stopId, kept);
+        }
+    }
+}
+
+/**
+ * Choose the output ID for a trip
+ * An operator's trip already read from an earlier feed is replaced, while another
+ * operator reusing the ID gets it scoped to this feed so neither trip is lost
+ */
+function scopeTripId(feed: GTFSFeed, working: WorkingSet, tripId: string, routeId: string): string {
+    const earlier = working.trips.get(tripId);
+    if (!earlier) return tripId;
+
+    const operator = working.routeAgency.get(routeId)?.noc;
+    const earlierOperator = working.routeAgency.get(earlier.routeId)?.noc;
+    return operator === earlierOperator ? tripId : `${feed.name}:${tripId}`;
+}
+
+/**
+ * Read trips.txt, keeping trips on included routes
+ * A trip the same operator already ran in an earlier feed is replaced, calls and all
+ * @returns All trip IDs in the feed (for reference checks), and the output ID of
+ *   each trip this feed included
+ */
+function readTrips(
+    feed: GTFSFeed,
+    working: WorkingSet,
+    includedRoutes: Set<string>,
+    scopes: { route: IdScope; service: IdScope },
+    issues: IssueLog
+): { all: Set<string>; included: Map<string, string> } {
+    const all = new Set<string>();
+    const included = new Map<string, string>();
+    const replaced = new Set<string>();
+
+    for (const row of parseCsv(feed.readText('trips.txt') ?? '')) {
+        all.add(row.trip_id);
+        if (!includedRoutes.has(row.route_id)) continue;
+
+        const routeId = scopes.route(row.route_id);
+        const tripId = scopeTripId(feed, working, row.trip_id, routeId);
+        included.set(row.trip_id, tripId);
+
+        if (working.trips.has(tripId) && !replaced.has(tripId)) {
+            issues.add(
+                'warning',
+                'duplicate-trip',
+                'Trip ID appears in more than one feed (last one wins)',
+                tripId
+            );
+            replaced.add(tripId);
+            working.tripEndpoints.delete(tripId);
+        }
+
+        working.trips.set(tripId, {
+            tripId,
+            routeId,
+            serviceId: scopes.service(row.service_id),
+            tripHeadsign: row.trip_headsign || undefined,
+            directionId: optionalNumber(row.direction_id),
+            blockId: row.block_id || undefined,
+            vehicleJourneyCode: row.vehicle_journey_code || undefined,
+        });
+    }
+
+    if (replaced.size > 0) dropStopTimes(working, replaced);
+    return { all, included };
+}
+
+/**
+ * Read stops.txt and record stops inside the clip bounds
+ * @returns IDs of this feed's stops inside the bounds
+ */
+function readStopsInBounds(
+    feed: GTFSFeed,
+    working: WorkingSet,
+    bounds: ClipBounds,
+    issues: IssueLog
+): Set<string> {
+    const inBounds = new Set<string>();
+
+    for (const row of parseCsv(feed.readText('stops.txt') ?? '')) {
+        const lat = parseFloat(row.stop_lat);
+        const lon = parseFloat(row.stop_lon);
+        if (isNaN(lat) || isNaN(lon) || (lat === 0 && lon === 0)) {
+            issues.add(
+                'warning',
+                'stop-no-coordinates',
+                'Stop has no valid coordinates',
+                row.stop_id
+            );
+            continue;
+        }
+        if (isInBounds(lat, lon, bounds)) {
+            inBounds.add(row.stop_id);
+            working.stops.set(row.stop_id, { latitude: lat, longitude: lon });
+        }
+    }
+    return inBounds;
+}
+
+/**
+ * Track a trip's origin and destination stops, including those outside the
+ * clip bounds, so live vehicles can be matched on their origin/destination refs
+ */
+function recordTripEndpoint(working: WorkingSet, tripId: string, row: CsvRecord): void {
+    const trip = working.trips.get(tripId);
+    const sequence = parseInt(row.stop_sequence, 10);
+    if (!trip || isNaN(sequence)) return;
+
+    const endpoints = working.tripEndpoints.get(tripId);
+    if (!endpoints) {
+        working.tripEndpoints.set(tripId, { first: sequence, last: sequence });
+        trip.originStopId = row.stop_id;
+        trip.destinationStopId = row.stop_id;
+        return;
+    }
+
+    if (sequence < endpoints.first) {
+        endpoints.first = sequence;
+        trip.originStopId = row.stop_id;
+    }
+    if (sequence > endpoints.last) {
+        endpoints.last = sequence;
+        trip.destinationStopId = row.stop_id;
+    }
+}
+
+/**
+ * Read stop_times.txt, keeping calls at in-bounds stops on trips this feed included
+ * Checking this feed's own trips keeps calls from attaching to another feed's trip
+ * with the same ID
+ */
+function readStopTimes(
+    feed: GTFSFeed,
+    working: WorkingSet,
+    stopsInBounds: Set<string>,
+    feedTrips: { all: Set<string>; included: Map<string, string> },
+    issues: IssueLog
+): void {
+    for (const row of parseCsv(feed.readText('stop_times.txt') ?? '')) {
+        if (!feedTrips.all.has(row.trip_id)) {
+            issues.add('warning', 'unknown-trip', 'Stop time references unknown trip', row.trip_id);
+            continue;
+        }
+        const tripId = feedTrips.included.get(row.trip_id);
+        if (!tripId) continue;
+
+        recordTripEndpoint(working, tripId, row);
+        if (!stopsInBounds.has(row.stop_id)) continue;
+
+        // GTFS allows a blank arrival time when departure is set (and vice versa)
+        const departureTime = row.departure_time || row.arrival_time;
+        const arrivalTime = row.arrival_time || row.departure_time;
+        if (isNaN(parseServiceTime(departureTime))) {
+            issues.add(
+                'warning',
+                'invalid-time',
+                'Stop time has a missing or invalid time (row skipped)',
+                `${row.trip_id}@${row.stop_id}: "${departureTime}"`
+            );
+            continue;
+        }
+
+        const entry: GTFSStopTime = {
+            tripId,
+            arrivalTime,
+            departureTime,
+            stopId: row.stop_id,
+            stopSequence: parseInt(row.stop_sequence, 10),
+        };
+        const existing = working.stopTimes.get(row.stop_id);
+        if (existing) {
+            existing.push(entry);
+        } else {
+            working.stopTimes.set(row.stop_id, [entry]);
+        }
+    }
+}
+
+function parseCalendarRow(row: CsvRecord): GTFSCalendar {
+    return {
+        serviceId: row.service_id,
+        monday: row.monday === '1',
+        tuesday: row.tuesday === '1',
+        wednesday: row.wednesday === '1',
+        thursday: row.thursday === '1',
+        friday: row.friday === '1',
+        saturday: row.saturday === '1',
+        sunday: row.sunday === '1',
+        startDate: row.start_date,
+        endDate: row.end_date,
+    };
+}
+
+/**
+ * Read calendar.txt and calendar_dates.txt
+ */
+function readCalendars(
+    feed: GTFSFeed,
+    working: WorkingSet,
+    serviceScope: IdScope,
+    issues: IssueLog
+): void {
+    const calendarText = feed.readText('calendar.txt');
+    const calendarDatesText = feed.readText('calendar_dates.txt');
+
+    if (calendarText === null && calendarDatesText === null) {
+        issues.add(
+            'error',
+            'missing-calendar',
+            'Feed has neither calendar.txt nor calendar_dates.txt',
+            feed.name
+        );
+        return;
+    }
+
+    for (const row of parseCsv(calendarText ?? '')) {
+        const serviceId = serviceScope(row.service_id);
+        working.calendar.set(serviceId, { ...parseCalendarRow(row), serviceId });
+    }
+
+    for (const row of parseCsv(calendarDatesText ?? '')) {
+        const serviceId = serviceScope(row.service_id);
+        const entry: GTFSCalendarDate = {
+            serviceId,
+            date: row.date,
+            exceptionType: row.exception_type === '1' ? 1 : 2,
+        };
+        // One exception per service and date; a repeated row replaces the earlier one
+        const existing = (working.calendarDates.get(serviceId) ?? []).filter(
+            date => date.date !== entry.date
+        );
+        working.calendarDates.set(serviceId, [...existing, entry]);
+    }
+}
+
+/**
+ * Scope a feed's route and service IDs to the feed where an earlier feed already used them
+ * Operators' feeds can reuse simple IDs like "1", which would otherwise mix up their
+ * routes and calendars. IDs no earlier feed used are kept as they are.
+ */
+function scopeFeedIds(feed: GTFSFeed, working: WorkingSet): { route: IdScope; service: IdScope } {
+    const earlierRoutes = new Set(working.routes.keys());
+    const earlierServices = new Set([
+        ...working.calendar.keys(),
+        ...working.calendarDates.keys(),
+        ...[...working.trips.values()].map(trip => trip.serviceId),
+    ]);
+    const scope =
+        (earlier: Set<string>): IdScope =>
+        id =>
+            earlier.has(id) ? `${feed.name}:${id}` : id;
+
+    return { route: scope(earlierRoutes), service: scope(earlierServices) };
+}
+
+/**
+ * Ingest a single feed into the working set
+ */
+function ingestFeed(
+    feed: GTFSFeed,
+    working: WorkingSet,
+    options: IngestOptions,
+    nocs: Set<string>,
+    issues: IssueLog
+): void {
+    // Check the listing rather than reading, as stop_times.txt can be very large
+    const missing = REQUIRED_FILES.filter(
+        file => !feed.names.some(name => name === file || name.endsWith(`/${file}`))
+    );
+    if (missing.length > 0) {
+        for (const file of missing) {
+            issues.add(
+                'error',
+                'missing-file',
+                'Feed is missing a required file',
+                `${feed.name}: ${file}`
+            );
+        }
+        return;
+    }
+
+    const scopes = scopeFeedIds(feed, working);
+    const agencies = readAgencies(feed, working, nocs, issues);
+    const routes = readRoutes(feed, working, agencies, nocs, scopes.route);
+    const feedTrips = readTrips(feed, working, routes, scopes, issues);
+    const stopsInBounds = readStopsInBounds(feed, working, options.bounds, issues);
+    readStopTimes(feed, working, stopsInBounds, feedTrips, issues);
+    readCalendars(feed, working, scopes.service, issues);
+}
+
+/**
+ * Build each trip's ordered calls inside the clip area, with stop coordinates,
+ * for route-based ETAs
+ */
+function buildTripCalls(working: WorkingSet): Record<string, GTFSTripCall[]> {
+    const tripCalls: Record<string, GTFSTripCall[]> = {};
+
+    for (const times of working.stopTimes.values()) {
+        for (const time of times) {
+            const coords = working.stops.get(time.stopId);
+            if (!coords) continue;
+
+            const call: GTFSTripCall = {
+                stopId: time.stopId,
+                stopSequence: time.stopSequence,
+                departureTime: time.departureTime,
+                ...coords,
+            };
+            (tripCalls[time.tripId] ??= []).push(call);
+        }
+    }
+
+    for (const calls of Object.values(tripCalls)) {
+        calls.sort((a, b) => a.stopSequence - b.stopSequence);
+    }
+    return tripCalls;
+}
+
+/**
+ * Drop trips, routes and services that have no calls inside the clip area,
+ * and sort each stop's calls by departure time
+ */
+function buildOutput(working: WorkingSet): GTFSData {
+    const stopTimes: Record<string, GTFSStopTime[]> = {};
+    const usedTrips = new Set<string>();
+
+    for (const [stopId, times] of working.stopTimes) {
+        times.sort((a, b) => parseServiceTime(a.departureTime) - parseServiceTime(b.departureTime));
+        stopTimes[stopId] = times;
+        times.forEach(time => usedTrips.add(time.tripId));
+    }
+
+    const data: GTFSData = {
+        stopTimes,
+        tripCalls: buildTripCalls(working),
+        trips: {},
+        routes: {},
+        calendar: {},
+        calendarDates: {},
+        lastUpdated: new Date().toISOString(),
+    };
+
+    for (const tripId of usedTrips) {
+        const trip = working.trips.get(tripId)!;
+        data.trips[tripId] = trip;
+
+        const route = working.routes.get(trip.routeId);
+        if (route) data.routes[trip.routeId] = route;
+
+        const calendar = working.calendar.get(trip.serviceId);
+        if (calendar) data.calendar[trip.serviceId] = calendar;
+
+        const dates = working.calendarDates.get(trip.serviceId);
+        if (dates) data.calendarDates[trip.serviceId] = dates;
+    }
+
+    return data;
+}
+
+/**
+ * Check the output for problems that would make the timetable wrong in the app
+ */
+function validateOutput(data: GTFSData, options: IngestOptions, issues: IssueLog): void {
+    const today = formatServiceDate(options.today ?? new Date());
+    const services = new Set(Object.values(data.trips).map(trip => trip.serviceId));
+
+    for (const serviceId of services) {
+        const calendar = data.calendar[serviceId];
+        if (!calendar && !data.calendarDates[serviceId]) {
+            issues.add(
+                'warning',
+                'service-no-calendar',
+                'Service has no calendar or calendar_dates entries (its trips never run)',
+                serviceId
+            );
+        } else if (calendar && calendar.endDate < today) {
+            issues.add('warning', 'service-expired', 'Service calendar has ended', serviceId);
+        }
+    }
+
+    if (options.knownStops) {
+        for (const stopId of Object.keys(data.stopTimes)) {
+            if (!options.knownStops.has(stopId)) {
+                issues.add(
+                    'warning',
+                    'stop-not-in-naptan',
+                    'Stop is not in bus-stops.json, so its departures are never shown',
+                    stopId
+                );
+            }
+        }
+    }
+
+    if (Object.keys(data.stopTimes).length === 0) {
+        issues.add('error', 'no-stop-times', 'No stop times found inside the clip bounds');
+    }
+}
+
+/**
+ * List operators that ended up in the output
+ */
+function summarizeOperators(data: GTFSData, working: WorkingSet): IngestionReport['operators'] {
+    const operators = new Map<string, string>();
+    for (const routeId of Object.keys(data.routes)) {
+        const agency = working.routeAgency.get(routeId);
+        if (agency) operators.set(agency.noc, agency.name);
+    }
+    return [...operators]
+        .map(([noc, name]) => ({ noc, name }))
+        .sort((a, b) => a.noc.localeCompare(b.noc));
+}
+
+/**
+ * Ingest GTFS feeds into the app's timetable format
+ * @param feeds - Feeds to merge (e.g. one BODS download per operator)
+ * @param options - Clip bounds, operator filter and validation inputs
+ */
+export function ingestGTFS(feeds: GTFSFeed[], options: IngestOptions): IngestionResult {
+    const issues = new IssueLog();
+    const nocs = new Set((options.operatorNocs ?? []).map(noc => noc.trim().toUpperCase()));
+    const working: WorkingSet = {
+        agencies: new Map(),
+        routeAgency: new Map(),
+        routes: new Map(),
+        trips: new Map(),
+        stopTimes: new Map(),
+        stops: new Map(),
+        tripEndpoints: new Map(),
+        calendar: new Map(),
+        calendarDates: new Map(),
+    };
+
+    for (const feed of feeds) {
+        ingestFeed(feed, working, options, nocs, issues);
+    }
+
+    const data = buildOutput(working);
+    validateOutput(data, options, issues);
+
+    const report: IngestionReport = {
+        feeds: feeds.map(feed => feed.name),
+        operators: summarizeOperators(data, working),
+        counts: {
+            stops: Object.keys(data.stopTimes).length,
+            stopTimes: Object.values(data.stopTimes).reduce((sum, times) => sum + times.length, 0),
+            trips: Object.keys(data.trips).length,
+            routes: Object.keys(data.routes).length,
+            services: new Set(Object.values(data.trips).map(trip => trip.serviceId)).size,
+        },
+        issues: issues.list(),
+    };
+
+    return { data, report };
+}
+
+/**
+ * Check whether a report contains blocking errors
+ */
+export function hasErrors(report: IngestionReport): boolean {
+    return report.issues.some(issue => issue.severity === 'error');
+}
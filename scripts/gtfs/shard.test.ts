@@ -0,0 +1,73 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest';
+import { join } from 'node:path';
+import { ingestGTFS } from './ingest';
+import { shardGTFS } from './shard';
+import { openZipFile } from './zip';
+
+const FEED = {
+    name: 'multi-operator.zip',
+    ...openZipFile(join(__dirname, 'fixtures', 'multi-operator.zip')),
+};
+const BOUNDS = { north: 51.82, south: 51.68, east: 0.55, west: 0.4 };
+const BROOMFIELD = '150042019004';
+
+describe('shardGTFS', () => {
+    const { data } = ingestGTFS([FEED], { bounds: BOUNDS });
+    const { manifest, shards, lines, network } = shardGTFS(data);
+
+    it('should list one shard per stop in the manifest', () => {
+        expect(manifest.version).toBe(data.lastUpdated);
+        expect(manifest.stops).toEqual({
+            '150033038003': 'stops/150033038003.json',
+            [BROOMFIELD]: `stops/${BROOMFIELD}.json`,
+        });
+        expect([...shards.keys()]).toEqual(Object.values(manifest.stops));
+    });
+
+    it('should include only the trips, routes and services calling at the stop', () => {
+        const shard = shards.get(`stops/${BROOMFIELD}.json`)!;
+
+        expect(Object.keys(shard.stopTimes)).toEqual([BROOMFIELD]);
+        expect(Object.keys(shard.trips).sort()).toEqual(['T1', 'T2']);
+        expect(Object.keys(shard.routes)).toEqual(['R42']);
+        expect(Object.keys(shard.calendar)).toEqual(['WEEKDAY']);
+        expect(Object.keys(shard.calendarDates)).toEqual(['WEEKDAY']);
+    });
+
+    it('should keep only the calls leading up to the stop for each trip', () => {
+        const shard = shards.get(`stops/${BROOMFIELD}.json`)!;
+
+        expect(shard.tripCalls.T1.map(call => call.stopSequence)).toEqual([1, 2]);
+        expect(shard.tripCalls.T2.map(call => call.stopId)).toEqual([BROOMFIELD]);
+        expect(shard.tripCalls.T1[0]).toMatchObject({ latitude: 51.7362, longitude: 0.469 });
+    });
+
+    it('should build a stop pattern per direction for each line', () => {
+        expect(manifest.lines).toEqual({ '100': 'lines/100.json', '42': 'lines/42.json' });
+
+        const line42 = lines.get('lines/42.json')!;
+        expect(line42.operatorName).toBe('First Essex');
+        expect(
+            line42.directions.map(d => [d.directionId, d.destination, d.stops.map(s => s.stopId)])
+        ).toEqual([
+            [0, 'Broomfield', ['150033038003', BROOMFIELD]],
+            [1, 'City Centre, Bus Station', [BROOMFIELD, '150033038003']],
+        ]);
+    });
+
+    it('should condense every trip into the journey planning timetable', () => {
+        expect(manifest.network).toBe('network.json');
+        expect(network.path).toBe('network.json');
+        expect(Object.keys(network.data.stops).sort()).toEqual(['150033038003', BROOMFIELD]);
+        expect(network.data.trips.T1).toEqual({
+            routeId: 'R42',
+            serviceId: 'WEEKDAY',
+            tripHeadsign: 'Broomfield',
+            calls: [
+                { stopId: '150033038003', departureTime: '07:10:00' },
+                { stopId: BROOMFIELD, departureTime: '07:25:00' },
+            ],
+        });
+    });
+});
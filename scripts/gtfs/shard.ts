@@ -0,0 +1,213 @@
+/**
+ * GTFS Sharding
+ * Splits ingested GTFSData into one self-contained shard per stop plus an
+ * index manifest, so the app only downloads timetables for stops it displays.
+ * Each line also gets a small file with its stop pattern per direction, and
+ * the whole timetable is condensed into one file for journey planning.
+ */
+
+import type {
+    GTFSData,
+    GTFSLine,
+    GTFSLineDirection,
+    GTFSManifest,
+    GTFSNetwork,
+    GTFSTripCall,
+} from '@/types';
+
+/** Path of the journey planning timetable, relative to the output directory */
+const NETWORK_PATH = 'network.json';
+
+/** Manifest, shards and line patterns keyed by path relative to the output directory */
+export interface ShardedGTFS {
+    manifest: GTFSManifest;
+    shards: Map<string, GTFSData>;
+    lines: Map<string, GTFSLine>;
+    network: { path: string; data: GTFSNetwork };
+}
+
+/** Trips sharing one stop pattern on a line and direction */
+interface PatternCandidate {
+    calls: GTFSTripCall[];
+    trips: number;
+    headsigns: Map<string, number>;
+}
+
+/**
+ * Build the shard for a single stop, copying only the trips, routes,
+ * services and earlier calls of trips that stop there
+ */
+function buildStopShard(data: GTFSData, stopId: string): GTFSData {
+    const stopTimes = data.stopTimes[stopId];
+    const shard: GTFSData = {
+        stopTimes: { [stopId]: stopTimes },
+        tripCalls: {},
+        trips: {},
+        routes: {},
+        calendar: {},
+        calendarDates: {},
+        lastUpdated: data.lastUpdated,
+    };
+
+    for (const { tripId, stopSequence } of stopTimes) {
+        const trip = data.trips[tripId];
+        if (!trip) continue;
+
+        shard.trips[tripId] = trip;
+
+        // Only the calls leading up to this stop are needed for its ETAs
+        const calls = data.tripCalls[tripId]?.filter(call => call.stopSequence <= stopSequence);
+        if (calls) shard.tripCalls[tripId] = calls;
+
+        const route = data.routes[trip.routeId];
+        if (route) shard.routes[trip.routeId] = route;
+
+        const calendar = data.calendar[trip.serviceId];
+        if (calendar) shard.calendar[trip.serviceId] = calendar;
+
+        const dates = data.calendarDates[trip.serviceId];
+        if (dates) shard.calendarDates[trip.serviceId] = dates;
+    }
+
+    return shard;
+}
+
+/**
+ * Pick the most frequent key in a count map
+ */
+function mostCommon(counts: Map<string, number>): string | undefined {
+    let best: [string, number] | undefined;
+    for (const entry of counts) {
+        if (!best || entry[1] > best[1]) best = entry;
+    }
+    return best?.[0];
+}
+
+/**
+ * Build each line's stop patterns
+ * Trips are grouped by line and direction; the pattern run by the most trips
+ * wins (the longer one on a tie), so short workings don't hide stops
+ */
+function buildLinePatterns(data: GTFSData): GTFSLine[] {
+    const patterns = new Map<string, Map<number | undefined, Map<string, PatternCandidate>>>();
+    const operators = new Map<string, string | undefined>();
+
+    for (const [tripId, calls] of Object.entries(data.tripCalls)) {
+        const trip = data.trips[tripId];
+        const route = trip && data.routes[trip.routeId];
+        if (!route || calls.length === 0) continue;
+
+        const line = route.routeShortName;
+        if (!operators.has(line)) operators.set(line, route.operatorName);
+
+        const directions =
+            patterns.get(line) ?? new Map<number | undefined, Map<string, PatternCandidate>>();
+        patterns.set(line, directions);
+        const candidates = directions.get(trip.directionId) ?? new Map<string, PatternCandidate>();
+        directions.set(trip.directionId, candidates);
+
+        const key = calls.map(call => call.stopId).join('>');
+        const candidate = candidates.get(key) ?? { calls, trips: 0, headsigns: new Map() };
+        candidates.set(key, candidate);
+
+        candidate.trips++;
+        const headsign = trip.tripHeadsign || route.routeLongName;
+        if (headsign)
+            candidate.headsigns.set(headsign, (candidate.headsigns.get(headsign) ?? 0) + 1);
+    }
+
+    return [...patterns].map(([line, directions]) => ({
+        line,
+        operatorName: operators.get(line),
+        directions: [...directions]
+            .sort(([a], [b]) => (a ?? Infinity) - (b ?? Infinity))
+            .map(([directionId, candidates]): GTFSLineDirection => {
+                const best = [...candidates.values()].reduce((a, b) =>
+                    b.trips > a.trips || (b.trips === a.trips && b.calls.length > a.calls.length)
+                        ? b
+                        : a
+                );
+                return {
+                    directionId,
+                    destination:
+                        mostCommon(best.headsigns) ?? best.calls[best.calls.length - 1].stopId,
+                    stops: best.calls.map(({ stopId, latitude, longitude }) => ({
+                        stopId,
+                        latitude,
+                        longitude,
+                    })),
+                };
+            }),
+    }));
+}
+
+/**
+ * Condense the timetable for journey planning
+ * Keeps each trip's calls without arrival times or per-call coordinates;
+ * stop locations are listed once instead
+ */
+function buildNetwork(data: GTFSData): GTFSNetwork {
+    const network: GTFSNetwork = {
+        stops: {},
+        trips: {},
+        routes: data.routes,
+        calendar: data.calendar,
+        calendarDates: data.calendarDates,
+        lastUpdated: data.lastUpdated,
+    };
+
+    for (const [tripId, calls] of Object.entries(data.tripCalls)) {
+        const trip = data.trips[tripId];
+        if (!trip || calls.length < 2) continue;
+
+        network.trips[tripId] = {
+            routeId: trip.routeId,
+            serviceId: trip.serviceId,
+            tripHeadsign: trip.tripHeadsign,
+            calls: calls.map(({ stopId, departureTime }) => ({ stopId, departureTime })),
+        };
+        for (const { stopId, latitude, longitude } of calls) {
+            network.stops[stopId] ??= { latitude, longitude };
+        }
+    }
+
+    return network;
+}
+
+/**
+ * Turn a line name into a safe file name (e.g. "X30" or "N/A")
+ */
+function lineFileName(line: string): string {
+    return line.replace(/[^A-Za-z0-9_-]/g, '_');
+}
+
+/**
+ * Split timetable data into per-stop shards
+ * The manifest version is the build timestamp, so every rebuild invalidates
+ * shards cached on devices
+ */
+export function shardGTFS(data: GTFSData): ShardedGTFS {
+    const manifest: GTFSManifest = {
+        version: data.lastUpdated,
+        lastUpdated: data.lastUpdated,
+        stops: {},
+        lines: {},
+        network: NETWORK_PATH,
+    };
+    const shards = new Map<string, GTFSData>();
+    const lines = new Map<string, GTFSLine>();
+
+    for (const stopId of Object.keys(data.stopTimes).sort()) {
+        const path = `stops/${stopId}.json`;
+        manifest.stops[stopId] = path;
+        shards.set(path, buildStopShard(data, stopId));
+    }
+
+    for (const line of buildLinePatterns(data).sort((a, b) => a.line.localeCompare(b.line))) {
+        const path = `lines/${lineFileName(line.line)}.json`;
+        manifest.lines[line.line] = path;
+        lines.set(path, line);
+    }
+
+    return { manifest, shards, lines, network: { path: NETWORK_PATH, data: buildNetwork(data) } };
+}
@@ -0,0 +1,139 @@
+/**
+ * Minimal ZIP Reader
+ * Reads stored and deflated entries from a GTFS zip using Node's zlib,
+ * so ingestion doesn't depend on external unzip tools
+ */
+
+import { readFileSync } from 'node:fs';
+import { inflateRawSync } from 'node:zlib';
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+/** Compression methods we support */
+const METHOD_STORED = 0;
+const METHOD_DEFLATE = 8;
+
+/** Entry in the zip's central directory */
+interface ZipEntry {
+    name: string;
+    method: number;
+    compressedSize: number;
+    localHeaderOffset: number;
+}
+
+/** Error raised for unreadable or unsupported zip files */
+class ZipError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ZipError';
+    }
+}
+
+/**
+ * Locate the end of central directory record (scanning back over any comment)
+ */
+function findEndOfCentralDirectory(buffer: Buffer): number {
+    const minOffset = Math.max(0, buffer.length - 22 - 0xffff);
+    for (let offset = buffer.length - 22; offset >= minOffset; offset--) {
+        if (buffer.readUInt32LE(offset) === END_OF_CENTRAL_DIRECTORY) {
+            return offset;
+        }
+    }
+    throw new ZipError('Not a zip file (end of central directory not found)');
+}
+
+/**
+ * Parse central directory entries
+ */
+function readEntries(buffer: Buffer): ZipEntry[] {
+    const eocd = findEndOfCentralDirectory(buffer);
+    const entryCount = buffer.readUInt16LE(eocd + 10);
+    let offset = buffer.readUInt32LE(eocd + 16);
+
+    if (offset === 0xffffffff) {
+        throw new ZipError('ZIP64 archives are not supported');
+    }
+
+    const entries: ZipEntry[] = [];
+    for (let i = 0; i < entryCount; i++) {
+        if (buffer.readUInt32LE(offset) !== CENTRAL_DIRECTORY_HEADER) {
+            throw new ZipError(`Corrupt central directory at entry ${i}`);
+        }
+
+        const nameLength = buffer.readUInt16LE(offset + 28);
+        const extraLength = buffer.readUInt16LE(offset + 30);
+        const commentLength = buffer.readUInt16LE(offset + 32);
+
+        entries.push({
+            method: buffer.readUInt16LE(offset + 10),
+            compressedSize: buffer.readUInt32LE(offset + 20),
+            localHeaderOffset: buffer.readUInt32LE(offset + 42),
+            name: buffer.toString('utf8', offset + 46, offset + 46 + nameLength),
+        });
+
+        offset += 46 + nameLength + extraLength + commentLength;
+    }
+
+    return entries;
+}
+
+/**
+ * Read and decompress a single entry
+ */
+function readEntryData(buffer: Buffer, entry: ZipEntry): Buffer {
+    const offset = entry.localHeaderOffset;
+    if (buffer.readUInt32LE(offset) !== LOCAL_FILE_HEADER) {
+        throw new ZipError(`Corrupt local header for ${entry.name}`);
+    }
+
+    const nameLength = buffer.readUInt16LE(offset + 26);
+    const extraLength = buffer.readUInt16LE(offset + 28);
+    const start = offset + 30 + nameLength + extraLength;
+    const data = buffer.subarray(start, start + entry.compressedSize);
+
+    switch (entry.method) {
+        case METHOD_STORED:
+            return data;
+        case METHOD_DEFLATE:
+            return inflateRawSync(data);
+        default:
+            throw new ZipError(`Unsupported compression method ${entry.method} (${entry.name})`);
+    }
+}
+
+/** Read-only view over a zip archive */
+export interface ZipArchive {
+    /** File names in the archive (directories excluded) */
+    names: string[];
+    /**
+     * Read a text file by name, matching on the base name so feeds
+     * packaged inside a folder still work
+     * @returns File contents, or null if the archive has no such file
+     */
+    readText(name: string): string | null;
+}
+
+/**
+ * Open a zip archive from a buffer
+ */
+function openZip(buffer: Buffer): ZipArchive {
+    const entries = readEntries(buffer).filter(entry => !entry.name.endsWith('/'));
+
+    return {
+        names: entries.map(entry => entry.name),
+        readText(name: string): string | null {
+            const entry = entries.find(e => e.name === name || e.name.endsWith(`/${name}`));
+            if (!entry) return null;
+            return readEntryData(buffer, entry).toString('utf8');
+        },
+    };
+}
+
+/**
+ * Open a zip archive from disk
+ */
+export function openZipFile(path: string): ZipArchive {
+    return openZip(readFileSync(path));
+}
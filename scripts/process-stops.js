@@ -2,9 +2,12 @@
 /**
  * Process NAPTAN CSV to extract Chelmsford bus stops
  * Run with: node scripts/process-stops.js
+ *
+ * Stop areas come from the NaPTAN StopsInArea and StopAreas CSVs, saved
+ * alongside as essex-stops-in-area.csv and essex-stop-areas.csv
  */
 
-import { readFileSync, writeFileSync } from 'fs';
+import { existsSync, readFileSync, writeFileSync } from 'fs';
 import { fileURLToPath } from 'url';
 import { dirname, join } from 'path';
 
@@ -32,6 +35,23 @@ const COLS = {
     StopType: 31,
 };
 
+// StopsInArea.csv and StopAreas.csv column indices
+const AREA_MEMBER_COLS = {
+    StopAreaCode: 0,
+    AtcoCode: 1,
+};
+const AREA_COLS = {
+    StopAreaCode: 0,
+    Name: 1,
+};
+
+// NaPTAN stop types to keep: on-street stops, and bus/coach station bays
+const STOP_TYPES = {
+    BCT: 'on-street',
+    BCS: 'bus-station',
+    BCQ: 'bus-station',
+};
+
 function parseCsvLine(line) {
     const result = [];
     let current = '';
@@ -56,6 +76,36 @@ function isInBounds(lat, lng) {
     return lat >= BOUNDS.south && lat <= BOUNDS.north && lng >= BOUNDS.west && lng <= BOUNDS.east;
 }
 
+/**
+ * Read data rows from an optional CSV, skipping the header
+ */
+function readCsvRows(fileName) {
+    const path = join(rootDir, fileName);
+    if (!existsSync(path)) {
+        console.log(`${fileName} not found - stops will have no stop areas`);
+        return [];
+    }
+    return readFileSync(path, 'utf-8')
+        .split('\n')
+        .slice(1)
+        .map(line => line.trim())
+        .filter(Boolean)
+        .map(parseCsvLine);
+}
+
+// Stop area names by code, and each stop's area (the first listed, if several)
+const areaNames = new Map(
+    readCsvRows('essex-stop-areas.csv').map(fields => [
+        fields[AREA_COLS.StopAreaCode],
+        fields[AREA_COLS.Name],
+    ])
+);
+const stopAreas = new Map();
+for (const fields of readCsvRows('essex-stops-in-area.csv')) {
+    const atcoCode = fields[AREA_MEMBER_COLS.AtcoCode];
+    if (!stopAreas.has(atcoCode)) stopAreas.set(atcoCode, fields[AREA_MEMBER_COLS.StopAreaCode]);
+}
+
 // Read CSV
 const csvPath = join(rootDir, 'essex-stops.csv');
 const csvContent = readFileSync(csvPath, 'utf-8');
@@ -72,9 +122,9 @@ for (let i = 1; i < lines.length; i++) {
 
     const fields = parseCsvLine(line);
 
-    // Filter to BCT stop type (bus/coach/tram)
-    const stopType = fields[COLS.StopType];
-    if (stopType !== 'BCT') continue;
+    // Filter to on-street and bus station stop types
+    const stopType = STOP_TYPES[fields[COLS.StopType]];
+    if (!stopType) continue;
 
     const lat = parseFloat(fields[COLS.Latitude]);
     const lng = parseFloat(fields[COLS.Longitude]);
@@ -85,8 +135,11 @@ for (let i = 1; i < lines.length; i++) {
     // Filter to Chelmsford bounding box
     if (!isInBounds(lat, lng)) continue;
 
+    const atcoCode = fields[COLS.ATCOCode];
+    const stopAreaCode = stopAreas.get(atcoCode);
+
     stops.push({
-        atcoCode: fields[COLS.ATCOCode],
+        atcoCode,
         commonName: fields[COLS.CommonName] || 'Unknown Stop',
         indicator: fields[COLS.Indicator] || undefined,
         bearing: fields[COLS.Bearing] || undefined,
@@ -96,6 +149,9 @@ for (let i = 1; i < lines.length; i++) {
         },
         street: fields[COLS.Street] || undefined,
         locality: fields[COLS.LocalityName] || undefined,
+        stopAreaCode,
+        stopAreaName: stopAreaCode ? areaNames.get(stopAreaCode) : undefined,
+        stopType,
     });
 }
 
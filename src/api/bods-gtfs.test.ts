@@ -0,0 +1,186 @@
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest';
+import { getScheduledDepartures, isGTFSDataAvailable } from './bods-gtfs';
+import { setConfig, resetConfig } from '@config/index';
+import type { GTFSCalendar, GTFSStopTime } from '@/types';
+
+const STOP_ID = '150033038003';
+
+/** Every-day calendar for 2025 */
+const DAILY: GTFSCalendar = {
+    serviceId: 'DAILY',
+    monday: true,
+    tuesday: true,
+    wednesday: true,
+    thursday: true,
+    friday: true,
+    saturday: true,
+    sunday: true,
+    startDate: '20250101',
+    endDate: '20251231',
+};
+
+function stopTime(tripId: string, departureTime: string): GTFSStopTime {
+    return { tripId, arrivalTime: departureTime, departureTime, stopId: STOP_ID, stopSequence: 5 };
+}
+
+const GTFS_DATA = {
+    stopTimes: {
+        [STOP_ID]: [
+            stopTime('early', '06:10:00'),
+            stopTime('evening', '22:30:00'),
+            stopTime('late', '24:20:00'),
+        ],
+    },
+    tripCalls: {},
+    trips: {
+        early: { tripId: 'early', routeId: 'R42', serviceId: 'DAILY', tripHeadsign: 'Broomfield' },
+        evening: {
+            tripId: 'evening',
+            routeId: 'R42',
+            serviceId: 'DAILY',
+            tripHeadsign: 'Broomfield',
+        },
+        late: { tripId: 'late', routeId: 'R42', serviceId: 'DAILY', tripHeadsign: 'Broomfield' },
+    },
+    routes: {
+        R42: { routeId: 'R42', routeShortName: '42', operatorName: 'First Essex' },
+    },
+    calendar: { DAILY },
+    calendarDates: {},
+    lastUpdated: '2025-06-01T00:00:00.000Z',
+};
+
+const MANIFEST = {
+    version: '2025-06-01T00:00:00.000Z',
+    lastUpdated: '2025-06-01T00:00:00.000Z',
+    stops: { [STOP_ID]: `stops/${STOP_ID}.json` },
+    lines: {},
+};
+
+const fetchMock = vi.fn((url: string) => {
+    const body = url === '/gtfs/index.json' ? MANIFEST : GTFS_DATA;
+    return Promise.resolve({ ok: true, json: () => Promise.resolve(body) });
+});
+
+describe('bods-gtfs', () => {
+    beforeAll(() => {
+        setConfig({
+            debug: false,
+            geolocation: {
+                timeout: 10000,
+                enableHighAccuracy: true,
+                maximumAge: 60000,
+                geocodingApiUrl: 'https://api.postcodes.io',
+            },
+            busStops: {
+                naptanApiUrl: 'https://naptan.api.dft.gov.uk/v1',
+                stopsCacheTtl: 604800000,
+                departuresCacheTtl: 60000,
+                timetableCacheTtl: 86400000,
+                disruptionsCacheTtl: 300000,
+                maxSearchRadius: 1000,
+                maxExpandedRadius: 3000,
+                radiusIncrement: 500,
+                vehicleSearchRadius: 2000,
+                trackingRefreshInterval: 15000,
+                chelmsfordBounds: {
+                    north: 51.82,
+                    south: 51.68,
+                    east: 0.55,
+                    west: 0.4,
+                },
+                chelmsfordCenter: {
+                    latitude: 51.7361,
+                    longitude: 0.469,
+                },
+                maxDistanceFromCenter: 10000,
+                nearbyPriorityRadius: 150,
+                departureProviders: [],
+            },
+            trainStations: {
+                railDataApiUrl:
+                    'https://api1.raildata.org.uk/1010-live-arrival-and-departure-boards-arr-and-dep1_1/LDBWS/api/20220120',
+                departuresCacheTtl: 60000,
+                maxDeparturesPerStation: 5,
+                serviceRefreshInterval: 30000,
+                stations: [],
+                maxSearchRadius: 5000,
+                maxExpandedRadius: 20000,
+                radiusIncrement: 5000,
+            },
+            journeyPlanner: {
+                walkingSpeed: 1.3,
+                maxAccessWalk: 800,
+                maxTransferWalk: 400,
+                maxAccessStops: 8,
+                minTransferTime: 60000,
+                minRailConnectionTime: 300000,
+                maxTransfers: 3,
+                maxResults: 3,
+            },
+            alerts: {
+                leadMinutes: 5,
+                refreshInterval: 60000,
+            },
+        });
+
+        vi.stubGlobal('fetch', fetchMock);
+    });
+
+    afterAll(() => {
+        vi.unstubAllGlobals();
+        resetConfig();
+    });
+
+    describe('getScheduledDepartures', () => {
+        it('should return the evening and after-midnight trips in order', async () => {
+            const departures = await getScheduledDepartures(STOP_ID, 2, new Date(2025, 5, 11, 21));
+
+            expect(departures.map(d => d.tripId)).toEqual(['evening', 'late']);
+            expect(departures[1].scheduledAt).toEqual(new Date(2025, 5, 12, 0, 20));
+            expect(departures[1].serviceDate).toBe('20250611');
+        });
+
+        it("should include yesterday's after-midnight trips just after midnight", async () => {
+            const departures = await getScheduledDepartures(
+                STOP_ID,
+                1,
+                new Date(2025, 5, 12, 0, 5)
+            );
+
+            expect(departures[0].tripId).toBe('late');
+            expect(departures[0].serviceDate).toBe('20250611');
+        });
+
+        it("should look ahead to tomorrow's first departures late at night", async () => {
+            const departures = await getScheduledDepartures(STOP_ID, 2, new Date(2025, 5, 11, 23));
+
+            expect(departures.map(d => d.tripId)).toEqual(['late', 'early']);
+            expect(departures[1].scheduledAt).toEqual(new Date(2025, 5, 12, 6, 10));
+            expect(departures[1].serviceDate).toBe('20250612');
+        });
+
+        it('should fetch the manifest and each shard only once', () => {
+            expect(fetchMock.mock.calls.map(([url]) => url)).toEqual([
+                '/gtfs/index.json',
+                `/gtfs/stops/${STOP_ID}.json`,
+            ]);
+        });
+
+        it('should return nothing for stops missing from the manifest', async () => {
+            const departures = await getScheduledDepartures('1500UNKNOWN', 5);
+
+            expect(departures).toEqual([]);
+            expect(fetchMock).toHaveBeenCalledTimes(2);
+        });
+    });
+
+    describe('isGTFSDataAvailable', () => {
+        it('should check the manifest without extra requests', async () => {
+            expect(await isGTFSDataAvailable(STOP_ID)).toBe(true);
+            expect(await isGTFSDataAvailable('1500UNKNOWN')).toBe(false);
+            expect(await isGTFSDataAvailable('constructor')).toBe(false);
+            expect(fetchMock).toHaveBeenCalledTimes(2);
+        });
+    });
+});
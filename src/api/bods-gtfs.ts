@@ -2,146 +2,346 @@
  * BODS GTFS Client
  * Loads and queries pre-processed GTFS timetable data
  *
- * GTFS data is pre-processed at build time into a JSON file
- * containing only Chelmsford-area stops and services.
+ * GTFS data is pre-processed at build time into one JSON shard per stop,
+ * listed in /gtfs/index.json. Shards are fetched only for stops being
+ * displayed and persisted in IndexedDB until the timetable is rebuilt.
  */
 
 import { Logger } from '@utils/logger';
-import { retryWithBackoff } from '@utils/helpers';
-import { formatTimeHHMMSS } from '@utils/time';
+import { resilientFetch } from '@utils/helpers';
+import { addDays, getServiceTimeOffset, parseServiceTime, serviceTimeToDate } from '@utils/time';
 import { getConfig } from '@config/index';
-import type { GTFSStopTime, GTFSTrip, GTFSRoute } from '@/types';
-
-/** Pre-processed GTFS data structure */
-interface GTFSData {
-    stopTimes: Record<string, GTFSStopTime[]>; // Indexed by stopId
-    trips: Record<string, GTFSTrip>; // Indexed by tripId
-    routes: Record<string, GTFSRoute>; // Indexed by routeId
-    lastUpdated: string;
-}
+import { BusStopCache } from '@core/bus-stops/cache';
+import { formatServiceDate, isServiceActive } from './gtfs-calendar';
+import type {
+    GTFSData,
+    GTFSLine,
+    GTFSManifest,
+    GTFSNetwork,
+    GTFSStopTime,
+    GTFSTripCall,
+} from '@/types';
 
-let cachedGTFSData: GTFSData | null = null;
-let cacheTimestamp = 0;
+const GTFS_BASE_URL = '/gtfs';
 
-/**
- * Load GTFS data from the pre-processed JSON file
- */
-async function loadGTFSData(): Promise<GTFSData> {
-    const config = getConfig();
-    const cacheTtl = config.busStops.timetableCacheTtl;
+let cachedManifest: GTFSManifest | null = null;
+let manifestTimestamp = 0;
+let manifestRequest: Promise<GTFSManifest | null> | null = null;
 
-    // Return cached data if still valid
-    if (cachedGTFSData && Date.now() - cacheTimestamp < cacheTtl) {
-        return cachedGTFSData;
-    }
+/** Shards loaded this session, indexed by stopId */
+const loadedShards = new Map<string, { version: string; shard: GTFSData }>();
+
+/** Line patterns loaded this session, indexed by line */
+const loadedLines = new Map<string, { version: string; line: GTFSLine }>();
 
-    Logger.debug('Loading GTFS timetable data');
+/** Journey planning timetable loaded this session */
+let loadedNetwork: { version: string; network: GTFSNetwork } | null = null;
 
-    const response = await retryWithBackoff(
+/**
+ * Fetch a JSON file from the GTFS directory
+ * Static files aren't throttled, but repeated failures open the BODS GTFS circuit
+ */
+async function fetchGTFSFile<T>(path: string): Promise<T> {
+    return resilientFetch<T>(
+        'bods-gtfs',
+        path,
         async () => {
-            const res = await fetch('/gtfs-chelmsford.json');
+            const res = await fetch(`${GTFS_BASE_URL}/${path}`);
             if (!res.ok) {
-                throw new Error(`Failed to load GTFS data: ${res.status}`);
+                throw new Error(`Failed to load GTFS ${path}: ${res.status}`);
             }
-            return res.json() as Promise<GTFSData>;
+            return res.json() as Promise<T>;
         },
-        2,
-        1000
+        { retry: { maxAttempts: 2, initialDelay: 1000 }, skipThrottle: true }
     );
+}
 
-    cachedGTFSData = response;
-    cacheTimestamp = Date.now();
+/**
+ * Load the shard manifest
+ * Concurrent callers share one request
+ * @returns Manifest, or null if it can't be fetched (e.g. offline)
+ */
+async function loadManifest(): Promise<GTFSManifest | null> {
+    const cacheTtl = getConfig().busStops.timetableCacheTtl;
 
-    Logger.debug('GTFS data loaded', {
-        stops: Object.keys(response.stopTimes).length,
-        trips: Object.keys(response.trips).length,
-        routes: Object.keys(response.routes).length,
-        lastUpdated: response.lastUpdated,
-    });
+    // Return cached manifest if still valid
+    if (cachedManifest && Date.now() - manifestTimestamp < cacheTtl) {
+        return cachedManifest;
+    }
 
-    return response;
+    manifestRequest ??= fetchGTFSFile<GTFSManifest>('index.json')
+        .then(manifest => {
+            cachedManifest = manifest;
+            manifestTimestamp = Date.now();
+            Logger.debug('GTFS manifest loaded', {
+                stops: Object.keys(manifest.stops).length,
+                version: manifest.version,
+            });
+            return manifest;
+        })
+        .catch((error: unknown) => {
+            Logger.warn('Failed to load GTFS manifest', error);
+            // Keep using an expired manifest rather than nothing
+            return cachedManifest;
+        })
+        .finally(() => {
+            manifestRequest = null;
+        });
+
+    return manifestRequest;
 }
 
 /**
- * Get scheduled departures for a specific stop
- * @param stopId - NAPTAN ATCO code for the stop
- * @param limit - Maximum number of departures to return
- * @returns Scheduled departures sorted by time
+ * Load the timetable shard for a stop
+ * Checks memory, then IndexedDB, then the network. Cached shards are reused
+ * while their version matches the manifest, or whenever the manifest is unavailable.
+ * @returns Shard, or null if the stop has no timetable data
  */
-export async function getScheduledDepartures(
-    stopId: string,
-    limit = 10
-): Promise<ScheduledDeparture[]> {
-    const gtfs = await loadGTFSData();
-    const stopTimes = gtfs.stopTimes[stopId] || [];
+async function loadStopShard(stopId: string): Promise<GTFSData | null> {
+    const manifest = await loadManifest();
+    const version = manifest?.version;
 
-    if (stopTimes.length === 0) {
-        Logger.debug(`No GTFS data for stop ${stopId}`);
-        return [];
+    const loaded = loadedShards.get(stopId);
+    if (loaded && (!version || loaded.version === version)) {
+        return loaded.shard;
+    }
+
+    const cached = await BusStopCache.getTimetableShard(stopId);
+    if (cached && (!version || cached.version === version)) {
+        loadedShards.set(stopId, { version: cached.version, shard: cached.shard });
+        return cached.shard;
+    }
+
+    const shardPath = manifest?.stops[stopId];
+    if (!manifest || !shardPath) {
+        return null;
     }
 
-    const now = new Date();
-    const currentTime = formatTimeHHMMSS(now);
-    // Note: currentDay would be used with calendar.txt for full GTFS accuracy
-    // const currentDay = getDayOfWeek(now);
+    Logger.debug('Loading GTFS shard', { stopId, version: manifest.version });
+    const shard = await fetchGTFSFile<GTFSData>(shardPath);
+
+    loadedShards.set(stopId, { version: manifest.version, shard });
+    await BusStopCache.setTimetableShard(stopId, manifest.version, shard);
+
+    return shard;
+}
+
+/**
+ * Collect upcoming departures at a stop for a single service day
+ * @param gtfs - Loaded GTFS data
+ * @param stopTimes - Stop times for the stop
+ * @param serviceDay - Any time on the service date to evaluate
+ * @param now - Departures before this time are skipped
+ */
+function getServiceDayDepartures(
+    gtfs: GTFSData,
+    stopTimes: GTFSStopTime[],
+    serviceDay: Date,
+    now: Date
+): ScheduledDeparture[] {
+    const serviceDate = formatServiceDate(serviceDay);
+    const nowOffset = getServiceTimeOffset(serviceDay, now);
+
+    // Memoize service lookups - many trips share a service_id
+    const activeServices = new Map<string, boolean>();
+    const runsOnServiceDay = (serviceId: string): boolean => {
+        let active = activeServices.get(serviceId);
+        if (active === undefined) {
+            active = isServiceActive(gtfs, serviceId, serviceDay);
+            activeServices.set(serviceId, active);
+        }
+        return active;
+    };
 
-    // Filter to upcoming departures and enrich with route info
     const departures: ScheduledDeparture[] = [];
 
     for (const stopTime of stopTimes) {
-        // Skip if departure time has passed
-        if (stopTime.departureTime < currentTime) continue;
+        // Skip if departure time has passed (offsets may exceed 24h)
+        const offset = parseServiceTime(stopTime.departureTime);
+        if (isNaN(offset) || offset < nowOffset) continue;
 
         const trip = gtfs.trips[stopTime.tripId];
         if (!trip) continue;
 
-        // Check if service runs today (simplified - would need calendar.txt for full accuracy)
+        // Skip trips whose service doesn't run on this service day
+        if (!runsOnServiceDay(trip.serviceId)) continue;
+
         const route = gtfs.routes[trip.routeId];
         if (!route) continue;
 
         departures.push({
             tripId: stopTime.tripId,
             departureTime: stopTime.departureTime,
+            scheduledAt: serviceTimeToDate(serviceDay, stopTime.departureTime),
+            serviceDate,
             line: route.routeShortName,
             destination: trip.tripHeadsign || route.routeLongName || 'Unknown',
             operatorName: route.operatorName,
+            operatorCode: route.operatorCode,
             stopSequence: stopTime.stopSequence,
             serviceId: trip.serviceId,
+            directionId: trip.directionId,
+            blockId: trip.blockId,
+            vehicleJourneyCode: trip.vehicleJourneyCode,
+            originStopId: trip.originStopId,
+            destinationStopId: trip.destinationStopId,
+            tripCalls: gtfs.tripCalls?.[stopTime.tripId],
         });
+    }
+
+    return departures;
+}
+
+/**
+ * Sort departures by absolute departure time
+ */
+function sortByScheduledTime(departures: ScheduledDeparture[]): ScheduledDeparture[] {
+    return departures.sort((a, b) => a.scheduledAt.getTime() - b.scheduledAt.getTime());
+}
 
-        if (departures.length >= limit * 2) break; // Get extra for filtering
+/**
+ * Get scheduled departures for a specific stop
+ * Includes after-midnight trips from yesterday's service day, and looks ahead
+ * to tomorrow's first departures when tonight's service has run out
+ * @param stopId - NAPTAN ATCO code for the stop
+ * @param limit - Maximum number of departures to return
+ * @param date - Date and time to query from (default: now)
+ * @returns Scheduled departures sorted by time
+ */
+export async function getScheduledDepartures(
+    stopId: string,
+    limit = 10,
+    date = new Date()
+): Promise<ScheduledDeparture[]> {
+    const gtfs = await loadStopShard(stopId);
+    const stopTimes = gtfs?.stopTimes[stopId] ?? [];
+
+    if (!gtfs || stopTimes.length === 0) {
+        Logger.debug(`No GTFS data for stop ${stopId}`);
+        return [];
+    }
+
+    // Yesterday's service day still has trips running after midnight (e.g. "24:15:00")
+    const departures = sortByScheduledTime([
+        ...getServiceDayDepartures(gtfs, stopTimes, addDays(date, -1), date),
+        ...getServiceDayDepartures(gtfs, stopTimes, date, date),
+    ]).slice(0, limit);
+
+    // Nothing (or not enough) left tonight - look ahead to tomorrow's first buses
+    if (departures.length < limit) {
+        const tomorrow = getServiceDayDepartures(gtfs, stopTimes, addDays(date, 1), date);
+        Logger.debug('Looking ahead to next service day', {
+            stopId,
+            remainingToday: departures.length,
+            tomorrow: tomorrow.length,
+        });
+        departures.push(...sortByScheduledTime(tomorrow).slice(0, limit - departures.length));
     }
 
-    // Sort by departure time and limit
-    return departures
-        .sort((a, b) => a.departureTime.localeCompare(b.departureTime))
-        .slice(0, limit);
+    return departures;
 }
 
 /** Scheduled departure from GTFS timetable */
 export interface ScheduledDeparture {
     tripId: string;
-    departureTime: string; // HH:MM:SS format
+    departureTime: string; // HH:MM:SS format, may exceed 24:00:00
+    /** Absolute departure time resolved against the service date */
+    scheduledAt: Date;
+    serviceDate: string; // YYYYMMDD
     line: string;
     destination: string;
     operatorName?: string;
+    operatorCode?: string;
     stopSequence: number;
     serviceId: string;
+    /** Trip identifiers used to match live vehicles (see vehicle-matcher) */
+    directionId?: number;
+    blockId?: string;
+    vehicleJourneyCode?: string;
+    originStopId?: string;
+    destinationStopId?: string;
+    /** Trip's calls up to this stop, for route-based ETAs (see route-eta) */
+    tripCalls?: GTFSTripCall[];
 }
 
-// getDayOfWeek would be used with calendar.txt for full GTFS service day accuracy
-// function getDayOfWeek(date: Date): number {
-//     return date.getDay();
-// }
+/**
+ * Check if GTFS timetable data exists for a stop
+ * Uses the cached manifest, so no request is made per call
+ */
+export async function isGTFSDataAvailable(stopId: string): Promise<boolean> {
+    const manifest = await loadManifest();
+    if (manifest) {
+        return Object.hasOwn(manifest.stops, stopId);
+    }
+    // Offline without a manifest - a previously cached shard is still usable
+    return loadedShards.has(stopId) || (await BusStopCache.getTimetableShard(stopId)) !== null;
+}
 
 /**
- * Check if GTFS data is available
+ * Get a trip's calls up to and including a stop, in stop sequence order
+ * @param stopId - NAPTAN ATCO code of the stop whose shard holds the trip
+ * @param tripId - GTFS trip ID
  */
-export async function isGTFSDataAvailable(): Promise<boolean> {
-    try {
-        const res = await fetch('/gtfs-chelmsford.json', { method: 'HEAD' });
-        return res.ok;
-    } catch {
-        return false;
+export async function getTripCalls(stopId: string, tripId: string): Promise<GTFSTripCall[]> {
+    const gtfs = await loadStopShard(stopId);
+    return gtfs?.tripCalls?.[tripId] ?? [];
+}
+
+/**
+ * Load a line's stop patterns
+ * Kept in memory until the manifest version changes
+ * @param line - Line name as shown on departures (e.g. "42")
+ * @returns Line patterns, or null if the line isn't in the timetable
+ */
+export async function loadLinePattern(line: string): Promise<GTFSLine | null> {
+    const manifest = await loadManifest();
+    const version = manifest?.version;
+
+    const loaded = loadedLines.get(line);
+    if (loaded && (!version || loaded.version === version)) {
+        return loaded.line;
+    }
+
+    const path = manifest?.lines?.[line];
+    if (!manifest || !path) {
+        return null;
+    }
+
+    Logger.debug('Loading GTFS line pattern', { line, version: manifest.version });
+    const pattern = await fetchGTFSFile<GTFSLine>(path);
+    loadedLines.set(line, { version: manifest.version, line: pattern });
+    return pattern;
+}
+
+/**
+ * Load the journey planning timetable
+ * Checks memory, then IndexedDB, then the network, so journeys can still be
+ * planned offline once it has been downloaded
+ * @returns Timetable, or null if it isn't available
+ */
+export async function loadTimetableNetwork(): Promise<GTFSNetwork | null> {
+    const manifest = await loadManifest();
+    const version = manifest?.version;
+
+    if (loadedNetwork && (!version || loadedNetwork.version === version)) {
+        return loadedNetwork.network;
+    }
+
+    const cached = await BusStopCache.getTimetableNetwork();
+    if (cached && (!version || cached.version === version)) {
+        loadedNetwork = { version: cached.version, network: cached.network };
+        return cached.network;
     }
+
+    if (!manifest?.network) {
+        return null;
+    }
+
+    Logger.debug('Loading journey planning timetable', { version: manifest.version });
+    const network = await fetchGTFSFile<GTFSNetwork>(manifest.network);
+
+    loadedNetwork = { version: manifest.version, network };
+    await BusStopCache.setTimetableNetwork(manifest.version, network);
+
+    return network;
 }
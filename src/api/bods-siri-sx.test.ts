@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import { parseSiriSxResponse } from './bods-siri-sx';
+import { BusStopError } from '@core/bus-stops/errors';
+
+function situation(number: string, body: string): string {
+    return `
+        <PtSituationElement>
+            <SituationNumber>${number}</SituationNumber>
+            ${body}
+        </PtSituationElement>
+    `;
+}
+
+const DIVERSION = situation(
+    'SX-1',
+    `
+    <Progress>open</Progress>
+    <ValidityPeriod>
+        <StartTime>2025-06-09T06:00:00Z</StartTime>
+        <EndTime>2025-06-13T18:00:00Z</EndTime>
+    </ValidityPeriod>
+    <MiscellaneousReason>roadworks</MiscellaneousReason>
+    <Summary>Springfield Road closed &amp; buses diverted</Summary>
+    <Description>Buses are diverted via Arun Close.</Description>
+    <Consequences>
+        <Consequence>
+            <Severity>severe</Severity>
+            <Affects>
+                <Networks>
+                    <AffectedNetwork>
+                        <AffectedLine>
+                            <AffectedOperator><OperatorRef>FESX</OperatorRef></AffectedOperator>
+                            <LineRef>FESX:42</LineRef>
+                            <PublishedLineName>42</PublishedLineName>
+                        </AffectedLine>
+                        <AffectedLine>
+                            <LineRef>45</LineRef>
+                        </AffectedLine>
+                    </AffectedNetwork>
+                </Networks>
+                <StopPoints>
+                    <AffectedStopPoint><StopPointRef>150033038003</StopPointRef></AffectedStopPoint>
+                    <AffectedStopPoint><StopPointRef>150033038004</StopPointRef></AffectedStopPoint>
+                </StopPoints>
+            </Affects>
+            <Advice><Details>Use the stop on Arun Close.</Details></Advice>
+        </Consequence>
+    </Consequences>
+    `
+);
+
+function siri(situations: string): string {
+    return `<?xml version="1.0" encoding="UTF-8"?>
+        <Siri xmlns="http://www.siri.org.uk/siri" version="2.0">
+            <ServiceDelivery>
+                <SituationExchangeDelivery>
+                    <Situations>${situations}</Situations>
+                </SituationExchangeDelivery>
+            </ServiceDelivery>
+        </Siri>`;
+}
+
+describe('bods-siri-sx', () => {
+    it('should read the affected lines, operators and stops of each situation', () => {
+        expect(parseSiriSxResponse(siri(DIVERSION))).toEqual([
+            {
+                id: 'SX-1',
+                summary: 'Springfield Road closed & buses diverted',
+                description: 'Buses are diverted via Arun Close.',
+                advice: 'Use the stop on Arun Close.',
+                severity: 'severe',
+                reason: 'roadworks',
+                validFrom: new Date('2025-06-09T06:00:00Z'),
+                validTo: new Date('2025-06-13T18:00:00Z'),
+                lines: ['42', '45'],
+                operators: ['FESX'],
+                stops: ['150033038003', '150033038004'],
+            },
+        ]);
+    });
+
+    it('should skip closed situations and ones without a summary', () => {
+        const closed = situation('SX-2', '<Progress>closed</Progress><Summary>Over</Summary>');
+        const blank = situation('SX-3', '<Progress>open</Progress>');
+
+        expect(parseSiriSxResponse(siri(closed + blank + DIVERSION)).map(d => d.id)).toEqual([
+            'SX-1',
+        ]);
+    });
+
+    it('should reject malformed XML', () => {
+        expect(() => parseSiriSxResponse('<Siri><unclosed></Siri>')).toThrow(BusStopError);
+    });
+});
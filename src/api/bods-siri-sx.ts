@@ -0,0 +1,167 @@
+/**
+ * BODS SIRI-SX Client
+ * Fetches bus disruptions (diversions, stop closures) from Bus Open Data Service
+ */
+
+import { Logger } from '@utils/logger';
+import { resilientFetch, CircuitOpenError } from '@utils/helpers';
+import { getConfig } from '@config/index';
+import { BusStopError } from '@core/bus-stops/errors';
+import { BusStopErrorCode } from '@/types';
+import type { Disruption } from '@/types';
+
+/** Last fetched disruptions, reused for disruptionsCacheTtl */
+let cachedDisruptions: { disruptions: Disruption[]; fetchedAt: number } | null = null;
+
+/**
+ * Get the trimmed text of the first matching element, if it has any
+ */
+function textOf(parent: Element, selector: string): string | undefined {
+    return parent.querySelector(selector)?.textContent?.trim() || undefined;
+}
+
+/**
+ * Get the distinct texts of every matching element
+ */
+function textsOf(
+    parents: Iterable<Element>,
+    selector: (element: Element) => string | undefined
+): string[] {
+    const texts = new Set<string>();
+    for (const parent of parents) {
+        const text = selector(parent);
+        if (text) texts.add(text);
+    }
+    return [...texts];
+}
+
+/**
+ * Parse an ISO timestamp, ignoring missing or invalid ones
+ */
+function parseDate(text: string | undefined): Date | undefined {
+    if (!text) return undefined;
+    const date = new Date(text);
+    return Number.isNaN(date.getTime()) ? undefined : date;
+}
+
+/**
+ * Parse one situation, or null if it's closed or has no summary to show
+ */
+function parseSituation(situation: Element): Disruption | null {
+    const id = textOf(situation, 'SituationNumber');
+    const summary = textOf(situation, 'Summary');
+    if (!id || !summary || textOf(situation, 'Progress') === 'closed') return null;
+
+    const validity = situation.querySelector('ValidityPeriod');
+    const affectedLines = situation.querySelectorAll('AffectedLine');
+
+    return {
+        id,
+        summary,
+        description: textOf(situation, 'Description'),
+        advice: textOf(situation, 'Advice Details'),
+        severity: textOf(situation, 'Severity'),
+        reason: textOf(
+            situation,
+            'MiscellaneousReason, PersonnelReason, EquipmentReason, EnvironmentReason'
+        ),
+        validFrom: validity ? parseDate(textOf(validity, 'StartTime')) : undefined,
+        validTo: validity ? parseDate(textOf(validity, 'EndTime')) : undefined,
+        lines: textsOf(
+            affectedLines,
+            line => textOf(line, 'PublishedLineName') ?? textOf(line, 'LineRef')
+        ),
+        operators: textsOf(situation.querySelectorAll('AffectedOperator'), operator =>
+            textOf(operator, 'OperatorRef')
+        ),
+        stops: textsOf(situation.querySelectorAll('AffectedStopPoint'), stop =>
+            textOf(stop, 'StopPointRef')
+        ),
+    };
+}
+
+/**
+ * Parse SIRI-SX XML response to extract open situations
+ */
+export function parseSiriSxResponse(xmlText: string): Disruption[] {
+    const parser = new DOMParser();
+    const doc = parser.parseFromString(xmlText, 'text/xml');
+
+    const parseError = doc.querySelector('parsererror');
+    if (parseError) {
+        throw new BusStopError('Failed to parse SIRI-SX XML', BusStopErrorCode.XML_PARSE_ERROR);
+    }
+
+    const disruptions: Disruption[] = [];
+    for (const situation of doc.querySelectorAll('PtSituationElement')) {
+        const disruption = parseSituation(situation);
+        if (disruption) disruptions.push(disruption);
+    }
+    return disruptions;
+}
+
+/**
+ * Fetch disruptions in effect now from BODS SIRI-SX
+ * The feed covers the whole country, so results are reused for
+ * busStops.disruptionsCacheTtl and matched to stops by the caller.
+ */
+export async function fetchDisruptions(): Promise<Disruption[]> {
+    const config = getConfig();
+    const { bodsApiKey, disruptionsCacheTtl } = config.busStops;
+
+    if (cachedDisruptions && Date.now() - cachedDisruptions.fetchedAt < disruptionsCacheTtl) {
+        return cachedDisruptions.disruptions;
+    }
+
+    if (!bodsApiKey) {
+        throw new BusStopError('BODS API key not configured', BusStopErrorCode.API_KEY_MISSING);
+    }
+
+    // Uses /api/bods proxy to avoid CORS errors (proxied via Netlify/Vite)
+    const url = `/api/bods/siri-sx/?api_key=${bodsApiKey}`;
+    Logger.info('Fetching SIRI-SX disruptions');
+
+    try {
+        const response = await resilientFetch<string>(
+            'bods-siri-sx',
+            'situations',
+            async () => {
+                const res = await fetch(url);
+
+                if (res.status === 429) {
+                    throw new BusStopError(
+                        'Rate limited by BODS API',
+                        BusStopErrorCode.RATE_LIMITED
+                    );
+                }
+
+                if (!res.ok) {
+                    throw new BusStopError(
+                        `BODS SIRI-SX error: ${res.status}`,
+                        BusStopErrorCode.SIRI_SX_UNAVAILABLE
+                    );
+                }
+
+                return res.text();
+            },
+            { retry: { maxAttempts: 2, initialDelay: 1000 } }
+        );
+
+        const now = new Date();
+        const disruptions = parseSiriSxResponse(response).filter(
+            d => (!d.validFrom || d.validFrom <= now) && (!d.validTo || d.validTo >= now)
+        );
+        Logger.debug(`Found ${disruptions.length} disruptions in effect`);
+
+        cachedDisruptions = { disruptions, fetchedAt: Date.now() };
+        return disruptions;
+    } catch (error) {
+        if (error instanceof CircuitOpenError) {
+            Logger.warn('BODS SIRI-SX circuit open', { retryAfter: error.retryAfter });
+            return cachedDisruptions?.disruptions ?? [];
+        }
+        if (error instanceof BusStopError) throw error;
+        Logger.warn('Failed to fetch/parse SIRI-SX response', error);
+        return cachedDisruptions?.disruptions ?? [];
+    }
+}
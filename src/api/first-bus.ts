@@ -9,6 +9,7 @@
 import { Logger } from '@utils/logger';
 import { resilientFetch, CircuitOpenError } from '@utils/helpers';
 import { calculateMinutesUntil } from '@utils/time';
+import { getDelayFields } from '@core/bus-stops/delay';
 import type { Departure } from '@/types';
 
 /** First Bus API response - TransportAPI format (departures.all) */
@@ -24,6 +25,12 @@ interface FirstBusDeparture {
     best_departure_estimate: string;
     dir: string;
     source: string;
+    status?: {
+        cancellation?: {
+            value: boolean;
+            reason?: string | null;
+        };
+    };
 }
 
 /** First Bus API response - Traveline format (times array) */
@@ -50,6 +57,21 @@ interface FirstBusResponse {
 /** First Bus API base URL - proxied to avoid CORS */
 const FIRST_BUS_API_PATH = '/api/firstbus';
 
+/**
+ * Derive status and delay from TransportAPI aimed/expected times
+ */
+function getTransportApiStatus(
+    dep: FirstBusDeparture
+): Pick<Departure, 'status' | 'scheduledDeparture' | 'delayMinutes'> {
+    if (dep.status?.cancellation?.value) {
+        return { status: 'cancelled', scheduledDeparture: dep.aimed_departure_time };
+    }
+    if (dep.expected_departure_time === null) {
+        return { status: 'scheduled' };
+    }
+    return getDelayFields(dep.aimed_departure_time, dep.expected_departure_time);
+}
+
 /**
  * Fetch departures from First Bus API for a specific stop
  * @param atcoCode - NAPTAN ATCO code for the stop
@@ -98,8 +120,9 @@ export async function fetchFirstBusDepartures(atcoCode: string, limit = 3): Prom
                     destination: dep.direction,
                     expectedDeparture: departureTime,
                     minutesUntil: calculateMinutesUntil(departureTime),
-                    status: 'on-time' as const,
+                    ...getTransportApiStatus(dep),
                     operatorName: dep.operator_name || 'First Bus',
+                    operatorCode: dep.operator || undefined,
                     isRealTime,
                 };
             });
@@ -121,7 +144,8 @@ export async function fetchFirstBusDepartures(atcoCode: string, limit = 3): Prom
                     destination: time.Destination,
                     expectedDeparture: time.Due,
                     minutesUntil: calculateMinutesUntil(time.Due),
-                    status: 'on-time' as const,
+                    // Traveline format has no timetabled time to compare against
+                    status: isRealTime ? ('on-time' as const) : ('scheduled' as const),
                     operatorName: time.IsFG === 'Y' ? 'First Bus' : undefined,
                     isRealTime,
                 };
@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import { formatServiceDate, isServiceActive, type ServiceCalendarData } from './gtfs-calendar';
+import type { GTFSCalendar } from '@/types';
+
+/** Build a calendar entry running on the given days */
+function calendarEntry(serviceId: string, days: (keyof GTFSCalendar)[]): GTFSCalendar {
+    return {
+        serviceId,
+        monday: days.includes('monday'),
+        tuesday: days.includes('tuesday'),
+        wednesday: days.includes('wednesday'),
+        thursday: days.includes('thursday'),
+        friday: days.includes('friday'),
+        saturday: days.includes('saturday'),
+        sunday: days.includes('sunday'),
+        startDate: '20250101',
+        endDate: '20251231',
+    };
+}
+
+const WEEKDAYS: (keyof GTFSCalendar)[] = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday'];
+
+function createData(overrides: Partial<ServiceCalendarData> = {}): ServiceCalendarData {
+    return {
+        calendar: {
+            WEEKDAY: calendarEntry('WEEKDAY', WEEKDAYS),
+            SUNDAY: calendarEntry('SUNDAY', ['sunday']),
+        },
+        calendarDates: {},
+        ...overrides,
+    };
+}
+
+describe('gtfs-calendar', () => {
+    describe('formatServiceDate', () => {
+        it('should format dates as YYYYMMDD', () => {
+            expect(formatServiceDate(new Date(2025, 0, 5, 23, 59))).toBe('20250105');
+        });
+    });
+
+    describe('isServiceActive', () => {
+        it('should follow the weekly pattern', () => {
+            const data = createData();
+            const wednesday = new Date(2025, 5, 11, 8, 0);
+            const sunday = new Date(2025, 5, 15, 8, 0);
+
+            expect(isServiceActive(data, 'WEEKDAY', wednesday)).toBe(true);
+            expect(isServiceActive(data, 'SUNDAY', wednesday)).toBe(false);
+            expect(isServiceActive(data, 'WEEKDAY', sunday)).toBe(false);
+            expect(isServiceActive(data, 'SUNDAY', sunday)).toBe(true);
+        });
+
+        it('should respect start and end dates', () => {
+            const data = createData();
+            expect(isServiceActive(data, 'WEEKDAY', new Date(2026, 0, 7))).toBe(false);
+        });
+
+        it('should return false for unknown services', () => {
+            expect(isServiceActive(createData(), 'MISSING', new Date(2025, 5, 11))).toBe(false);
+        });
+
+        it('should apply calendar_dates exceptions over the weekly pattern', () => {
+            const data = createData({
+                calendarDates: {
+                    WEEKDAY: [{ serviceId: 'WEEKDAY', date: '20250611', exceptionType: 2 }],
+                    SPECIAL: [{ serviceId: 'SPECIAL', date: '20250614', exceptionType: 1 }],
+                },
+            });
+
+            expect(isServiceActive(data, 'WEEKDAY', new Date(2025, 5, 11))).toBe(false);
+            expect(isServiceActive(data, 'SPECIAL', new Date(2025, 5, 14))).toBe(true);
+        });
+
+        it('should run a Sunday service on bank holidays not encoded in the feed', () => {
+            const data = createData();
+            const easterMonday = new Date(2025, 3, 21, 10, 0);
+
+            expect(isServiceActive(data, 'WEEKDAY', easterMonday)).toBe(false);
+            expect(isServiceActive(data, 'SUNDAY', easterMonday)).toBe(true);
+        });
+
+        it('should trust the feed on bank holidays it already encodes', () => {
+            const data = createData({
+                calendarDates: {
+                    SUNDAY: [{ serviceId: 'SUNDAY', date: '20250421', exceptionType: 2 }],
+                },
+            });
+            const easterMonday = new Date(2025, 3, 21, 10, 0);
+
+            expect(isServiceActive(data, 'WEEKDAY', easterMonday)).toBe(true);
+            expect(isServiceActive(data, 'SUNDAY', easterMonday)).toBe(false);
+        });
+    });
+});
@@ -0,0 +1,95 @@
+/**
+ * GTFS Service Calendar
+ * Resolves which GTFS services run on a given date from calendar.txt
+ * and calendar_dates.txt data, including UK bank holidays
+ */
+
+import { isBankHoliday } from '@utils/bank-holidays';
+import type { GTFSCalendar, GTFSCalendarDate } from '@/types';
+
+/** Calendar portion of the pre-processed GTFS data */
+export interface ServiceCalendarData {
+    calendar: Record<string, GTFSCalendar>; // Indexed by serviceId
+    calendarDates: Record<string, GTFSCalendarDate[]>; // Indexed by serviceId
+}
+
+/** Calendar day fields indexed by Date.getDay() */
+const DAY_FIELDS = [
+    'sunday',
+    'monday',
+    'tuesday',
+    'wednesday',
+    'thursday',
+    'friday',
+    'saturday',
+] as const;
+
+/** Dates with at least one calendar_dates exception, per loaded dataset */
+const exceptionDatesCache = new WeakMap<ServiceCalendarData, Set<string>>();
+
+/**
+ * Format a Date as a GTFS service date (YYYYMMDD, local time)
+ */
+export function formatServiceDate(date: Date): string {
+    const year = date.getFullYear();
+    const month = (date.getMonth() + 1).toString().padStart(2, '0');
+    const day = date.getDate().toString().padStart(2, '0');
+    return `${year}${month}${day}`;
+}
+
+/**
+ * Check if the feed publishes any exceptions for a service date
+ */
+function hasExceptionsOn(data: ServiceCalendarData, serviceDate: string): boolean {
+    let dates = exceptionDatesCache.get(data);
+    if (!dates) {
+        dates = new Set();
+        for (const exceptions of Object.values(data.calendarDates)) {
+            for (const exception of exceptions) {
+                dates.add(exception.date);
+            }
+        }
+        exceptionDatesCache.set(data, dates);
+    }
+    return dates.has(serviceDate);
+}
+
+/**
+ * Get the day of week whose timetable applies on a date
+ * Bank holidays run a Sunday service unless the feed encodes them itself
+ * via calendar_dates exceptions
+ */
+function getTimetableDayOfWeek(data: ServiceCalendarData, date: Date, serviceDate: string): number {
+    if (isBankHoliday(date) && !hasExceptionsOn(data, serviceDate)) {
+        return 0;
+    }
+    return date.getDay();
+}
+
+/**
+ * Check if a GTFS service runs on the given date
+ * @param data - Calendar and calendar_dates data
+ * @param serviceId - GTFS service_id from the trip
+ * @param date - Service date to check (time of day is ignored)
+ */
+export function isServiceActive(data: ServiceCalendarData, serviceId: string, date: Date): boolean {
+    const serviceDate = formatServiceDate(date);
+
+    // Explicit exceptions always win over the weekly pattern
+    const exception = data.calendarDates[serviceId]?.find(e => e.date === serviceDate);
+    if (exception) {
+        return exception.exceptionType === 1;
+    }
+
+    const calendar = data.calendar[serviceId];
+    if (!calendar) {
+        return false;
+    }
+
+    if (serviceDate < calendar.startDate || serviceDate > calendar.endDate) {
+        return false;
+    }
+
+    const dayOfWeek = getTimetableDayOfWeek(data, date, serviceDate);
+    return calendar[DAY_FIELDS[dayOfWeek]];
+}
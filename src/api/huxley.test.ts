@@ -0,0 +1,248 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+    mapHuxleyArrivals,
+    mapHuxleyResponse,
+    mapServiceDetails,
+    type HuxleyArrivalResponse,
+    type HuxleyResponse,
+    type HuxleyServiceDetails,
+} from './huxley';
+
+function response(overrides: Partial<HuxleyResponse>): HuxleyResponse {
+    return {
+        trainServices: null,
+        locationName: 'Chelmsford',
+        crs: 'CHM',
+        generatedAt: '2025-06-10T07:30:00Z',
+        ...overrides,
+    };
+}
+
+describe('huxley', () => {
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('should keep NRCC messages as plain text, dropping empty ones', () => {
+        const { messages } = mapHuxleyResponse(
+            response({
+                nrccMessages: [
+                    {
+                        Value: '<p>Disruption between Shenfield and Chelmsford.\n<a href="https://www.nationalrail.co.uk/">More details</a></p>',
+                    },
+                    {
+                        Value: '<b onclick="alert(1)">Lifts out of order</b><script>alert(2)</script>',
+                    },
+                    { Value: '<br>' },
+                ],
+            })
+        );
+
+        expect(messages).toEqual([
+            'Disruption between Shenfield and Chelmsford. More details',
+            'Lifts out of order',
+        ]);
+    });
+
+    it("should carry each service's delay and cancellation reasons", () => {
+        const { departures } = mapHuxleyResponse(
+            response({
+                trainServices: [
+                    {
+                        destination: [{ locationName: 'London Liverpool Street', crs: 'LST' }],
+                        std: '07:48',
+                        etd: 'Cancelled',
+                        operator: 'Greater Anglia',
+                        operatorCode: 'LE',
+                        serviceID: 'abc123',
+                        isCancelled: true,
+                        cancelReason:
+                            'This train has been cancelled because of a shortage of train crew',
+                    },
+                    {
+                        destination: [{ locationName: 'Colchester', crs: 'COL' }],
+                        std: '07:52',
+                        etd: 'Delayed',
+                        operator: 'Greater Anglia',
+                        operatorCode: 'LE',
+                        serviceID: 'def456',
+                        delayReason: 'This train has been delayed by a fault with the signalling',
+                    },
+                ],
+            })
+        );
+
+        expect(departures.map(d => [d.status, d.cancelReason, d.delayReason])).toEqual([
+            [
+                'cancelled',
+                'This train has been cancelled because of a shortage of train crew',
+                undefined,
+            ],
+            ['delayed', undefined, 'This train has been delayed by a fault with the signalling'],
+        ]);
+    });
+
+    it('should merge replacement buses into the board in departure order', () => {
+        vi.useFakeTimers();
+        vi.setSystemTime(new Date(2025, 5, 10, 7, 30));
+        const service = {
+            destination: [{ locationName: 'Witham', crs: 'WTM' }],
+            etd: 'On time',
+            operator: 'Greater Anglia',
+            operatorCode: 'LE',
+        };
+        const { departures } = mapHuxleyResponse(
+            response({
+                trainServices: [{ ...service, std: '07:55', platform: '2', serviceID: 'train1' }],
+                busServices: [
+                    { ...service, std: '07:40', platform: 'BUS', serviceID: 'bus1' },
+                    {
+                        ...service,
+                        std: '08:10',
+                        platform: 'Duke Street bus stop',
+                        serviceID: 'bus2',
+                    },
+                ],
+            })
+        );
+
+        expect(
+            departures.map(d => [d.serviceId, d.isReplacementBus, d.platform, d.boardingPoint])
+        ).toEqual([
+            ['bus1', true, undefined, undefined],
+            ['train1', undefined, '2', undefined],
+            ['bus2', true, undefined, 'Duke Street bus stop'],
+        ]);
+    });
+
+    it('should read the arrival time at a filtered destination', () => {
+        const { departures } = mapHuxleyResponse(
+            response({
+                trainServices: [
+                    {
+                        destination: [{ locationName: 'London Liverpool Street', crs: 'LST' }],
+                        std: '07:55',
+                        etd: 'On time',
+                        operator: 'Greater Anglia',
+                        operatorCode: 'LE',
+                        serviceID: 'ghi789',
+                        subsequentCallingPoints: [
+                            {
+                                callingPoint: [
+                                    {
+                                        locationName: 'Stratford',
+                                        crs: 'SRA',
+                                        st: '08:26',
+                                        et: '08:27',
+                                    },
+                                    {
+                                        locationName: 'London Liverpool Street',
+                                        crs: 'LST',
+                                        st: '08:34',
+                                        et: 'On time',
+                                    },
+                                ],
+                            },
+                        ],
+                    },
+                ],
+            }),
+            'SRA'
+        );
+
+        expect(departures[0].destinationArrival).toMatchObject({
+            crsCode: 'SRA',
+            scheduledTime: '08:26',
+            expectedTime: '08:27',
+        });
+        expect(departures[0].callingPoints).toHaveLength(2);
+    });
+
+    it('should map arrivals with their origin and arrival times', () => {
+        const arrivals: HuxleyArrivalResponse = {
+            trainServices: [
+                {
+                    origin: [{ locationName: 'London Liverpool Street', crs: 'LST' }],
+                    sta: '08:12',
+                    eta: '08:15',
+                    platform: '3',
+                    operator: 'Greater Anglia',
+                    operatorCode: 'LE',
+                    serviceID: 'jkl012',
+                    delayReason: 'This train has been delayed by a trespass incident',
+                },
+            ],
+            locationName: 'Chelmsford',
+            crs: 'CHM',
+            generatedAt: '2025-06-10T07:45:00Z',
+        };
+
+        expect(mapHuxleyArrivals(arrivals).arrivals).toEqual([
+            expect.objectContaining({
+                origin: 'London Liverpool Street',
+                scheduledArrival: '08:12',
+                expectedArrival: '08:15',
+                platform: '3',
+                status: 'delayed',
+                delayReason: 'This train has been delayed by a trespass incident',
+                serviceId: 'jkl012',
+            }),
+        ]);
+    });
+
+    it('should map calling points, preferring reported times over estimates', () => {
+        const details: HuxleyServiceDetails = {
+            generatedAt: '2025-06-10T07:45:00Z',
+            locationName: 'Chelmsford',
+            crs: 'CHM',
+            operator: 'Greater Anglia',
+            platform: '2',
+            std: '07:48',
+            etd: '07:50',
+            previousCallingPoints: [
+                {
+                    callingPoint: [
+                        { locationName: 'Colchester', crs: 'COL', st: '07:20', at: 'On time' },
+                        { locationName: 'Witham', crs: 'WTM', st: '07:35', at: '07:37' },
+                        {
+                            locationName: 'Hatfield Peverel',
+                            crs: 'HAP',
+                            st: '07:40',
+                            at: 'No report',
+                        },
+                    ],
+                },
+            ],
+            subsequentCallingPoints: [
+                {
+                    callingPoint: [
+                        { locationName: 'Ingatestone', crs: 'INT', st: '07:55', et: '07:57' },
+                        {
+                            locationName: 'London Liverpool Street',
+                            crs: 'LST',
+                            st: '08:25',
+                            et: 'Cancelled',
+                            isCancelled: true,
+                        },
+                    ],
+                },
+            ],
+        };
+
+        const detail = mapServiceDetails('abc123', details);
+
+        expect(detail.station).toMatchObject({ expectedTime: '07:50', status: 'delayed' });
+        expect(detail.destination).toBe('London Liverpool Street');
+        expect(
+            detail.previousCallingPoints.map(p => [p.name, p.actualTime, p.expectedTime])
+        ).toEqual([
+            ['Colchester', '07:20', '07:20'],
+            ['Witham', '07:37', '07:37'],
+            ['Hatfield Peverel', undefined, '07:40'],
+        ]);
+        expect(detail.callingPoints.map(p => [p.expectedTime, p.status])).toEqual([
+            ['07:57', 'delayed'],
+            ['08:25', 'cancelled'],
+        ]);
+    });
+});
@@ -1,6 +1,6 @@
 /**
  * Rail Data Marketplace API Client
- * Fetches real-time train departures from National Rail Darwin
+ * Fetches real-time train departures and arrivals from National Rail Darwin
  *
  * Get a free API key from: https://raildata.org.uk
  * Subscribe to "Live Arrival and Departure Boards" product
@@ -9,7 +9,14 @@
 import { Logger } from '@utils/logger';
 import { resilientFetch, CircuitOpenError } from '@utils/helpers';
 import { getConfig } from '@config/index';
-import type { TrainDeparture } from '@/types';
+import type {
+    TrainArrival,
+    TrainArrivalData,
+    TrainCallingPoint,
+    TrainDeparture,
+    TrainDepartureData,
+    TrainServiceDetail,
+} from '@/types';
 
 /** Huxley2 API response types */
 interface HuxleyDestination {
@@ -18,6 +25,20 @@ interface HuxleyDestination {
     via?: string;
 }
 
+interface HuxleyCallingPoint {
+    locationName: string;
+    crs: string;
+    st: string; // Scheduled time
+    et?: string; // Estimated time, for stations still to come
+    at?: string; // Actual time, once the train has been there
+    isCancelled?: boolean;
+}
+
+/** A train that divides has one list per portion; the first is the main train */
+interface HuxleyCallingPointList {
+    callingPoint: HuxleyCallingPoint[];
+}
+
 interface HuxleyService {
     destination: HuxleyDestination[];
     std: string; // Scheduled Time Departure (e.g., "10:30")
@@ -29,10 +50,12 @@ interface HuxleyService {
     isCancelled?: boolean;
     cancelReason?: string;
     delayReason?: string;
+    subsequentCallingPoints?: HuxleyCallingPointList[] | null;
 }
 
-interface HuxleyResponse {
+export interface HuxleyResponse {
     trainServices: HuxleyService[] | null;
+    busServices?: HuxleyService[] | null; // Rail replacement buses, listed apart from trains
     nrccMessages?: { Value: string }[];
     locationName: string;
     crs: string;
@@ -40,93 +63,370 @@ interface HuxleyResponse {
     isTruncated?: boolean;
 }
 
+/** A service on an arrivals board, which has arrival times instead of departure times */
+interface HuxleyArrivalService extends Omit<HuxleyService, 'destination' | 'std' | 'etd'> {
+    origin: HuxleyDestination[];
+    sta: string; // Scheduled Time Arrival (e.g., "10:30")
+    eta: string; // Estimated Time Arrival (e.g., "10:35", "On time", "Cancelled", "Delayed")
+}
+
+export interface HuxleyArrivalResponse extends Omit<
+    HuxleyResponse,
+    'trainServices' | 'busServices'
+> {
+    trainServices: HuxleyArrivalService[] | null;
+}
+
+export interface HuxleyServiceDetails {
+    generatedAt: string;
+    locationName: string;
+    crs: string;
+    operator?: string;
+    isCancelled?: boolean;
+    cancelReason?: string;
+    delayReason?: string;
+    platform?: string;
+    sta?: string;
+    eta?: string;
+    ata?: string;
+    std?: string;
+    etd?: string;
+    atd?: string;
+    previousCallingPoints?: HuxleyCallingPointList[] | null;
+    subsequentCallingPoints?: HuxleyCallingPointList[] | null;
+}
+
 /**
- * Fetch train departures from Rail Data Marketplace API
- * @param crsCode - 3-letter CRS code for the station (e.g., "CHM" for Chelmsford)
- * @param limit - Maximum number of departures to return
+ * Reduce Darwin HTML (NRCC messages, reasons) to plain text
+ * Messages carry links and markup we don't want to inject into the page
  */
-export async function fetchTrainDepartures(
-    crsCode: string,
-    limit?: number
-): Promise<TrainDeparture[]> {
-    const config = getConfig();
-    const { railDataApiUrl, railDataApiKey, maxDeparturesPerStation } = config.trainStations;
-    const numRows = limit ?? maxDeparturesPerStation;
+function htmlToText(html: string): string {
+    const doc = new DOMParser().parseFromString(html, 'text/html');
+    doc.querySelectorAll('script, style').forEach(element => element.remove());
+    return (doc.body.textContent ?? '').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Read the reported time of a calling point, if the train has been there
+ * Darwin sends "On time" for a train that was there when booked.
+ */
+function parseActualTime(actual: string | undefined, scheduled: string): string | undefined {
+    if (!actual) return undefined;
+    if (actual.toLowerCase() === 'on time') return scheduled;
+    return /^\d{1,2}:\d{2}$/.test(actual) ? actual : undefined;
+}
+
+/**
+ * Map a Huxley calling point, preferring the actual time over the estimate
+ */
+function mapCallingPoint(point: HuxleyCallingPoint): TrainCallingPoint {
+    const actualTime = parseActualTime(point.at, point.st);
+    const { expectedDeparture, status } = parseEtd(point.et ?? actualTime ?? point.st, point.st);
+    return {
+        name: point.locationName,
+        crsCode: point.crs,
+        scheduledTime: point.st,
+        expectedTime: expectedDeparture,
+        actualTime,
+        status: point.isCancelled ? 'cancelled' : status,
+    };
+}
+
+/**
+ * Map the calling points of a train's main portion
+ */
+function mapCallingPoints(lists: HuxleyCallingPointList[] | null | undefined): TrainCallingPoint[] {
+    return (lists?.[0]?.callingPoint ?? []).map(mapCallingPoint);
+}
+
+/**
+ * Read a board's NRCC station messages as plain text
+ */
+function mapMessages(response: Pick<HuxleyResponse, 'nrccMessages'>): string[] {
+    return (response.nrccMessages ?? [])
+        .map(message => htmlToText(message.Value ?? ''))
+        .filter(Boolean);
+}
+
+/**
+ * Map a Huxley service to a departure
+ * @param destinationCrs - Station to read the arrival time at, if filtered
+ */
+function mapDeparture(service: HuxleyService, destinationCrs?: string): TrainDeparture {
+    const { expectedDeparture, status, isRealTime } = parseEtd(service.etd, service.std);
+    const destination = service.destination[0]?.locationName || 'Unknown';
+    const via = service.destination[0]?.via;
+    const fullDestination = via ? `${destination} ${via}` : destination;
+    const callingPoints = mapCallingPoints(service.subsequentCallingPoints);
+
+    return {
+        destination: fullDestination,
+        scheduledDeparture: service.std,
+        expectedDeparture,
+        minutesUntil: calculateMinutesUntil(expectedDeparture),
+        platform: service.platform,
+        operatorCode: service.operatorCode,
+        operatorName: service.operator,
+        status,
+        isRealTime,
+        delayReason: service.delayReason ? htmlToText(service.delayReason) : undefined,
+        cancelReason: service.cancelReason ? htmlToText(service.cancelReason) : undefined,
+        serviceId: service.serviceID,
+        callingPoints,
+        destinationArrival: destinationCrs
+            ? callingPoints.find(point => point.crsCode === destinationCrs)
+            : undefined,
+    };
+}
+
+/**
+ * Map a rail replacement bus to a departure
+ * Darwin puts the stop a bus leaves from in its platform field, or just "BUS"
+ */
+function mapReplacementBus(service: HuxleyService, destinationCrs?: string): TrainDeparture {
+    const platform = service.platform?.trim();
+    const boardingPoint = platform && platform.toUpperCase() !== 'BUS' ? platform : undefined;
+
+    return {
+        ...mapDeparture(service, destinationCrs),
+        platform: undefined,
+        isReplacementBus: true,
+        boardingPoint,
+    };
+}
+
+/**
+ * Map a Huxley response to departures and station messages
+ * Replacement buses are merged in with the trains, in departure order
+ * @param destinationCrs - Station to read each train's arrival time at, if filtered
+ */
+export function mapHuxleyResponse(
+    response: HuxleyResponse,
+    destinationCrs?: string
+): TrainDepartureData {
+    const trains = (response.trainServices ?? []).map(service =>
+        mapDeparture(service, destinationCrs)
+    );
+    const buses = (response.busServices ?? []).map(service =>
+        mapReplacementBus(service, destinationCrs)
+    );
+    const departures =
+        buses.length > 0
+            ? [...trains, ...buses].sort((a, b) => a.minutesUntil - b.minutesUntil)
+            : trains;
+
+    return { departures, messages: mapMessages(response) };
+}
+
+/**
+ * Map a Huxley arrivals response to arrivals and station messages
+ */
+export function mapHuxleyArrivals(response: HuxleyArrivalResponse): TrainArrivalData {
+    const arrivals: TrainArrival[] = (response.trainServices ?? []).map(service => {
+        const { expectedDeparture, status, isRealTime } = parseEtd(service.eta, service.sta);
+        const origin = service.origin[0]?.locationName || 'Unknown';
+
+        return {
+            origin,
+            scheduledArrival: service.sta,
+            expectedArrival: expectedDeparture,
+            minutesUntil: calculateMinutesUntil(expectedDeparture),
+            platform: service.platform,
+            operatorCode: service.operatorCode,
+            operatorName: service.operator,
+            status,
+            isRealTime,
+            delayReason: service.delayReason ? htmlToText(service.delayReason) : undefined,
+            cancelReason: service.cancelReason ? htmlToText(service.cancelReason) : undefined,
+            serviceId: service.serviceID,
+        };
+    });
+
+    return { arrivals, messages: mapMessages(response) };
+}
+
+/**
+ * Map Huxley service details to the train's calling points and position
+ */
+export function mapServiceDetails(
+    serviceId: string,
+    details: HuxleyServiceDetails
+): TrainServiceDetail {
+    // Trains pass through most stations, but start or end at some
+    const scheduled = details.std ?? details.sta ?? '';
+    const actualTime = parseActualTime(details.atd ?? details.ata, scheduled);
+    const { expectedDeparture, status } = parseEtd(
+        details.etd ?? details.eta ?? actualTime ?? scheduled,
+        scheduled
+    );
+    const callingPoints = mapCallingPoints(details.subsequentCallingPoints);
+
+    return {
+        serviceId,
+        station: {
+            name: details.locationName,
+            crsCode: details.crs,
+            scheduledTime: scheduled,
+            expectedTime: expectedDeparture,
+            actualTime,
+            status: details.isCancelled ? 'cancelled' : status,
+        },
+        destination: callingPoints.at(-1)?.name ?? details.locationName,
+        operatorName: details.operator,
+        platform: details.platform,
+        delayReason: details.delayReason ? htmlToText(details.delayReason) : undefined,
+        cancelReason: details.cancelReason ? htmlToText(details.cancelReason) : undefined,
+        previousCallingPoints: mapCallingPoints(details.previousCallingPoints),
+        callingPoints,
+        generatedAt: Date.parse(details.generatedAt) || Date.now(),
+    };
+}
+
+/**
+ * Check for the error thrown when no API key is configured, which boards pass on
+ */
+function isApiKeyMissing(error: unknown): boolean {
+    return error instanceof Error && error.message === 'API_KEY_MISSING';
+}
+
+/**
+ * Call a Rail Data Marketplace endpoint with the configured API key
+ * @param path - Endpoint path after the API URL (e.g., "GetServiceDetails/abc")
+ * @param requestKey - Key to throttle and de-duplicate the request by
+ */
+async function requestRailData<T>(path: string, requestKey: string): Promise<T> {
+    const { railDataApiUrl, railDataApiKey } = getConfig().trainStations;
 
     if (!railDataApiKey) {
         Logger.debug('Rail Data API key not configured');
         throw new Error('API_KEY_MISSING');
     }
 
-    const url = `${railDataApiUrl}/GetArrDepBoardWithDetails/${crsCode}?numRows=${numRows}`;
+    return resilientFetch<T>(
+        'raildata',
+        requestKey,
+        async () => {
+            const res = await fetch(`${railDataApiUrl}/${path}`, {
+                headers: {
+                    'x-apikey': railDataApiKey,
+                },
+            });
+
+            if (!res.ok) {
+                throw new Error(`Rail Data API error: ${res.status}`);
+            }
+
+            return res.json() as Promise<T>;
+        },
+        { retry: { maxAttempts: 2, initialDelay: 1000 } }
+    );
+}
+
+/**
+ * Fetch train departures and station messages from Rail Data Marketplace API
+ * @param crsCode - 3-letter CRS code for the station (e.g., "CHM" for Chelmsford)
+ * @param limit - Maximum number of departures to return
+ * @param destinationCrs - Only return trains calling at this station, with their arrival time there
+ */
+export async function fetchTrainDepartures(
+    crsCode: string,
+    limit?: number,
+    destinationCrs?: string
+): Promise<TrainDepartureData> {
+    const numRows = limit ?? getConfig().trainStations.maxDeparturesPerStation;
+    const filter = destinationCrs ? `&filterCrs=${destinationCrs}&filterType=to` : '';
 
-    Logger.info('Fetching train departures', { crsCode });
+    Logger.info('Fetching train departures', { crsCode, destinationCrs });
 
     try {
-        const response = await resilientFetch<HuxleyResponse>(
-            'raildata',
-            crsCode,
-            async () => {
-                const res = await fetch(url, {
-                    headers: {
-                        'x-apikey': railDataApiKey,
-                    },
-                });
-
-                if (!res.ok) {
-                    throw new Error(`Rail Data API error: ${res.status}`);
-                }
-
-                return res.json() as Promise<HuxleyResponse>;
-            },
-            { retry: { maxAttempts: 2, initialDelay: 1000 } }
+        const response = await requestRailData<HuxleyResponse>(
+            `GetArrDepBoardWithDetails/${crsCode}?numRows=${numRows}${filter}`,
+            destinationCrs ? `${crsCode}:${destinationCrs}` : crsCode
         );
 
         Logger.debug('Rail Data API response', { crsCode, response });
 
-        if (!response.trainServices || response.trainServices.length === 0) {
-            Logger.debug('No train services found', { crsCode });
-            return [];
-        }
-
-        const departures: TrainDeparture[] = response.trainServices.map(service => {
-            const { expectedDeparture, status, isRealTime } = parseEtd(service.etd, service.std);
-            const destination = service.destination[0]?.locationName || 'Unknown';
-            const via = service.destination[0]?.via;
-            const fullDestination = via ? `${destination} ${via}` : destination;
-
-            return {
-                destination: fullDestination,
-                scheduledDeparture: service.std,
-                expectedDeparture,
-                minutesUntil: calculateMinutesUntil(expectedDeparture),
-                platform: service.platform,
-                operatorCode: service.operatorCode,
-                operatorName: service.operator,
-                status,
-                isRealTime,
-            };
-        });
+        const data = mapHuxleyResponse(response, destinationCrs);
 
         Logger.info('Fetched train departures', {
             crsCode,
-            count: departures.length,
+            count: data.departures.length,
+            replacementBuses: data.departures.filter(d => d.isReplacementBus).length,
+            messages: data.messages?.length ?? 0,
         });
 
-        return departures;
+        return data;
     } catch (error) {
+        if (isApiKeyMissing(error)) throw error;
         if (error instanceof CircuitOpenError) {
             Logger.warn('Rail Data circuit open, skipping', {
                 crsCode,
                 retryAfter: error.retryAfter,
             });
-            return [];
+            return { departures: [], messages: [] };
         }
         Logger.warn('Failed to fetch train departures', { crsCode, error });
-        return [];
+        return { departures: [], messages: [] };
     }
 }
 
+/**
+ * Fetch train arrivals and station messages from Rail Data Marketplace API
+ * @param crsCode - 3-letter CRS code for the station (e.g., "CHM" for Chelmsford)
+ * @param limit - Maximum number of arrivals to return
+ */
+export async function fetchTrainArrivals(
+    crsCode: string,
+    limit?: number
+): Promise<TrainArrivalData> {
+    const numRows = limit ?? getConfig().trainStations.maxDeparturesPerStation;
+
+    Logger.info('Fetching train arrivals', { crsCode });
+
+    try {
+        const response = await requestRailData<HuxleyArrivalResponse>(
+            `GetArrBoardWithDetails/${crsCode}?numRows=${numRows}`,
+            `arrivals:${crsCode}`
+        );
+
+        const data = mapHuxleyArrivals(response);
+        Logger.info('Fetched train arrivals', { crsCode, count: data.arrivals.length });
+        return data;
+    } catch (error) {
+        if (isApiKeyMissing(error)) throw error;
+        if (error instanceof CircuitOpenError) {
+            Logger.warn('Rail Data circuit open, skipping', {
+                crsCode,
+                retryAfter: error.retryAfter,
+            });
+            return { arrivals: [], messages: [] };
+        }
+        Logger.warn('Failed to fetch train arrivals', { crsCode, error });
+        return { arrivals: [], messages: [] };
+    }
+}
+
+/**
+ * Fetch a train's calling points from Rail Data Marketplace API
+ * Unlike departures, failures are thrown so the caller can say so
+ * @param serviceId - Darwin service ID from a departure board
+ */
+export async function fetchTrainService(serviceId: string): Promise<TrainServiceDetail> {
+    Logger.info('Fetching train service details', { serviceId });
+
+    const details = await requestRailData<HuxleyServiceDetails | null>(
+        `GetServiceDetails/${encodeURIComponent(serviceId)}`,
+        `service:${serviceId}`
+    );
+
+    // Darwin forgets services a while after they finish
+    if (!details) {
+        throw new Error('Train service no longer available');
+    }
+
+    return mapServiceDetails(serviceId, details);
+}
+
 /**
  * Parse the ETD (Estimated Time Departure) field from Huxley
  * Can be: "On time", "Cancelled", "Delayed", or an actual time like "10:35"
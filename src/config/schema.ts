@@ -5,6 +5,21 @@
 
 import { z } from 'zod';
 
+/** A departure feed, built from one of the provider implementations */
+const DepartureProviderConfigSchema = z.object({
+    /** Unique ID, used to tag departures and in logs */
+    id: z.string().min(1),
+    /** Provider implementation to use */
+    type: z.enum(['first-bus', 'siri-vm', 'gtfs']),
+    /** Disabled providers are never queried */
+    enabled: z.boolean().default(true),
+    /** Lower numbers win when providers report the same trip */
+    priority: z.number().int().default(0),
+    /** Operator NOCs to keep departures for (all operators when omitted) */
+    operators: z.array(z.string()).optional(),
+});
+export type DepartureProviderConfig = z.infer<typeof DepartureProviderConfigSchema>;
+
 export const ConfigSchema = z.object({
     debug: z.boolean().default(false),
     api: z
@@ -37,6 +52,8 @@ export const ConfigSchema = z.object({
             departuresCacheTtl: z.number().positive().default(60000),
             /** Cache TTL for GTFS timetable in milliseconds (default: 1 day) */
             timetableCacheTtl: z.number().positive().default(86400000),
+            /** How long fetched disruptions (SIRI-SX) are reused in milliseconds (default: 5 min) */
+            disruptionsCacheTtl: z.number().positive().default(300000),
             /** Maximum distance to search for stops (meters) */
             maxSearchRadius: z.number().positive().default(1000),
             /** Maximum radius for expanded search (meters) */
@@ -45,6 +62,8 @@ export const ConfigSchema = z.object({
             radiusIncrement: z.number().positive().default(500),
             /** Radius for SIRI-VM vehicle search (meters) */
             vehicleSearchRadius: z.number().positive().default(10000),
+            /** How often the vehicle tracking panel refreshes (ms) */
+            trackingRefreshInterval: z.number().positive().default(15000),
             /** Chelmsford bounding box for filtering stops */
             chelmsfordBounds: z
                 .object({
@@ -65,6 +84,18 @@ export const ConfigSchema = z.object({
             maxDistanceFromCenter: z.number().positive().default(10000),
             /** Distance threshold (meters) within which nearby stops rank above distant favorites */
             nearbyPriorityRadius: z.number().nonnegative().default(150),
+            /** Departure feeds merged for each stop (see departure-providers) */
+            departureProviders: z
+                .array(DepartureProviderConfigSchema)
+                .refine(
+                    providers => new Set(providers.map(p => p.id)).size === providers.length,
+                    'Departure provider IDs must be unique'
+                )
+                .default([
+                    { id: 'first-bus', type: 'first-bus', priority: 0 },
+                    { id: 'siri-vm', type: 'siri-vm', priority: 1 },
+                    { id: 'gtfs', type: 'gtfs', priority: 2 },
+                ]),
         })
         .default({}),
     trainStations: z
@@ -81,6 +112,44 @@ export const ConfigSchema = z.object({
             departuresCacheTtl: z.number().positive().default(60000),
             /** Maximum departures to fetch per station */
             maxDeparturesPerStation: z.number().positive().default(5),
+            /** How often a tracked train's calling points refresh in milliseconds (default: 30s) */
+            serviceRefreshInterval: z.number().positive().default(30000),
+            /** CRS codes of bundled stations to offer (default: all of them) */
+            stations: z.array(z.string()).default([]),
+            /** Maximum distance to show stations (meters) */
+            maxSearchRadius: z.number().positive().default(5000),
+            /** Maximum radius for expanded search with "Show more" (meters) */
+            maxExpandedRadius: z.number().positive().default(20000),
+            /** Radius increment per expansion (meters) */
+            radiusIncrement: z.number().positive().default(5000),
+        })
+        .default({}),
+    journeyPlanner: z
+        .object({
+            /** Walking speed in meters per second */
+            walkingSpeed: z.number().positive().default(1.3),
+            /** Furthest to walk to the first stop or from the last stop (meters) */
+            maxAccessWalk: z.number().positive().default(800),
+            /** Furthest to walk between stops when changing buses (meters) */
+            maxTransferWalk: z.number().nonnegative().default(400),
+            /** Stops considered at each end of the journey */
+            maxAccessStops: z.number().int().positive().default(8),
+            /** Time allowed to change between buses at the same stop in milliseconds */
+            minTransferTime: z.number().nonnegative().default(60000),
+            /** Time allowed to get from a bus to a train, on top of the walk, in milliseconds */
+            minRailConnectionTime: z.number().nonnegative().default(300000),
+            /** Most changes between buses in one journey */
+            maxTransfers: z.number().int().nonnegative().default(3),
+            /** Journey options returned */
+            maxResults: z.number().int().positive().default(3),
+        })
+        .default({}),
+    alerts: z
+        .object({
+            /** How many minutes before a departure leaves to notify */
+            leadMinutes: z.number().int().positive().default(5),
+            /** How often to check a departure with an alert set in milliseconds (default: 1 min) */
+            refreshInterval: z.number().positive().default(60000),
         })
         .default({}),
 });
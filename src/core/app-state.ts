@@ -17,18 +17,27 @@ interface AppState {
     currentSearchRadius: number;
     /** Whether max search radius has been reached */
     hasReachedMaxRadius: boolean;
+    /** Current train station search radius for progressive expansion */
+    trainSearchRadius: number;
+    /** Whether max train station search radius has been reached */
+    hasReachedMaxTrainRadius: boolean;
     /** ATCO codes currently displayed */
     displayedAtcoCodes: string[];
     /** All display items (bus and train) */
     allDisplayItems: DisplayItem[];
+    /** CRS codes of stations showing arrivals instead of departures */
+    arrivalStations: Set<string>;
 }
 
 const state: AppState = {
     userLocation: null,
     currentSearchRadius: 1000,
     hasReachedMaxRadius: false,
+    trainSearchRadius: 5000,
+    hasReachedMaxTrainRadius: false,
     displayedAtcoCodes: [],
     allDisplayItems: [],
+    arrivalStations: new Set(),
 };
 
 /** Get the current user location */
@@ -61,6 +70,31 @@ export function setHasReachedMaxRadius(reached: boolean): void {
     state.hasReachedMaxRadius = reached;
 }
 
+/** Get the current train station search radius */
+export function getTrainSearchRadius(): number {
+    return state.trainSearchRadius;
+}
+
+/** Set the current train station search radius */
+export function setTrainSearchRadius(radius: number): void {
+    state.trainSearchRadius = radius;
+}
+
+/** Check if max train station radius has been reached */
+export function hasReachedMaxTrainRadius(): boolean {
+    return state.hasReachedMaxTrainRadius;
+}
+
+/** Set whether max train station radius has been reached */
+export function setHasReachedMaxTrainRadius(reached: boolean): void {
+    state.hasReachedMaxTrainRadius = reached;
+}
+
+/** Check if "Show more" can still find bus stops or train stations */
+export function canShowMore(): boolean {
+    return !state.hasReachedMaxRadius || !state.hasReachedMaxTrainRadius;
+}
+
 /** Get the displayed ATCO codes */
 export function getDisplayedAtcoCodes(): string[] {
     return [...state.displayedAtcoCodes];
@@ -91,16 +125,34 @@ export function addDisplayItems(items: DisplayItem[]): void {
     state.allDisplayItems = [...state.allDisplayItems, ...items];
 }
 
+/** Get the stations showing arrivals instead of departures */
+export function getArrivalStations(): Set<string> {
+    return new Set(state.arrivalStations);
+}
+
+/** Switch a station between its arrivals and departures boards */
+export function setStationShowsArrivals(crsCode: string, showArrivals: boolean): void {
+    if (showArrivals) {
+        state.arrivalStations.add(crsCode);
+    } else {
+        state.arrivalStations.delete(crsCode);
+    }
+}
+
 /** Initialize state from config values */
-export function initializeState(initialRadius: number): void {
+export function initializeState(initialRadius: number, initialTrainRadius: number): void {
     state.currentSearchRadius = initialRadius;
     state.hasReachedMaxRadius = false;
+    state.trainSearchRadius = initialTrainRadius;
+    state.hasReachedMaxTrainRadius = false;
     state.displayedAtcoCodes = [];
     state.allDisplayItems = [];
 }
 
 /** Reset progressive expansion state (for refresh) */
-export function resetProgressiveExpansion(initialRadius: number): void {
+export function resetProgressiveExpansion(initialRadius: number, initialTrainRadius: number): void {
     state.currentSearchRadius = initialRadius;
     state.hasReachedMaxRadius = false;
+    state.trainSearchRadius = initialTrainRadius;
+    state.hasReachedMaxTrainRadius = false;
 }
@@ -1,21 +1,25 @@
 /**
- * IndexedDB Cache for Bus Stops and Departures
+ * IndexedDB Cache for Bus Stops, Departures and Timetables
  * Provides offline-first data access
  */
 
 import { Logger } from '@utils/logger';
 import { getConfig } from '@config/index';
-import type { BusStop, Departure } from '@/types';
-
-const DB_NAME = 'cm123go-cache';
-const DB_VERSION = 2;
-const STOPS_STORE = 'bus-stops';
-const DEPARTURES_STORE = 'departures';
-const TRAIN_DEPARTURES_STORE = 'train-departures';
+import {
+    DEPARTURES_STORE,
+    NETWORK_STORE,
+    STOPS_STORE,
+    TIMETABLE_STORE,
+    openDatabase,
+} from '@utils/cache-database';
+import type { BusStop, Departure, GTFSData, GTFSNetwork } from '@/types';
+import type { StopSpatialIndex } from './spatial-index';
 
 interface CachedStops {
     id: 'chelmsford-stops';
     stops: BusStop[];
+    /** Grid over the same stops (stored once, as IndexedDB keeps shared references) */
+    spatialIndex?: StopSpatialIndex;
     timestamp: number;
 }
 
@@ -25,37 +29,63 @@ interface CachedDepartures {
     timestamp: number;
 }
 
+/** Timetable shard for one stop, tagged with the manifest version it came from */
+interface CachedTimetableShard {
+    atcoCode: string;
+    version: string;
+    shard: GTFSData;
+    timestamp: number;
+}
+
+/** Journey planning timetable, tagged with the manifest version it came from */
+interface CachedTimetableNetwork {
+    id: 'network';
+    version: string;
+    network: GTFSNetwork;
+    timestamp: number;
+}
+
 /**
- * Open or create the IndexedDB database
+ * Read the cached stops record
+ * @returns Record or null if cache is empty/expired
  */
-function openDatabase(): Promise<IDBDatabase> {
-    return new Promise((resolve, reject) => {
-        const request = indexedDB.open(DB_NAME, DB_VERSION);
-
-        request.onerror = () => {
-            Logger.error('Failed to open IndexedDB', request.error);
-            reject(new Error(request.error?.message ?? 'Failed to open IndexedDB'));
-        };
-
-        request.onsuccess = () => {
-            resolve(request.result);
-        };
-
-        request.onupgradeneeded = event => {
-            const db = (event.target as IDBOpenDBRequest).result;
-
-            // Create stores if they don't exist
-            if (!db.objectStoreNames.contains(STOPS_STORE)) {
-                db.createObjectStore(STOPS_STORE, { keyPath: 'id' });
-            }
-            if (!db.objectStoreNames.contains(DEPARTURES_STORE)) {
-                db.createObjectStore(DEPARTURES_STORE, { keyPath: 'atcoCode' });
-            }
-            if (!db.objectStoreNames.contains(TRAIN_DEPARTURES_STORE)) {
-                db.createObjectStore(TRAIN_DEPARTURES_STORE, { keyPath: 'crsCode' });
-            }
-        };
-    });
+async function readCachedStops(): Promise<CachedStops | null> {
+    try {
+        const db = await openDatabase();
+        const config = getConfig();
+        const ttl = config.busStops.stopsCacheTtl;
+
+        return await new Promise(resolve => {
+            const transaction = db.transaction(STOPS_STORE, 'readonly');
+            const store = transaction.objectStore(STOPS_STORE);
+            const request = store.get('chelmsford-stops');
+
+            request.onsuccess = () => {
+                const cached = request.result as CachedStops | undefined;
+                if (!cached) {
+                    resolve(null);
+                    return;
+                }
+
+                // Check if cache is expired
+                if (Date.now() - cached.timestamp > ttl) {
+                    Logger.debug('Bus stops cache expired');
+                    resolve(null);
+                    return;
+                }
+
+                resolve(cached);
+            };
+
+            request.onerror = () => {
+                Logger.warn('Failed to read stops cache', request.error);
+                resolve(null);
+            };
+        });
+    } catch {
+        Logger.warn('IndexedDB not available for stops cache');
+        return null;
+    }
 }
 
 /**
@@ -67,51 +97,26 @@ export const BusStopCache = {
      * @returns Stops array or null if cache is empty/expired
      */
     async getStops(): Promise<BusStop[] | null> {
-        try {
-            const db = await openDatabase();
-            const config = getConfig();
-            const ttl = config.busStops.stopsCacheTtl;
-
-            return await new Promise(resolve => {
-                const transaction = db.transaction(STOPS_STORE, 'readonly');
-                const store = transaction.objectStore(STOPS_STORE);
-                const request = store.get('chelmsford-stops');
-
-                request.onsuccess = () => {
-                    const cached = request.result as CachedStops | undefined;
-                    if (!cached) {
-                        resolve(null);
-                        return;
-                    }
-
-                    // Check if cache is expired
-                    if (Date.now() - cached.timestamp > ttl) {
-                        Logger.debug('Bus stops cache expired');
-                        resolve(null);
-                        return;
-                    }
-
-                    Logger.debug('Loaded bus stops from cache', {
-                        count: cached.stops.length,
-                    });
-                    resolve(cached.stops);
-                };
-
-                request.onerror = () => {
-                    Logger.warn('Failed to read stops cache', request.error);
-                    resolve(null);
-                };
-            });
-        } catch {
-            Logger.warn('IndexedDB not available for stops cache');
-            return null;
+        const cached = await readCachedStops();
+        if (cached) {
+            Logger.debug('Loaded bus stops from cache', { count: cached.stops.length });
         }
+        return cached?.stops ?? null;
+    },
+
+    /**
+     * Get the cached spatial index over the bus stops
+     * @returns Index or null if cache is empty/expired, or was stored without one
+     */
+    async getSpatialIndex(): Promise<StopSpatialIndex | null> {
+        const cached = await readCachedStops();
+        return cached?.spatialIndex ?? null;
     },
 
     /**
-     * Store bus stops in cache
+     * Store bus stops in cache, with their spatial index if built
      */
-    async setStops(stops: BusStop[]): Promise<void> {
+    async setStops(stops: BusStop[], spatialIndex?: StopSpatialIndex): Promise<void> {
         try {
             const db = await openDatabase();
 
@@ -122,6 +127,7 @@ export const BusStopCache = {
                 const data: CachedStops = {
                     id: 'chelmsford-stops',
                     stops,
+                    spatialIndex,
                     timestamp: Date.now(),
                 };
 
@@ -142,6 +148,39 @@ export const BusStopCache = {
         }
     },
 
+    /**
+     * Add a spatial index to the cached stops it was built from
+     * Keeps the stops' timestamp, so they still expire when they were due to
+     */
+    async setSpatialIndex(spatialIndex: StopSpatialIndex): Promise<void> {
+        try {
+            const db = await openDatabase();
+
+            return await new Promise(resolve => {
+                const transaction = db.transaction(STOPS_STORE, 'readwrite');
+                const store = transaction.objectStore(STOPS_STORE);
+                const request = store.get('chelmsford-stops');
+
+                request.onsuccess = () => {
+                    const cached = request.result as CachedStops | undefined;
+                    if (cached) store.put({ ...cached, spatialIndex });
+                };
+
+                transaction.oncomplete = () => {
+                    Logger.debug('Bus stop spatial index cached');
+                    resolve();
+                };
+
+                transaction.onerror = () => {
+                    Logger.warn('Failed to cache spatial index', transaction.error);
+                    resolve();
+                };
+            });
+        } catch (error) {
+            Logger.warn('IndexedDB not available for caching spatial index', error);
+        }
+    },
+
     /**
      * Get cached departures for a stop
      * @returns Departures array or null if cache is empty/expired
@@ -223,6 +262,141 @@ export const BusStopCache = {
         }
     },
 
+    /**
+     * Get the cached timetable shard for a stop
+     * Shards don't expire by age - callers compare the version against the manifest
+     * @returns Cached shard or null if not cached
+     */
+    async getTimetableShard(atcoCode: string): Promise<CachedTimetableShard | null> {
+        try {
+            const db = await openDatabase();
+
+            return await new Promise(resolve => {
+                const transaction = db.transaction(TIMETABLE_STORE, 'readonly');
+                const store = transaction.objectStore(TIMETABLE_STORE);
+                const request = store.get(atcoCode);
+
+                request.onsuccess = () => {
+                    resolve((request.result as CachedTimetableShard | undefined) ?? null);
+                };
+
+                request.onerror = () => {
+                    Logger.warn('Failed to read timetable cache', request.error);
+                    resolve(null);
+                };
+            });
+        } catch {
+            Logger.warn('IndexedDB not available for timetable cache');
+            return null;
+        }
+    },
+
+    /**
+     * Store a stop's timetable shard in cache
+     */
+    async setTimetableShard(atcoCode: string, version: string, shard: GTFSData): Promise<void> {
+        try {
+            const db = await openDatabase();
+
+            return await new Promise((resolve, reject) => {
+                const transaction = db.transaction(TIMETABLE_STORE, 'readwrite');
+                const store = transaction.objectStore(TIMETABLE_STORE);
+
+                const data: CachedTimetableShard = {
+                    atcoCode,
+                    version,
+                    shard,
+                    timestamp: Date.now(),
+                };
+
+                const request = store.put(data);
+
+                request.onsuccess = () => {
+                    Logger.debug('Timetable shard cached', { atcoCode, version });
+                    resolve();
+                };
+
+                request.onerror = () => {
+                    Logger.warn('Failed to cache timetable shard', request.error);
+                    reject(new Error(request.error?.message ?? 'Failed to cache timetable shard'));
+                };
+            });
+        } catch (error) {
+            Logger.warn('IndexedDB not available for caching timetable shards', error);
+        }
+    },
+
+    /**
+     * Get the cached journey planning timetable
+     * Like shards, it doesn't expire by age - callers compare the version against the manifest
+     * @returns Cached timetable or null if not cached
+     */
+    async getTimetableNetwork(): Promise<CachedTimetableNetwork | null> {
+        try {
+            const db = await openDatabase();
+
+            return await new Promise(resolve => {
+                const transaction = db.transaction(NETWORK_STORE, 'readonly');
+                const store = transaction.objectStore(NETWORK_STORE);
+                const request = store.get('network');
+
+                request.onsuccess = () => {
+                    resolve((request.result as CachedTimetableNetwork | undefined) ?? null);
+                };
+
+                request.onerror = () => {
+                    Logger.warn('Failed to read journey planning timetable cache', request.error);
+                    resolve(null);
+                };
+            });
+        } catch {
+            Logger.warn('IndexedDB not available for journey planning timetable cache');
+            return null;
+        }
+    },
+
+    /**
+     * Store the journey planning timetable in cache
+     */
+    async setTimetableNetwork(version: string, network: GTFSNetwork): Promise<void> {
+        try {
+            const db = await openDatabase();
+
+            return await new Promise((resolve, reject) => {
+                const transaction = db.transaction(NETWORK_STORE, 'readwrite');
+                const store = transaction.objectStore(NETWORK_STORE);
+
+                const data: CachedTimetableNetwork = {
+                    id: 'network',
+                    version,
+                    network,
+                    timestamp: Date.now(),
+                };
+
+                const request = store.put(data);
+
+                request.onsuccess = () => {
+                    Logger.debug('Journey planning timetable cached', { version });
+                    resolve();
+                };
+
+                request.onerror = () => {
+                    Logger.warn('Failed to cache journey planning timetable', request.error);
+                    reject(
+                        new Error(
+                            request.error?.message ?? 'Failed to cache journey planning timetable'
+                        )
+                    );
+                };
+            });
+        } catch (error) {
+            Logger.warn(
+                'IndexedDB not available for caching the journey planning timetable',
+                error
+            );
+        }
+    },
+
     /**
      * Clear all cached data
      */
@@ -231,10 +405,15 @@ export const BusStopCache = {
             const db = await openDatabase();
 
             return await new Promise(resolve => {
-                const transaction = db.transaction([STOPS_STORE, DEPARTURES_STORE], 'readwrite');
+                const transaction = db.transaction(
+                    [STOPS_STORE, DEPARTURES_STORE, TIMETABLE_STORE, NETWORK_STORE],
+                    'readwrite'
+                );
 
                 transaction.objectStore(STOPS_STORE).clear();
                 transaction.objectStore(DEPARTURES_STORE).clear();
+                transaction.objectStore(TIMETABLE_STORE).clear();
+                transaction.objectStore(NETWORK_STORE).clear();
 
                 transaction.oncomplete = () => {
                     Logger.info('Cache cleared');
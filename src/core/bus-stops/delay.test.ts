@@ -0,0 +1,26 @@
+import { describe, it, expect } from 'vitest';
+import { getDelayFields } from './delay';
+
+describe('delay', () => {
+    describe('getDelayFields', () => {
+        it('should mark buses two or more minutes late as delayed', () => {
+            expect(getDelayFields('10:32', '10:36')).toEqual({
+                status: 'delayed',
+                scheduledDeparture: '10:32',
+                delayMinutes: 4,
+            });
+        });
+
+        it('should treat small delays and early running as on time', () => {
+            expect(getDelayFields('10:32', '10:33').status).toBe('on-time');
+            expect(getDelayFields('10:32', '10:30')).toMatchObject({
+                status: 'on-time',
+                delayMinutes: -2,
+            });
+        });
+
+        it('should fall back to on time when a time is unparseable', () => {
+            expect(getDelayFields('10:32', 'Due')).toEqual({ status: 'on-time' });
+        });
+    });
+});
@@ -0,0 +1,33 @@
+/**
+ * Bus Delay Status
+ * Derives a bus departure's status from its scheduled and expected times,
+ * as parseEtd does for trains
+ */
+
+import { getDelayMinutes } from '@utils/time';
+import type { Departure } from '@/types';
+
+/** Buses running at least this many minutes late are shown as delayed */
+const DELAY_THRESHOLD_MINUTES = 2;
+
+/** Delay-related fields of a departure */
+type DelayFields = Pick<Departure, 'status' | 'scheduledDeparture' | 'delayMinutes'>;
+
+/**
+ * Compare scheduled and expected times for a live departure
+ * @param scheduled - Timetabled time ("HH:MM")
+ * @param expected - Real-time expected time ("HH:MM")
+ */
+export function getDelayFields(scheduled: string, expected: string): DelayFields {
+    const delayMinutes = getDelayMinutes(scheduled, expected);
+
+    if (isNaN(delayMinutes)) {
+        return { status: 'on-time' };
+    }
+
+    return {
+        status: delayMinutes >= DELAY_THRESHOLD_MINUTES ? 'delayed' : 'on-time',
+        scheduledDeparture: scheduled,
+        delayMinutes,
+    };
+}
@@ -0,0 +1,134 @@
+import { describe, it, expect } from 'vitest';
+import { mergeDepartures } from './departure-merge';
+import type { Departure } from '@/types';
+
+function departure(overrides: Partial<Departure>): Departure {
+    return {
+        line: '42',
+        destination: 'Broomfield',
+        expectedDeparture: '09:05',
+        minutesUntil: 5,
+        status: 'on-time',
+        isRealTime: true,
+        ...overrides,
+    };
+}
+
+describe('departure-merge', () => {
+    describe('mergeDepartures', () => {
+        it('should keep every operator at a shared stop', () => {
+            const firstBus = [departure({ line: '42', source: 'first-bus' })];
+            const bods = [
+                departure({ line: '100', operatorName: 'Arriva', source: 'siri-vm' }),
+                departure({ line: '42', minutesUntil: 20, isRealTime: false, source: 'gtfs' }),
+            ];
+
+            const merged = mergeDepartures([firstBus, bods], 5);
+
+            expect(merged.map(d => [d.line, d.source])).toEqual([
+                ['42', 'first-bus'],
+                ['100', 'siri-vm'],
+                ['42', 'gtfs'],
+            ]);
+        });
+
+        it('should prefer a real-time report of a trip over its timetable entry', () => {
+            const merged = mergeDepartures(
+                [
+                    [
+                        departure({
+                            isRealTime: false,
+                            status: 'scheduled',
+                            scheduledDeparture: '09:00',
+                            source: 'gtfs',
+                        }),
+                    ],
+                    [departure({ line: 'FESX:42', minutesUntil: 7, source: 'siri-vm' })],
+                ],
+                5
+            );
+
+            expect(merged).toHaveLength(1);
+            expect(merged[0].source).toBe('siri-vm');
+            expect(merged[0].isRealTime).toBe(true);
+        });
+
+        it('should prefer the earlier source when both report a trip live', () => {
+            const firstBus = [departure({ source: 'first-bus', scheduledDeparture: '09:00' })];
+            const siriVm = [departure({ source: 'siri-vm', scheduledDeparture: '09:00' })];
+
+            expect(mergeDepartures([firstBus, siriVm], 5).map(d => d.source)).toEqual([
+                'first-bus',
+            ]);
+            expect(mergeDepartures([siriVm, firstBus], 5).map(d => d.source)).toEqual(['siri-vm']);
+        });
+
+        it('should keep consecutive trips on the same line apart', () => {
+            const merged = mergeDepartures(
+                [
+                    [departure({ source: 'first-bus', scheduledDeparture: '09:00' })],
+                    [
+                        departure({
+                            minutesUntil: 15,
+                            isRealTime: false,
+                            scheduledDeparture: '09:15',
+                            source: 'gtfs',
+                        }),
+                    ],
+                ],
+                5
+            );
+
+            expect(merged).toHaveLength(2);
+        });
+
+        it('should derive delay from the timetable when the live source has none', () => {
+            const merged = mergeDepartures(
+                [
+                    [
+                        departure({
+                            expectedDeparture: '09:06',
+                            minutesUntil: 6,
+                            source: 'first-bus',
+                        }),
+                    ],
+                    [
+                        departure({
+                            expectedDeparture: '09:03',
+                            minutesUntil: 3,
+                            isRealTime: false,
+                            status: 'scheduled',
+                            scheduledDeparture: '09:03',
+                            source: 'gtfs',
+                        }),
+                    ],
+                ],
+                5
+            );
+
+            expect(merged).toEqual([
+                expect.objectContaining({
+                    source: 'first-bus',
+                    status: 'delayed',
+                    scheduledDeparture: '09:03',
+                    delayMinutes: 3,
+                }),
+            ]);
+        });
+
+        it('should sort by time and apply the limit', () => {
+            const merged = mergeDepartures(
+                [
+                    [departure({ line: '1', minutesUntil: 12, source: 'first-bus' })],
+                    [
+                        departure({ line: '2', minutesUntil: 2, source: 'siri-vm' }),
+                        departure({ line: '3', minutesUntil: 8, source: 'siri-vm' }),
+                    ],
+                ],
+                2
+            );
+
+            expect(merged.map(d => d.line)).toEqual(['2', '3']);
+        });
+    });
+});
@@ -0,0 +1,111 @@
+/**
+ * Departure Merge
+ * Combines departures from every source into one list, so stops shared by
+ * several operators show every bus rather than only the first source's
+ */
+
+import { getDelayMinutes } from '@utils/time';
+import { getDelayFields } from './delay';
+import { normalizeLineRef } from './vehicle-matcher';
+import type { Departure } from '@/types';
+
+/** Same-line departures whose timetabled times are this close are the same trip (minutes) */
+const SAME_TRIP_SCHEDULED_WINDOW = 1;
+
+/** Same-line departures with no timetabled time, expected this close, are the same trip (minutes) */
+const SAME_TRIP_EXPECTED_WINDOW = 3;
+
+/** Departure with the index of the source list it came from */
+interface SourcedDeparture {
+    departure: Departure;
+    sourceIndex: number;
+}
+
+/** Merged trip and every source that reported it */
+interface MergedTrip {
+    departure: Departure;
+    sourceIndexes: Set<number>;
+}
+
+/**
+ * Check whether a departure from another source describes an already merged trip
+ */
+function isSameTrip(trip: MergedTrip, candidate: SourcedDeparture): boolean {
+    // Each source already lists distinct trips
+    if (trip.sourceIndexes.has(candidate.sourceIndex)) return false;
+
+    const a = trip.departure;
+    const b = candidate.departure;
+    if (normalizeLineRef(a.line) !== normalizeLineRef(b.line)) return false;
+
+    if (a.scheduledDeparture && b.scheduledDeparture) {
+        const diff = getDelayMinutes(a.scheduledDeparture, b.scheduledDeparture);
+        return Math.abs(diff) <= SAME_TRIP_SCHEDULED_WINDOW;
+    }
+
+    return Math.abs(a.minutesUntil - b.minutesUntil) <= SAME_TRIP_EXPECTED_WINDOW;
+}
+
+/**
+ * Fill gaps in the preferred departure from a duplicate of the same trip
+ * (e.g. a live prediction without a timetabled time gains one from GTFS,
+ * and the trip and vehicle it's running are kept for tracking)
+ */
+function combine(preferred: Departure, duplicate: Departure): Departure {
+    const combined: Departure = {
+        ...preferred,
+        tripId: preferred.tripId ?? duplicate.tripId,
+        vehicleRef: preferred.vehicleRef ?? duplicate.vehicleRef,
+    };
+
+    if (preferred.scheduledDeparture || !duplicate.scheduledDeparture) {
+        return combined;
+    }
+
+    if (!preferred.isRealTime || preferred.status === 'cancelled') {
+        return { ...combined, scheduledDeparture: duplicate.scheduledDeparture };
+    }
+
+    return {
+        ...combined,
+        ...getDelayFields(duplicate.scheduledDeparture, preferred.expectedDeparture),
+    };
+}
+
+/**
+ * Merge departures from several sources
+ * Duplicates of the same trip collapse to the best report: real-time over
+ * scheduled, then the earlier source in the list
+ * @param sources - Departure lists, one per source, highest priority first
+ * @param limit - Maximum number of departures to return
+ * @returns Departures sorted by minutes until departure
+ */
+export function mergeDepartures(sources: Departure[][], limit: number): Departure[] {
+    const rank = ({ departure, sourceIndex }: SourcedDeparture) =>
+        (departure.isRealTime ? 0 : sources.length) + sourceIndex;
+
+    const candidates = sources
+        .flatMap((departures, sourceIndex) =>
+            departures.map(departure => ({ departure, sourceIndex }))
+        )
+        .sort((a, b) => rank(a) - rank(b));
+    const merged: MergedTrip[] = [];
+
+    for (const candidate of candidates) {
+        const trip = merged.find(existing => isSameTrip(existing, candidate));
+        if (trip) {
+            trip.departure = combine(trip.departure, candidate.departure);
+            trip.sourceIndexes.add(candidate.sourceIndex);
+        } else {
+            merged.push({
+                departure: candidate.departure,
+                sourceIndexes: new Set([candidate.sourceIndex]),
+            });
+        }
+    }
+
+    return merged
+        .map(trip => trip.departure)
+        .sort((a, b) => a.minutesUntil - b.minutesUntil)
+        .slice(0, limit);
+}
@@ -0,0 +1,126 @@
+import { describe, it, expect, beforeEach, afterAll } from 'vitest';
+import {
+    getDepartureProviderHealth,
+    getDepartureProviders,
+    type ProviderContext,
+} from './departure-providers';
+import { ConfigSchema } from '@config/schema';
+import { setConfig, resetConfig } from '@config/index';
+import { resetAllCircuitBreakers, withCircuitBreaker } from '@utils/circuit-breaker';
+import type { ScheduledDeparture } from '@api/bods-gtfs';
+
+const STOP = {
+    atcoCode: '150033038003',
+    commonName: 'Chelmsford Bus Station',
+    coordinates: { latitude: 51.7361, longitude: 0.469 },
+};
+
+function scheduled(line: string, operatorCode: string): ScheduledDeparture {
+    return {
+        tripId: `${operatorCode}-${line}`,
+        departureTime: '23:50:00',
+        scheduledAt: new Date(Date.now() + 10 * 60000),
+        serviceDate: '20250611',
+        line,
+        destination: 'Broomfield',
+        operatorCode,
+        stopSequence: 5,
+        serviceId: 'DAILY',
+    };
+}
+
+const context: ProviderContext = {
+    stop: STOP,
+    getVehicles: () => Promise.resolve([]),
+    getScheduledDepartures: () =>
+        Promise.resolve([scheduled('42', 'FESX'), scheduled('100', 'ARBB')]),
+};
+
+function configureProviders(departureProviders: unknown[]): void {
+    setConfig(ConfigSchema.parse({ busStops: { departureProviders } }));
+}
+
+describe('departure-providers', () => {
+    beforeEach(() => {
+        resetAllCircuitBreakers();
+    });
+
+    afterAll(() => {
+        resetAllCircuitBreakers();
+        resetConfig();
+    });
+
+    describe('getDepartureProviders', () => {
+        it('should return enabled providers in priority order', () => {
+            configureProviders([
+                { id: 'timetable', type: 'gtfs', priority: 5 },
+                { id: 'live', type: 'siri-vm', priority: 1 },
+                { id: 'first', type: 'first-bus', enabled: false },
+            ]);
+
+            expect(getDepartureProviders().map(p => p.id)).toEqual(['live', 'timetable']);
+        });
+
+        it('should tag departures with the provider ID and keep only its operators', async () => {
+            configureProviders([{ id: 'arriva-timetable', type: 'gtfs', operators: ['arbb'] }]);
+            const [provider] = getDepartureProviders();
+
+            const departures = await provider.fetchDepartures(context, 5);
+
+            expect(provider.capabilities).toEqual({ operators: ['ARBB'], realTime: false });
+            expect(departures.map(d => [d.line, d.source])).toEqual([['100', 'arriva-timetable']]);
+        });
+
+        it('should return only the soonest departures up to the limit', async () => {
+            configureProviders([{ id: 'timetable', type: 'gtfs' }]);
+            const [provider] = getDepartureProviders();
+            const sooner = {
+                ...scheduled('53', 'FESX'),
+                scheduledAt: new Date(Date.now() + 5 * 60000),
+            };
+
+            const departures = await provider.fetchDepartures(
+                {
+                    ...context,
+                    getScheduledDepartures: () =>
+                        Promise.resolve([scheduled('42', 'FESX'), sooner]),
+                },
+                1
+            );
+
+            expect(departures.map(d => d.line)).toEqual(['53']);
+        });
+    });
+
+    describe('getDepartureProviderHealth', () => {
+        it('should report circuit state for every configured provider', async () => {
+            configureProviders([
+                { id: 'timetable', type: 'gtfs' },
+                { id: 'first', type: 'first-bus', enabled: false },
+            ]);
+
+            const failing = () => Promise.reject(new Error('offline'));
+            for (let i = 0; i < 3; i++) {
+                await withCircuitBreaker('bods-gtfs', failing).catch(() => undefined);
+            }
+
+            const health = getDepartureProviderHealth();
+
+            expect(health.map(h => [h.id, h.enabled, h.available])).toEqual([
+                ['timetable', true, false],
+                ['first', false, true],
+            ]);
+            expect(health[0].circuit.state).toBe('OPEN');
+        });
+
+        it('should use the default providers when none are configured', () => {
+            setConfig(ConfigSchema.parse({}));
+
+            expect(getDepartureProviderHealth().map(h => h.id)).toEqual([
+                'first-bus',
+                'siri-vm',
+                'gtfs',
+            ]);
+        });
+    });
+});
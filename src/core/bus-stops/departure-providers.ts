@@ -0,0 +1,345 @@
+/**
+ * Departure Providers
+ * Each departure feed is a provider with declared capabilities. Providers are
+ * built from busStops.departureProviders in app.config.json, so feeds can be
+ * added, reprioritised or disabled without touching the calculator.
+ */
+
+import { Logger } from '@utils/logger';
+import { formatTimeHHMM } from '@utils/time';
+import { getCircuitBreakerStatus } from '@utils/helpers';
+import { getConfig } from '@config/index';
+import { fetchFirstBusDepartures } from '@api/first-bus';
+import type { ScheduledDeparture } from '@api/bods-gtfs';
+import type { DepartureProviderConfig } from '@config/schema';
+import { GeolocationService } from '@core/geolocation';
+import { getDelayFields } from './delay';
+import {
+    estimateVehicleEta,
+    isMovingAwayFromStop,
+    matchVehiclesToDepartures,
+    normalizeLineRef,
+} from './vehicle-matcher';
+import type { BusStop, Coordinates, Departure, VehicleActivity } from '@/types';
+
+/** What a provider can supply */
+interface DepartureProviderCapabilities {
+    /** Operator NOCs covered (undefined for every operator) */
+    operators?: string[];
+    /** True for live predictions, false for timetabled times */
+    realTime: boolean;
+}
+
+/**
+ * Data shared by every provider for one stop lookup
+ * Each source is fetched at most once however many providers use it
+ */
+export interface ProviderContext {
+    stop: BusStop;
+    /** Live vehicles near the stop (empty if unavailable) */
+    getVehicles(): Promise<VehicleActivity[]>;
+    /** Timetabled departures at the stop (empty if no timetable) */
+    getScheduledDepartures(): Promise<ScheduledDeparture[]>;
+}
+
+/** A source of departures for a stop */
+export interface DepartureProvider {
+    id: string;
+    /** Lower numbers win when providers report the same trip */
+    priority: number;
+    capabilities: DepartureProviderCapabilities;
+    /** Circuit breaker key of the API behind this provider (see resilient-fetch) */
+    circuitKey: string;
+    /** Fetch up to `limit` departures, soonest first */
+    fetchDepartures(context: ProviderContext, limit: number): Promise<Departure[]>;
+}
+
+/** Provider status for monitoring */
+export interface DepartureProviderHealth {
+    id: string;
+    enabled: boolean;
+    priority: number;
+    capabilities: DepartureProviderCapabilities;
+    circuit: ReturnType<typeof getCircuitBreakerStatus>;
+    /** False while the provider's circuit is open */
+    available: boolean;
+}
+
+/** Provider implementation, selected by the config entry's type */
+type ProviderImplementation = Pick<DepartureProvider, 'circuitKey' | 'fetchDepartures'> & {
+    realTime: boolean;
+};
+
+/**
+ * Enrich a departure's destination using SIRI-VM data if available
+ */
+function enrichDestinationFromSiriVm(departure: Departure, vehicles: VehicleActivity[]): string {
+    const normalizedLine = normalizeLineRef(departure.line);
+
+    // Find matching vehicle by line
+    const matchingVehicle = vehicles.find(
+        v => normalizeLineRef(v.lineRef) === normalizedLine && v.destinationName
+    );
+
+    if (!matchingVehicle?.destinationName) {
+        return departure.destination;
+    }
+
+    const siriDest = matchingVehicle.destinationName;
+    const firstBusDest = departure.destination;
+
+    // Use SIRI-VM destination if it's longer (likely more complete)
+    if (siriDest.length > firstBusDest.length) {
+        Logger.debug('Enriched destination', { original: firstBusDest, enriched: siriDest });
+        return siriDest;
+    }
+
+    return departure.destination;
+}
+
+/**
+ * Get departures from real-time data only (no timetable)
+ * This is a fallback when GTFS data is not available
+ */
+function getRealTimeOnlyDepartures(
+    vehicles: VehicleActivity[],
+    stopCoords: Coordinates
+): Departure[] {
+    const departures: Departure[] = [];
+
+    // Group vehicles by line and get nearest one for each line
+    const vehiclesByLine = new Map<string, VehicleActivity>();
+
+    for (const vehicle of vehicles) {
+        // A bus heading away has already served this stop
+        if (isMovingAwayFromStop(vehicle, stopCoords)) continue;
+
+        const line = normalizeLineRef(vehicle.lineRef);
+        const existing = vehiclesByLine.get(line);
+
+        if (!existing) {
+            vehiclesByLine.set(line, vehicle);
+        } else {
+            // Keep the closer vehicle
+            const existingDistance = GeolocationService.calculateDistance(
+                { latitude: existing.latitude, longitude: existing.longitude },
+                stopCoords
+            );
+            const newDistance = GeolocationService.calculateDistance(
+                { latitude: vehicle.latitude, longitude: vehicle.longitude },
+                stopCoords
+            );
+            if (newDistance < existingDistance) {
+                vehiclesByLine.set(line, vehicle);
+            }
+        }
+    }
+
+    // Create departures from nearest vehicles
+    for (const [line, vehicle] of vehiclesByLine) {
+        const eta = estimateVehicleEta(vehicle, stopCoords);
+        const minutesUntil = Math.round((eta.getTime() - Date.now()) / 60000);
+
+        departures.push({
+            line,
+            destination: vehicle.destinationName || 'Unknown',
+            expectedDeparture: formatTimeHHMM(eta),
+            minutesUntil: Math.max(0, minutesUntil),
+            // No timetable to compare against
+            status: 'unknown',
+            operatorName: undefined,
+            operatorCode: vehicle.operatorRef || undefined,
+            isRealTime: true,
+            vehicleRef: vehicle.vehicleRef || undefined,
+            // No timetable to place the vehicle on its route - straight-line guess
+            confidence: 'low',
+        });
+    }
+
+    return departures;
+}
+
+/** First Bus API - operator predictions, with destinations filled in from SIRI-VM */
+const firstBusProvider: ProviderImplementation = {
+    realTime: true,
+    circuitKey: 'first-bus',
+
+    async fetchDepartures(context, limit) {
+        const [departures, vehicles] = await Promise.all([
+            fetchFirstBusDepartures(context.stop.atcoCode, limit),
+            context.getVehicles(),
+        ]);
+
+        if (vehicles.length === 0) return departures;
+
+        return departures.map(dep => ({
+            ...dep,
+            destination: enrichDestinationFromSiriVm(dep, vehicles),
+        }));
+    },
+};
+
+/** BODS SIRI-VM vehicles matched to GTFS trips, with ETAs along the route */
+const siriVmProvider: ProviderImplementation = {
+    realTime: true,
+    circuitKey: 'bods-siri-vm',
+
+    async fetchDepartures(context) {
+        const [scheduledDepartures, vehicles] = await Promise.all([
+            context.getScheduledDepartures(),
+            context.getVehicles(),
+        ]);
+        const stopCoords = context.stop.coordinates;
+
+        // No timetable for this stop - fall back to real-time data only
+        if (scheduledDepartures.length === 0) {
+            Logger.debug('No scheduled departures found, using real-time only');
+            return getRealTimeOnlyDepartures(vehicles, stopCoords);
+        }
+
+        // Pair vehicles with scheduled trips (each vehicle serves at most one departure)
+        const matches = matchVehiclesToDepartures(scheduledDepartures, vehicles, stopCoords);
+        const departures: Departure[] = [];
+
+        for (const scheduled of scheduledDepartures) {
+            const match = matches.get(scheduled);
+            if (!match) continue;
+
+            // Real-time ETA based on vehicle position along the route
+            const eta = match.eta;
+
+            departures.push({
+                line: scheduled.line,
+                destination: scheduled.destination,
+                expectedDeparture: formatTimeHHMM(eta),
+                minutesUntil: Math.round((eta.getTime() - Date.now()) / 60000),
+                ...getDelayFields(formatTimeHHMM(scheduled.scheduledAt), formatTimeHHMM(eta)),
+                operatorName: scheduled.operatorName,
+                operatorCode: scheduled.operatorCode,
+                isRealTime: true,
+                confidence: match.confidence,
+                tripId: scheduled.tripId,
+                vehicleRef: match.vehicle.vehicleRef || undefined,
+            });
+        }
+
+        return departures;
+    },
+};
+
+/** GTFS timetable - scheduled times for every operator */
+const gtfsProvider: ProviderImplementation = {
+    realTime: false,
+    circuitKey: 'bods-gtfs',
+
+    async fetchDepartures(context) {
+        const departures: Departure[] = [];
+
+        for (const scheduled of await context.getScheduledDepartures()) {
+            // Timetable already resolved against its service date
+            const scheduledTime = scheduled.scheduledAt;
+            const minutesUntil = Math.round((scheduledTime.getTime() - Date.now()) / 60000);
+
+            // Skip if already departed
+            if (minutesUntil < -2) continue;
+
+            departures.push({
+                line: scheduled.line,
+                destination: scheduled.destination,
+                expectedDeparture: formatTimeHHMM(scheduledTime),
+                minutesUntil: Math.max(0, minutesUntil),
+                status: 'scheduled',
+                // Lets the merge recognise this trip in other providers
+                scheduledDeparture: formatTimeHHMM(scheduledTime),
+                operatorName: scheduled.operatorName,
+                operatorCode: scheduled.operatorCode,
+                isRealTime: false,
+                tripId: scheduled.tripId,
+            });
+        }
+
+        return departures;
+    },
+};
+
+const IMPLEMENTATIONS: Record<DepartureProviderConfig['type'], ProviderImplementation> = {
+    'first-bus': firstBusProvider,
+    'siri-vm': siriVmProvider,
+    gtfs: gtfsProvider,
+};
+
+/**
+ * Build a provider from its config entry
+ * Departures are tagged with the provider ID, limited to its operators and
+ * cut to the soonest `limit`, whether or not the source applies the limit itself
+ */
+function createDepartureProvider(config: DepartureProviderConfig): DepartureProvider {
+    const implementation = IMPLEMENTATIONS[config.type];
+    const operators = config.operators?.map(noc => noc.trim().toUpperCase());
+
+    return {
+        id: config.id,
+        priority: config.priority,
+        capabilities: { operators, realTime: implementation.realTime },
+        circuitKey: implementation.circuitKey,
+
+        async fetchDepartures(context, limit) {
+            const departures = await implementation.fetchDepartures(context, limit);
+            return departures
+                .filter(
+                    dep =>
+                        !operators ||
+                        !dep.operatorCode ||
+                        operators.includes(dep.operatorCode.toUpperCase())
+                )
+                .sort((a, b) => a.minutesUntil - b.minutesUntil)
+                .slice(0, limit)
+                .map(dep => ({ ...dep, source: config.id }));
+        },
+    };
+}
+
+/**
+ * Check whether a provider's circuit lets requests through
+ * An open circuit whose retry time has passed will let a trial request through
+ */
+function isCircuitAvailable(circuit: ReturnType<typeof getCircuitBreakerStatus>): boolean {
+    return circuit.state !== 'OPEN' || Date.now() >= circuit.nextAttemptTime;
+}
+
+/**
+ * Get the enabled providers from config, highest priority first
+ */
+export function getDepartureProviders(): DepartureProvider[] {
+    return getConfig()
+        .busStops.departureProviders.filter(config => config.enabled)
+        .map(createDepartureProvider)
+        .sort((a, b) => a.priority - b.priority);
+}
+
+/**
+ * Check whether a provider can currently be queried
+ */
+export function isProviderAvailable(provider: DepartureProvider): boolean {
+    return isCircuitAvailable(getCircuitBreakerStatus(provider.circuitKey));
+}
+
+/**
+ * Get the status of every configured provider, including disabled ones
+ */
+export function getDepartureProviderHealth(): DepartureProviderHealth[] {
+    return getConfig()
+        .busStops.departureProviders.map(config => {
+            const provider = createDepartureProvider(config);
+            const circuit = getCircuitBreakerStatus(provider.circuitKey);
+            return {
+                id: provider.id,
+                enabled: config.enabled,
+                priority: provider.priority,
+                capabilities: provider.capabilities,
+                circuit,
+                available: isCircuitAvailable(circuit),
+            };
+        })
+        .sort((a, b) => a.priority - b.priority);
+}
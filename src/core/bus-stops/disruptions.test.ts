@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import { disruptionsForBoard } from './disruptions';
+import type { DepartureBoard, Departure, Disruption } from '@/types';
+
+function disruption(id: string, overrides: Partial<Disruption>): Disruption {
+    return { id, summary: id, lines: [], operators: [], stops: [], ...overrides };
+}
+
+function departure(line: string, operatorCode?: string): Departure {
+    return {
+        line,
+        destination: 'City Centre',
+        expectedDeparture: '08:05',
+        minutesUntil: 5,
+        status: 'on-time',
+        operatorCode,
+    };
+}
+
+const BOARD: DepartureBoard = {
+    stop: {
+        atcoCode: '150033038003',
+        commonName: 'Springfield Road',
+        coordinates: { latitude: 51.74, longitude: 0.49 },
+        distanceMeters: 50,
+    },
+    departures: [departure('42', 'FESX'), departure('45')],
+    lastUpdated: 0,
+    isStale: false,
+};
+
+function matched(disruptions: Disruption[]): string[] {
+    return disruptionsForBoard(disruptions, BOARD).map(d => d.id);
+}
+
+describe('disruptions', () => {
+    it('should match disruptions naming the stop, most serious first', () => {
+        expect(
+            matched([
+                disruption('SLIGHT', { stops: ['150033038003'], severity: 'slight' }),
+                disruption('ELSEWHERE', { stops: ['150099999999'] }),
+                disruption('SEVERE', { stops: ['150033038003'], severity: 'severe' }),
+            ])
+        ).toEqual(['SEVERE', 'SLIGHT']);
+    });
+
+    it("should match a line only with the departure's operator or stops in the same area", () => {
+        expect(
+            matched([
+                disruption('OPERATOR', { lines: ['42'], operators: ['FESX'] }),
+                disruption('OTHER_OPERATOR', { lines: ['42'], operators: ['MCHR'] }),
+                disruption('SAME_AREA', { lines: ['45'], stops: ['150099999999'] }),
+                disruption('OTHER_AREA', { lines: ['45'], stops: ['180012345678'] }),
+                disruption('LINE_ONLY', { lines: ['45'] }),
+                disruption('OTHER_LINE', { lines: ['54'], operators: ['FESX'] }),
+            ])
+        ).toEqual(['OPERATOR', 'SAME_AREA']);
+    });
+});
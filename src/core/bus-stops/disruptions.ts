@@ -0,0 +1,60 @@
+/**
+ * Disruptions
+ * Matches SIRI-SX situations to the stops and lines on a departure board
+ */
+
+import type { DepartureBoard, Disruption } from '@/types';
+
+/** Order to list disruptions in, most serious first */
+const SEVERITY_ORDER = ['verySevere', 'severe', 'normal', 'slight', 'verySlight'];
+
+/**
+ * Administrative area of an ATCO code (e.g. "150" for Essex)
+ */
+function atcoArea(atcoCode: string): string {
+    return atcoCode.slice(0, 3);
+}
+
+/**
+ * Check whether a disruption is about a line at this stop
+ * Line numbers repeat across the country, so the disruption has to name the
+ * departure's operator, or stops in the same area as this one.
+ */
+function affectsLineAtStop(disruption: Disruption, board: DepartureBoard): boolean {
+    const lines = new Set(disruption.lines);
+    const area = atcoArea(board.stop.atcoCode);
+    const sameArea = disruption.stops.some(stop => atcoArea(stop) === area);
+
+    return board.departures.some(departure => {
+        if (!lines.has(departure.line)) return false;
+        if (departure.operatorCode && disruption.operators.length > 0) {
+            return disruption.operators.includes(departure.operatorCode);
+        }
+        return sameArea;
+    });
+}
+
+/**
+ * Sort disruptions most serious first
+ */
+export function sortDisruptions(disruptions: Disruption[]): Disruption[] {
+    const rank = (d: Disruption) => {
+        const index = SEVERITY_ORDER.indexOf(d.severity ?? 'normal');
+        return index === -1 ? SEVERITY_ORDER.indexOf('normal') : index;
+    };
+    return [...disruptions].sort((a, b) => rank(a) - rank(b));
+}
+
+/**
+ * Find the disruptions affecting a departure board's stop or its lines
+ */
+export function disruptionsForBoard(
+    disruptions: Disruption[],
+    board: DepartureBoard
+): Disruption[] {
+    return sortDisruptions(
+        disruptions.filter(
+            d => d.stops.includes(board.stop.atcoCode) || affectsLineAtStop(d, board)
+        )
+    );
+}
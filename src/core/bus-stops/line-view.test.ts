@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest';
+import { buildLineView } from './line-view';
+import type { GTFSLine, VehicleActivity } from '@/types';
+
+const NOW = new Date(2025, 5, 11, 9, 0);
+
+/** Roughly one kilometre of latitude */
+const KM = 0.009;
+
+function stop(stopId: string, kmNorth: number) {
+    return { stopId, latitude: 51.7 + kmNorth * KM, longitude: 0.47 };
+}
+
+const LINE: GTFSLine = {
+    line: '42',
+    operatorName: 'First Essex',
+    directions: [
+        {
+            directionId: 0,
+            destination: 'Broomfield',
+            stops: [stop('CENTRE', 0), stop('MIDDLE', 1), stop('BROOMFIELD', 2)],
+        },
+        {
+            directionId: 1,
+            destination: 'City Centre',
+            stops: [stop('BROOMFIELD', 2), stop('MIDDLE', 1), stop('CENTRE', 0)],
+        },
+    ],
+};
+
+function vehicle(
+    vehicleRef: string,
+    kmNorth: number,
+    overrides: Partial<VehicleActivity> = {}
+): VehicleActivity {
+    return {
+        recordedAtTime: new Date(NOW.getTime() - 20000),
+        validUntilTime: new Date(NOW.getTime() + 300000),
+        vehicleRef,
+        lineRef: '42',
+        directionRef: 'outbound',
+        operatorRef: 'FESX',
+        latitude: 51.7 + kmNorth * KM,
+        longitude: 0.47,
+        ...overrides,
+    };
+}
+
+describe('line-view', () => {
+    describe('buildLineView', () => {
+        it('should place each vehicle between stops on its direction', () => {
+            const view = buildLineView(
+                LINE,
+                [
+                    vehicle('bus-2', 1.8),
+                    vehicle('bus-1', 0.25),
+                    vehicle('bus-3', 1.5, { directionRef: 'inbound' }),
+                ],
+                new Map([['MIDDLE', 'Springfield Road']]),
+                NOW
+            );
+
+            const [outbound, inbound] = view.directions;
+            expect(outbound.stops.map(s => s.name)).toEqual([
+                'CENTRE',
+                'Springfield Road',
+                'BROOMFIELD',
+            ]);
+            expect(outbound.vehicles.map(v => [v.vehicle.vehicleRef, v.segment])).toEqual([
+                ['bus-1', 0],
+                ['bus-2', 1],
+            ]);
+            expect(outbound.vehicles[0].fraction).toBeCloseTo(0.25, 1);
+            expect(inbound.vehicles.map(v => [v.vehicle.vehicleRef, v.segment])).toEqual([
+                ['bus-3', 0],
+            ]);
+            expect(view.unplacedVehicles).toBe(0);
+        });
+
+        it('should ignore other lines and count vehicles away from the route', () => {
+            const view = buildLineView(
+                LINE,
+                [
+                    vehicle('other-line', 1, { lineRef: '54' }),
+                    vehicle('diverted', 1, { longitude: 0.52 }),
+                ],
+                new Map(),
+                NOW
+            );
+
+            expect(view.directions.flatMap(d => d.vehicles)).toEqual([]);
+            expect(view.unplacedVehicles).toBe(1);
+        });
+
+        it('should flag vehicles whose position is out of date', () => {
+            const view = buildLineView(
+                LINE,
+                [vehicle('bus-1', 0.5, { recordedAtTime: new Date(NOW.getTime() - 180000) })],
+                new Map(),
+                NOW
+            );
+
+            expect(view.directions[0].vehicles[0].freshness).toBe('stale');
+        });
+    });
+});
@@ -0,0 +1,156 @@
+/**
+ * Line View
+ * Lists a line's stops in sequence for each direction, with live vehicles
+ * snapped onto the segments between stops
+ */
+
+import { Logger } from '@utils/logger';
+import { fetchVehiclesNear } from '@api/bods-siri-vm';
+import { loadLinePattern } from '@api/bods-gtfs';
+import { GeolocationService } from '@core/geolocation';
+import { BusStopCache } from './cache';
+import { snapToPattern, type PatternPosition } from './route-eta';
+import { normalizeLineRef, toDirectionId } from './vehicle-matcher';
+import { getPositionFreshness, type PositionFreshness } from './vehicle-tracking';
+import type { Coordinates, GTFSLine, GTFSLineDirection, VehicleActivity } from '@/types';
+
+/** Extra search radius around the line's stops when fetching vehicles (meters) */
+const VEHICLE_SEARCH_MARGIN = 1000;
+
+/** Live vehicle placed between two stops */
+interface LineVehicle extends Pick<PatternPosition, 'segment' | 'fraction'> {
+    vehicle: VehicleActivity;
+    freshness: PositionFreshness;
+}
+
+/** One direction of a line, with the buses currently running it */
+interface LineViewDirection {
+    directionId?: number;
+    destination: string;
+    stops: { stopId: string; name: string }[];
+    /** Vehicles in order along the route */
+    vehicles: LineVehicle[];
+}
+
+/** Every stop and live vehicle on a line */
+export interface LineView {
+    line: string;
+    operatorName?: string;
+    directions: LineViewDirection[];
+    /** Vehicles reporting this line that couldn't be placed on any direction */
+    unplacedVehicles: number;
+}
+
+/**
+ * Snap a vehicle onto the direction it's most likely running
+ * Directions matching the vehicle's DirectionRef are preferred when known
+ * @returns Index of the direction and the snapped position, or null if off route
+ */
+function placeVehicle(
+    directions: GTFSLineDirection[],
+    vehicle: VehicleActivity
+): { direction: number; position: PatternPosition } | null {
+    const position = { latitude: vehicle.latitude, longitude: vehicle.longitude };
+    const directionId = toDirectionId(vehicle.directionRef);
+    const matchesDirection = (d: GTFSLineDirection) =>
+        directionId === undefined || d.directionId === undefined || d.directionId === directionId;
+
+    let best: { direction: number; position: PatternPosition } | null = null;
+
+    directions.forEach((direction, index) => {
+        if (!matchesDirection(direction)) return;
+        const snapped = snapToPattern(direction.stops, position);
+        if (snapped && (!best || snapped.distance < best.position.distance)) {
+            best = { direction: index, position: snapped };
+        }
+    });
+
+    return best;
+}
+
+/**
+ * Place live vehicles on a line's stop patterns
+ * @param line - Line stop patterns
+ * @param vehicles - Live vehicles (other lines are ignored)
+ * @param stopNames - Stop names indexed by ATCO code
+ * @param now - Current time
+ */
+export function buildLineView(
+    line: GTFSLine,
+    vehicles: VehicleActivity[],
+    stopNames: Map<string, string>,
+    now = new Date()
+): LineView {
+    const directions: LineViewDirection[] = line.directions.map(direction => ({
+        directionId: direction.directionId,
+        destination: direction.destination,
+        stops: direction.stops.map(stop => ({
+            stopId: stop.stopId,
+            name: stopNames.get(stop.stopId) ?? stop.stopId,
+        })),
+        vehicles: [],
+    }));
+
+    const lineRef = normalizeLineRef(line.line);
+    let unplacedVehicles = 0;
+
+    for (const vehicle of vehicles) {
+        if (normalizeLineRef(vehicle.lineRef) !== lineRef) continue;
+
+        const placed = placeVehicle(line.directions, vehicle);
+        if (!placed) {
+            unplacedVehicles++;
+            continue;
+        }
+
+        directions[placed.direction].vehicles.push({
+            vehicle,
+            segment: placed.position.segment,
+            fraction: placed.position.fraction,
+            freshness: getPositionFreshness(vehicle, now),
+        });
+    }
+
+    for (const direction of directions) {
+        direction.vehicles.sort((a, b) => a.segment + a.fraction - (b.segment + b.fraction));
+    }
+
+    return { line: line.line, operatorName: line.operatorName, directions, unplacedVehicles };
+}
+
+/**
+ * Get the area covering every stop on a line, for the vehicle search
+ */
+function getSearchArea(line: GTFSLine): { center: Coordinates; radius: number } | null {
+    const stops = line.directions.flatMap(direction => direction.stops);
+    if (stops.length === 0) return null;
+
+    const center = {
+        latitude: stops.reduce((sum, stop) => sum + stop.latitude, 0) / stops.length,
+        longitude: stops.reduce((sum, stop) => sum + stop.longitude, 0) / stops.length,
+    };
+    const radius = Math.max(
+        ...stops.map(stop => GeolocationService.calculateDistance(center, stop))
+    );
+
+    return { center, radius: radius + VEHICLE_SEARCH_MARGIN };
+}
+
+/**
+ * Load a line's stops and where its buses are now
+ * @param line - Line name as shown on departures (e.g. "42")
+ * @returns Line view, or null if the line isn't in the timetable
+ */
+export async function getLineView(line: string): Promise<LineView | null> {
+    const [pattern, stops] = await Promise.all([loadLinePattern(line), BusStopCache.getStops()]);
+    if (!pattern) {
+        Logger.debug('No stop pattern for line', { line });
+        return null;
+    }
+
+    const area = getSearchArea(pattern);
+    const vehicles = area ? await fetchVehiclesNear(area.center, area.radius) : [];
+    const stopNames = new Map((stops ?? []).map(stop => [stop.atcoCode, stop.commonName]));
+
+    return buildLineView(pattern, vehicles, stopNames);
+}
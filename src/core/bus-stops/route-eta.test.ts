@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import { estimateRouteEta } from './route-eta';
+import type { ScheduledDeparture } from '@api/bods-gtfs';
+import type { GTFSTripCall } from '@/types';
+
+const LONGITUDE = 0.469;
+
+function call(
+    stopSequence: number,
+    latitude: number,
+    departureTime: string,
+    longitude = LONGITUDE
+): GTFSTripCall {
+    return { stopId: `STOP${stopSequence}`, stopSequence, departureTime, latitude, longitude };
+}
+
+function departure(tripCalls: GTFSTripCall[]): ScheduledDeparture {
+    const target = tripCalls[tripCalls.length - 1];
+    const [hours, minutes] = target.departureTime.split(':').map(Number);
+    return {
+        tripId: 'T1',
+        departureTime: target.departureTime,
+        scheduledAt: new Date(2025, 5, 11, hours, minutes),
+        serviceDate: '20250611',
+        line: '42',
+        destination: 'Broomfield',
+        stopSequence: target.stopSequence,
+        serviceId: 'WEEKDAY',
+        tripCalls,
+    };
+}
+
+describe('route-eta', () => {
+    describe('estimateRouteEta', () => {
+        const northbound = departure([
+            call(1, 51.7, '09:00:00'),
+            call(2, 51.71, '09:05:00'),
+            call(3, 51.72, '09:15:00'),
+        ]);
+
+        it('should apply scheduled running time from the vehicle position, carrying lateness', () => {
+            // Halfway between stops 1 and 2 (timetabled for 09:02:30) at 09:04
+            const result = estimateRouteEta(
+                northbound,
+                { latitude: 51.705, longitude: LONGITUDE },
+                new Date(2025, 5, 11, 9, 4)
+            );
+
+            expect(result?.lateness).toBeCloseTo(90);
+            expect(result?.eta).toEqual(new Date(2025, 5, 11, 9, 16, 30));
+            expect(result?.offRouteDistance).toBeLessThan(1);
+        });
+
+        it('should use timing to resolve loops that pass the same place twice', () => {
+            const loop = departure([
+                call(1, 51.7, '09:00:00'),
+                call(2, 51.71, '09:05:00'),
+                call(3, 51.7, '09:10:00', LONGITUDE + 0.0001),
+                call(4, 51.69, '09:15:00'),
+            ]);
+
+            // Same spot is 09:02:30 outbound and 09:07:30 on the way back
+            const result = estimateRouteEta(
+                loop,
+                { latitude: 51.705, longitude: LONGITUDE },
+                new Date(2025, 5, 11, 9, 8)
+            );
+
+            expect(result?.eta).toEqual(new Date(2025, 5, 11, 9, 15, 30));
+        });
+
+        it('should give up when the vehicle is away from the route', () => {
+            const result = estimateRouteEta(
+                northbound,
+                { latitude: 51.705, longitude: LONGITUDE + 0.02 },
+                new Date(2025, 5, 11, 9, 4)
+            );
+
+            expect(result).toBeNull();
+        });
+
+        it('should give up without at least two calls', () => {
+            const result = estimateRouteEta(
+                departure([call(1, 51.72, '09:15:00')]),
+                { latitude: 51.72, longitude: LONGITUDE },
+                new Date(2025, 5, 11, 9, 4)
+            );
+
+            expect(result).toBeNull();
+        });
+    });
+});
@@ -0,0 +1,177 @@
+/**
+ * Route-based ETA
+ * Estimates when a vehicle reaches a stop by locating it along its trip's
+ * stop pattern, then applying the timetabled running time from that point.
+ * Because the vehicle's position is compared with where the timetable says
+ * it should be, the estimate carries the bus's current lateness forward.
+ */
+
+import { parseServiceTime } from '@utils/time';
+import type { ScheduledDeparture } from '@api/bods-gtfs';
+import type { Coordinates, GTFSTripCall } from '@/types';
+
+/** Meters per degree of latitude */
+const METERS_PER_DEGREE = 111320;
+
+/** Vehicles further than this from every segment aren't on the pattern (meters) */
+const MAX_OFF_ROUTE_DISTANCE = 300;
+
+/**
+ * Segments this much further away than the closest still count, so loop
+ * routes passing the same spot twice can be resolved by timing (meters)
+ */
+const LOOP_TOLERANCE = 100;
+
+/** Vehicle position on the stop pattern */
+interface RoutePosition {
+    /** Scheduled service-day offset (seconds) for this point on the pattern */
+    scheduledOffset: number;
+    /** Distance from the vehicle to the pattern (meters) */
+    offRouteDistance: number;
+}
+
+/** Route-based arrival estimate */
+export interface RouteEta {
+    eta: Date;
+    /** Distance from the vehicle to the stop pattern (meters) */
+    offRouteDistance: number;
+    /** Seconds behind (+) or ahead of (-) the timetable */
+    lateness: number;
+}
+
+/**
+ * Project a point onto a segment using a local flat-earth approximation
+ * (accurate enough over the few hundred meters between stops)
+ * @returns Fraction along the segment (0-1) and distance from it in meters
+ */
+function projectOntoSegment(
+    point: Coordinates,
+    from: Coordinates,
+    to: Coordinates
+): { fraction: number; distance: number } {
+    const scaleX = METERS_PER_DEGREE * Math.cos((from.latitude * Math.PI) / 180);
+    const dx = (to.longitude - from.longitude) * scaleX;
+    const dy = (to.latitude - from.latitude) * METERS_PER_DEGREE;
+    const px = (point.longitude - from.longitude) * scaleX;
+    const py = (point.latitude - from.latitude) * METERS_PER_DEGREE;
+
+    const lengthSquared = dx * dx + dy * dy;
+    const fraction =
+        lengthSquared === 0 ? 0 : Math.min(1, Math.max(0, (px * dx + py * dy) / lengthSquared));
+
+    return {
+        fraction,
+        distance: Math.hypot(px - fraction * dx, py - fraction * dy),
+    };
+}
+
+/**
+ * Find where a vehicle is along a stop pattern
+ * On loops, picks the matching point closest to the vehicle's expected position
+ * @param calls - Calls in stop sequence order
+ * @param position - Vehicle position
+ * @param nowOffset - Current service-day offset (seconds)
+ */
+function locateOnRoute(
+    calls: GTFSTripCall[],
+    position: Coordinates,
+    nowOffset: number
+): RoutePosition | null {
+    const positions: RoutePosition[] = [];
+
+    for (let i = 0; i < calls.length - 1; i++) {
+        const from = calls[i];
+        const to = calls[i + 1];
+        const fromOffset = parseServiceTime(from.departureTime);
+        const toOffset = parseServiceTime(to.departureTime);
+        if (isNaN(fromOffset) || isNaN(toOffset)) continue;
+
+        const { fraction, distance } = projectOntoSegment(position, from, to);
+        positions.push({
+            scheduledOffset: fromOffset + fraction * (toOffset - fromOffset),
+            offRouteDistance: distance,
+        });
+    }
+
+    const closest = Math.min(...positions.map(p => p.offRouteDistance));
+    if (!isFinite(closest) || closest > MAX_OFF_ROUTE_DISTANCE) return null;
+
+    const lateness = (p: RoutePosition) => Math.abs(nowOffset - p.scheduledOffset);
+    return positions
+        .filter(p => p.offRouteDistance <= closest + LOOP_TOLERANCE)
+        .reduce((best, p) => (lateness(p) < lateness(best) ? p : best));
+}
+
+/**
+ * Estimate a vehicle's arrival at a stop from its position along the trip
+ * @param departure - Scheduled departure the vehicle is running
+ * @param position - Vehicle position
+ * @param now - Current time
+ * @returns Estimate, or null if the trip has no usable stop pattern or the
+ *          vehicle isn't on it (callers fall back to straight-line estimates)
+ */
+export function estimateRouteEta(
+    departure: ScheduledDeparture,
+    position: Coordinates,
+    now: Date
+): RouteEta | null {
+    const calls = departure.tripCalls?.filter(c => c.stopSequence <= departure.stopSequence);
+    if (!calls || calls.length < 2) return null;
+
+    const targetOffset = parseServiceTime(departure.departureTime);
+    if (isNaN(targetOffset)) return null;
+
+    // Service-day offset of "now", measured from the departure's own service day
+    const nowOffset = targetOffset - (departure.scheduledAt.getTime() - now.getTime()) / 1000;
+
+    const located = locateOnRoute(calls, position, nowOffset);
+    if (!located) return null;
+
+    const remaining = Math.max(0, Math.round(targetOffset - located.scheduledOffset));
+    return {
+        eta: new Date(now.getTime() + remaining * 1000),
+        offRouteDistance: located.offRouteDistance,
+        lateness: nowOffset - located.scheduledOffset,
+    };
+}
+
+/** Position snapped onto a stop pattern */
+export interface PatternPosition {
+    /** Index of the segment's first stop (the bus is between it and the next) */
+    segment: number;
+    /** Fraction of the way along the segment (0-1) */
+    fraction: number;
+    /** Distance from the position to the pattern (meters) */
+    distance: number;
+}
+
+/**
+ * Snap a position onto the closest segment of a stop pattern
+ * On loops, either pass may be picked
+ * @param stops - Stops in sequence order
+ * @param position - Vehicle position
+ * @returns Snapped position, or null if it's too far from every segment
+ */
+export function snapToPattern(stops: Coordinates[], position: Coordinates): PatternPosition | null {
+    let closest: PatternPosition | null = null;
+
+    for (let i = 0; i < stops.length - 1; i++) {
+        const { fraction, distance } = projectOntoSegment(position, stops[i], stops[i + 1]);
+        if (!closest || distance < closest.distance) {
+            closest = { segment: i, fraction, distance };
+        }
+    }
+
+    return closest && closest.distance <= MAX_OFF_ROUTE_DISTANCE ? closest : null;
+}
+
+/**
+ * Find the next call a vehicle will reach along a stop pattern
+ * @param calls - Calls in stop sequence order
+ * @param position - Vehicle position
+ * @returns Index of the next call, or null if the vehicle isn't on the pattern
+ */
+export function findNextCall(calls: GTFSTripCall[], position: Coordinates): number | null {
+    const snapped = snapToPattern(calls, position);
+    return snapped ? snapped.segment + 1 : null;
+}
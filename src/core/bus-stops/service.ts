@@ -5,12 +5,26 @@
 
 import { Logger } from '@utils/logger';
 import { getConfig } from '@config/index';
-import { GeolocationService } from '@core/geolocation';
 import { BusStopCache } from './cache';
 import { BusStopError } from './errors';
+import { getDepartureProviderHealth } from './departure-providers';
+import type { DepartureProviderHealth } from './departure-providers';
+import { buildStopSearchIndex, searchStopIndex } from './stop-search';
+import { selectStopAreaStops } from './stop-areas';
+import { buildSpatialIndex, findByAtcoCodes, findNearestInIndex } from './spatial-index';
+import type { StopSpatialIndex } from './spatial-index';
+import type { StopSearchIndex } from './stop-search';
 import { fetchChelmsfordBusStops } from '@api/naptan';
 import { fetchDeparturesForStop } from '@api/departures';
-import type { Coordinates, NearbyBusStop, DepartureBoard } from '@/types';
+import { fetchDisruptions } from '@api/bods-siri-sx';
+import { disruptionsForBoard, sortDisruptions } from './disruptions';
+import type {
+    Coordinates,
+    NearbyBusStop,
+    DepartureBoard,
+    Disruption,
+    StopSearchMatch,
+} from '@/types';
 import { BusStopErrorCode } from '@/types';
 
 /**
@@ -35,6 +49,54 @@ type BothDirectionsResult =
     | { success: true; boards: DepartureBoard[]; partialFailures?: StopFetchError[] }
     | { success: false; error: BusStopError };
 
+/** Most stops to offer for a search */
+const MAX_SEARCH_RESULTS = 10;
+
+/** Name search index, built once the stops are loaded */
+let searchIndex: StopSearchIndex | null = null;
+
+/** Grid of stops for nearest-stop lookups, built once the stops are loaded */
+let spatialIndex: StopSpatialIndex | null = null;
+
+/**
+ * Get the spatial index, from memory, the cache, or built from cached stops
+ * @returns Index, or null if no stops have been loaded yet
+ */
+async function loadSpatialIndex(): Promise<StopSpatialIndex | null> {
+    if (spatialIndex) return spatialIndex;
+
+    spatialIndex = await BusStopCache.getSpatialIndex();
+    if (spatialIndex) return spatialIndex;
+
+    // Stops cached before the index existed - build it once and keep it with them
+    const stops = await BusStopCache.getStops();
+    if (!stops || stops.length === 0) return null;
+    spatialIndex = buildSpatialIndex(stops);
+    await BusStopCache.setSpatialIndex(spatialIndex);
+    return spatialIndex;
+}
+
+/**
+ * Get disruptions in effect, or none if the feed can't be loaded
+ * Disruptions are extra information, so boards still show without them
+ */
+async function loadDisruptions(): Promise<Disruption[]> {
+    try {
+        return await fetchDisruptions();
+    } catch (error) {
+        Logger.debug('Disruptions unavailable', error);
+        return [];
+    }
+}
+
+/**
+ * Attach the disruptions affecting a board's stop or lines
+ */
+async function withDisruptions(board: DepartureBoard): Promise<DepartureBoard> {
+    const disruptions = disruptionsForBoard(await loadDisruptions(), board);
+    return disruptions.length > 0 ? { ...board, disruptions } : board;
+}
+
 /**
  * Get opposite bearing direction
  */
@@ -85,6 +147,37 @@ function deduplicateBySharedLines(boards: DepartureBoard[]): DepartureBoard[] {
     return result;
 }
 
+/**
+ * Choose which nearby stops to show
+ * Uses the nearest NaPTAN stop area when the stop data has one. Stop data
+ * without areas falls back to pairing up to 2 stops per compass direction.
+ * @param nearbyStops - Nearby stops, nearest first
+ */
+function chooseStopsToShow(nearbyStops: NearbyBusStop[]): {
+    stops: NearbyBusStop[];
+    byArea: boolean;
+} {
+    const areaStops = selectStopAreaStops(nearbyStops);
+    if (areaStops) return { stops: areaStops, byArea: true };
+
+    const nearest = nearbyStops[0];
+    const primaryBearing = nearest.bearing?.toUpperCase();
+    const oppositeBearing = getOppositeBearing(nearest.bearing);
+
+    // Find stops in each direction
+    const primaryStops = nearbyStops.filter(stop => stop.bearing?.toUpperCase() === primaryBearing);
+    const oppositeStops = oppositeBearing
+        ? nearbyStops.filter(stop => stop.bearing?.toUpperCase() === oppositeBearing)
+        : nearbyStops.filter(
+              stop => stop.bearing && stop.bearing?.toUpperCase() !== primaryBearing
+          );
+
+    return {
+        stops: [...primaryStops.slice(0, 2), ...oppositeStops.slice(0, 2)],
+        byArea: false,
+    };
+}
+
 /**
  * BusStopService - Find nearest stops and departures
  */
@@ -94,16 +187,19 @@ export const BusStopService = {
      * Call once at app startup (non-blocking)
      */
     async init(): Promise<void> {
-        const cached = await BusStopCache.getStops();
-        if (cached && cached.length > 0) {
-            Logger.debug('Bus stops loaded from cache', { count: cached.length });
+        const cached = await loadSpatialIndex();
+        if (cached && cached.stops.length > 0) {
+            Logger.debug('Bus stops loaded from cache', { count: cached.stops.length });
+            searchIndex = buildStopSearchIndex(cached.stops);
             return;
         }
 
         try {
             Logger.debug('Fetching bus stops from NAPTAN...');
             const stops = await fetchChelmsfordBusStops();
-            await BusStopCache.setStops(stops);
+            spatialIndex = buildSpatialIndex(stops);
+            await BusStopCache.setStops(stops, spatialIndex);
+            searchIndex = buildStopSearchIndex(stops);
             Logger.success('Bus stops cached', { count: stops.length });
         } catch (error) {
             Logger.warn('Failed to fetch bus stops, will retry later', error);
@@ -123,9 +219,9 @@ export const BusStopService = {
         maxResults = 1,
         customRadius?: number
     ): Promise<NearbyBusStop[]> {
-        const stops = await BusStopCache.getStops();
+        const index = await loadSpatialIndex();
 
-        if (!stops || stops.length === 0) {
+        if (!index || index.stops.length === 0) {
             throw new BusStopError(
                 'No bus stops available - try refreshing',
                 BusStopErrorCode.NO_STOPS_FOUND
@@ -135,15 +231,7 @@ export const BusStopService = {
         const config = getConfig();
         const maxRadius = customRadius ?? config.busStops.maxSearchRadius;
 
-        // Calculate distances and filter by radius
-        const nearby: NearbyBusStop[] = stops
-            .map(stop => ({
-                ...stop,
-                distanceMeters: GeolocationService.calculateDistance(location, stop.coordinates),
-            }))
-            .filter(stop => stop.distanceMeters <= maxRadius)
-            .sort((a, b) => a.distanceMeters - b.distanceMeters)
-            .slice(0, maxResults);
+        const nearby = findNearestInIndex(index, location, maxResults, maxRadius);
 
         if (nearby.length === 0) {
             throw new BusStopError(
@@ -170,16 +258,8 @@ export const BusStopService = {
     async getByAtcoCodes(atcoCodes: string[], location: Coordinates): Promise<NearbyBusStop[]> {
         if (atcoCodes.length === 0) return [];
 
-        const stops = await BusStopCache.getStops();
-        if (!stops || stops.length === 0) return [];
-
-        const atcoSet = new Set(atcoCodes);
-        return stops
-            .filter(stop => atcoSet.has(stop.atcoCode))
-            .map(stop => ({
-                ...stop,
-                distanceMeters: GeolocationService.calculateDistance(location, stop.coordinates),
-            }));
+        const index = await loadSpatialIndex();
+        return index ? findByAtcoCodes(index, atcoCodes, location) : [];
     },
 
     /**
@@ -273,7 +353,8 @@ export const BusStopService = {
 
     /**
      * Get nearest stops in both directions
-     * Returns 2 stops per direction (4 total) - nearest and next nearest for each
+     * Returns the members of the nearest stop area (e.g. every bay of a bus
+     * station), or 2 stops per direction for stops without an area
      */
     async getBothDirections(location: Coordinates): Promise<BothDirectionsResult> {
         Logger.debug('Getting departures for both directions', { location });
@@ -289,30 +370,7 @@ export const BusStopService = {
                 );
             }
 
-            const nearest = nearbyStops[0];
-            const primaryBearing = nearest.bearing?.toUpperCase();
-            const oppositeBearing = getOppositeBearing(nearest.bearing);
-
-            // Find stops in primary direction (same bearing as nearest)
-            const primaryStops = nearbyStops.filter(
-                stop => stop.bearing?.toUpperCase() === primaryBearing
-            );
-
-            // Find stops in opposite direction
-            const oppositeStops = oppositeBearing
-                ? nearbyStops.filter(stop => stop.bearing?.toUpperCase() === oppositeBearing)
-                : nearbyStops.filter(
-                      stop => stop.bearing && stop.bearing?.toUpperCase() !== primaryBearing
-                  );
-
-            // Take up to 2 from each direction
-            const stopsToShow: NearbyBusStop[] = [];
-
-            // Add primary direction stops (up to 2)
-            stopsToShow.push(...primaryStops.slice(0, 2));
-
-            // Add opposite direction stops (up to 2)
-            stopsToShow.push(...oppositeStops.slice(0, 2));
+            const { stops: stopsToShow, byArea } = chooseStopsToShow(nearbyStops);
 
             // Fetch departures for all stops in parallel with partial success handling
             const results = await Promise.allSettled(
@@ -341,9 +399,12 @@ export const BusStopService = {
 
             // Return success if at least one stop succeeded
             if (boards.length > 0) {
-                // Filter out stops with no departures, then deduplicate nearby stops with same lines
+                // Filter out stops with no departures. Stops from a stop area are all
+                // distinct; stops paired by bearing may repeat each other's lines
                 const filteredBoards = boards.filter(b => b.departures.length > 0);
-                const deduplicatedBoards = deduplicateBySharedLines(filteredBoards);
+                const deduplicatedBoards = byArea
+                    ? filteredBoards
+                    : deduplicateBySharedLines(filteredBoards);
 
                 if (deduplicatedBoards.length > 0) {
                     return {
@@ -385,12 +446,12 @@ export const BusStopService = {
                 atcoCode: stop.atcoCode,
                 count: cached.length,
             });
-            return {
+            return withDisruptions({
                 stop,
                 departures: cached,
                 lastUpdated: Date.now(),
                 isStale: true,
-            };
+            });
         }
 
         // Fetch fresh from BODS
@@ -403,20 +464,20 @@ export const BusStopService = {
             });
             await BusStopCache.setDepartures(stop.atcoCode, departures);
 
-            return {
+            return await withDisruptions({
                 stop,
                 departures,
                 lastUpdated: Date.now(),
                 isStale: false,
-            };
+            });
         } catch (error) {
             Logger.warn('Failed to fetch departures for stop', { atcoCode: stop.atcoCode, error });
-            return {
+            return withDisruptions({
                 stop,
                 departures: [],
                 lastUpdated: Date.now(),
                 isStale: false,
-            };
+            });
         }
     },
 
@@ -427,23 +488,23 @@ export const BusStopService = {
         try {
             const departures = await fetchDeparturesForStop(stop, 3);
             await BusStopCache.setDepartures(stop.atcoCode, departures);
-            return {
+            return await withDisruptions({
                 stop,
                 departures,
                 lastUpdated: Date.now(),
                 isStale: false,
-            };
+            });
         } catch (error) {
             Logger.warn('Failed to refresh departures for stop', {
                 atcoCode: stop.atcoCode,
                 error,
             });
-            return {
+            return withDisruptions({
                 stop,
                 departures: [],
                 lastUpdated: Date.now(),
                 isStale: false,
-            };
+            });
         }
     },
 
@@ -486,7 +547,7 @@ export const BusStopService = {
     },
 
     /**
-     * Refresh departures for both directions (4 stops total)
+     * Refresh departures for both directions (the same stops as getBothDirections)
      */
     async refreshBothDirections(location: Coordinates): Promise<BothDirectionsResult> {
         try {
@@ -498,34 +559,19 @@ export const BusStopService = {
                 );
             }
 
-            const nearest = nearbyStops[0];
-            const primaryBearing = nearest.bearing?.toUpperCase();
-            const oppositeBearing = getOppositeBearing(nearest.bearing);
-
-            // Find stops in each direction
-            const primaryStops = nearbyStops.filter(
-                stop => stop.bearing?.toUpperCase() === primaryBearing
-            );
-            const oppositeStops = oppositeBearing
-                ? nearbyStops.filter(stop => stop.bearing?.toUpperCase() === oppositeBearing)
-                : nearbyStops.filter(
-                      stop => stop.bearing && stop.bearing?.toUpperCase() !== primaryBearing
-                  );
-
-            // Take up to 2 from each direction
-            const stopsToShow = [...primaryStops.slice(0, 2), ...oppositeStops.slice(0, 2)];
+            const { stops: stopsToShow } = chooseStopsToShow(nearbyStops);
 
             // Fetch fresh departures for all stops in parallel with partial success handling
             const results = await Promise.allSettled(
                 stopsToShow.map(async stop => {
                     const departures = await fetchDeparturesForStop(stop, 3);
                     await BusStopCache.setDepartures(stop.atcoCode, departures);
-                    return {
+                    return withDisruptions({
                         stop,
                         departures,
                         lastUpdated: Date.now(),
                         isStale: false,
-                    };
+                    });
                 })
             );
 
@@ -570,4 +616,46 @@ export const BusStopService = {
             return { success: false, error: busError };
         }
     },
+
+    /**
+     * Search stops by name, street, locality or indicator
+     * Tolerates typos and unfinished words, e.g. "Broomfield Hosp"
+     * @param query - Text typed by the user
+     * @param location - User's coordinates, to rank equally good matches by distance
+     * @returns Matching stops, best first
+     */
+    async searchStops(query: string, location?: Coordinates): Promise<StopSearchMatch[]> {
+        if (!searchIndex) {
+            const index = await loadSpatialIndex();
+            if (!index || index.stops.length === 0) {
+                throw new BusStopError(
+                    'No bus stops available - try refreshing',
+                    BusStopErrorCode.NO_STOPS_FOUND
+                );
+            }
+            searchIndex = buildStopSearchIndex(index.stops);
+        }
+
+        return searchStopIndex(searchIndex, query, { location, limit: MAX_SEARCH_RESULTS });
+    },
+
+    /**
+     * Get disruptions affecting any known stop, most serious first
+     * Disruptions naming only lines are matched per board instead, since line
+     * numbers aren't unique across the country.
+     */
+    async getLocalDisruptions(): Promise<Disruption[]> {
+        const [disruptions, index] = await Promise.all([fetchDisruptions(), loadSpatialIndex()]);
+        if (!index) return [];
+        return sortDisruptions(
+            disruptions.filter(d => d.stops.some(stop => index.byAtcoCode.has(stop)))
+        );
+    },
+
+    /**
+     * Get the status of each departure provider (enabled, priority, circuit state)
+     */
+    getProviderHealth(): DepartureProviderHealth[] {
+        return getDepartureProviderHealth();
+    },
 };
@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import { buildSpatialIndex, findByAtcoCodes, findNearestInIndex } from './spatial-index';
+import { GeolocationService } from '@core/geolocation';
+import type { BusStop, Coordinates } from '@/types';
+
+/** Scatter stops over roughly 10km x 10km with a fixed pseudo-random sequence */
+function scatterStops(count: number): BusStop[] {
+    let seed = 42;
+    const random = () => {
+        seed = (seed * 1103515245 + 12345) % 2147483648;
+        return seed / 2147483648;
+    };
+
+    return Array.from({ length: count }, (_, i) => ({
+        atcoCode: `STOP${i}`,
+        commonName: `Stop ${i}`,
+        coordinates: { latitude: 51.69 + random() * 0.09, longitude: 0.4 + random() * 0.145 },
+    }));
+}
+
+const STOPS = scatterStops(1500);
+const INDEX = buildSpatialIndex(STOPS);
+
+/** Measure to every stop, as the service used to */
+function bruteForce(location: Coordinates, count: number, maxRadius: number): string[] {
+    return STOPS.map(stop => ({
+        atcoCode: stop.atcoCode,
+        distance: GeolocationService.calculateDistance(location, stop.coordinates),
+    }))
+        .filter(stop => stop.distance <= maxRadius)
+        .sort((a, b) => a.distance - b.distance)
+        .slice(0, count)
+        .map(stop => stop.atcoCode);
+}
+
+describe('spatial-index', () => {
+    const CENTRE = { latitude: 51.7356, longitude: 0.4685 };
+    const EDGE = { latitude: 51.69, longitude: 0.4 };
+
+    it.each([
+        ['the nearest stop', CENTRE, 1, 1000],
+        ['many stops in a small radius', CENTRE, 50, 300],
+        ['many stops in a wide radius', CENTRE, 100, 3000],
+        ['stops from the corner of the area', EDGE, 20, 2000],
+    ])(
+        'should find the same stops as measuring to every stop: %s',
+        (_, location, count, radius) => {
+            expect(findNearestInIndex(INDEX, location, count, radius).map(s => s.atcoCode)).toEqual(
+                bruteForce(location, count, radius)
+            );
+        }
+    );
+
+    it('should return distances, nearest first', () => {
+        const stops = findNearestInIndex(INDEX, CENTRE, 10, 1000);
+        const distances = stops.map(s => s.distanceMeters);
+
+        expect(distances).toEqual([...distances].sort((a, b) => a - b));
+        expect(distances[0]).toBeCloseTo(
+            GeolocationService.calculateDistance(CENTRE, stops[0].coordinates)
+        );
+    });
+
+    it('should find nothing far from every stop, or in an empty index', () => {
+        const london = { latitude: 51.5074, longitude: -0.1278 };
+
+        expect(findNearestInIndex(INDEX, london, 5, 1000)).toEqual([]);
+        expect(findNearestInIndex(buildSpatialIndex([]), CENTRE, 5, Infinity)).toEqual([]);
+    });
+
+    it('should look up stops by ATCO code, skipping unknown codes', () => {
+        const stops = findByAtcoCodes(INDEX, ['STOP7', 'NOPE', 'STOP3'], CENTRE);
+
+        expect(stops.map(s => s.atcoCode)).toEqual(['STOP7', 'STOP3']);
+        expect(stops[0].distanceMeters).toBeGreaterThan(0);
+    });
+});
@@ -0,0 +1,156 @@
+/**
+ * Spatial Index for Bus Stops
+ * Buckets stops into a grid of roughly square cells, so nearby stops are
+ * found by looking at a few cells instead of measuring to every stop
+ */
+
+import { GeolocationService } from '@core/geolocation';
+import type { BusStop, Coordinates, NearbyBusStop } from '@/types';
+
+/** Width of a grid cell (meters) */
+const CELL_SIZE = 250;
+
+/** Meters per degree of latitude */
+const METERS_PER_DEGREE = 111320;
+
+/**
+ * Grid of stops, plain enough to store in IndexedDB
+ */
+export interface StopSpatialIndex {
+    stops: BusStop[];
+    /** Cell height and width in degrees; width grows with latitude */
+    latitudeStep: number;
+    longitudeStep: number;
+    /** Stop positions in `stops`, by "row:column" cell key */
+    cells: Map<string, number[]>;
+    /** Stop positions in `stops`, by ATCO code */
+    byAtcoCode: Map<string, number>;
+}
+
+function cellKey(row: number, column: number): string {
+    return `${row}:${column}`;
+}
+
+function cellOf(index: StopSpatialIndex, coordinates: Coordinates): [number, number] {
+    return [
+        Math.floor(coordinates.latitude / index.latitudeStep),
+        Math.floor(coordinates.longitude / index.longitudeStep),
+    ];
+}
+
+/**
+ * Build a spatial index over stops
+ * Cells are sized for the stops' average latitude, which keeps them close to
+ * square anywhere in the UK.
+ */
+export function buildSpatialIndex(stops: BusStop[]): StopSpatialIndex {
+    const meanLatitude =
+        stops.reduce((sum, stop) => sum + stop.coordinates.latitude, 0) / (stops.length || 1);
+    const latitudeStep = CELL_SIZE / METERS_PER_DEGREE;
+    const index: StopSpatialIndex = {
+        stops,
+        latitudeStep,
+        longitudeStep: latitudeStep / Math.cos((meanLatitude * Math.PI) / 180),
+        cells: new Map(),
+        byAtcoCode: new Map(),
+    };
+
+    stops.forEach((stop, position) => {
+        const key = cellKey(...cellOf(index, stop.coordinates));
+        const cell = index.cells.get(key) ?? [];
+        cell.push(position);
+        index.cells.set(key, cell);
+        index.byAtcoCode.set(stop.atcoCode, position);
+    });
+
+    return index;
+}
+
+/**
+ * Measure to the stops in the cells on one square ring around a cell
+ */
+function collectRing(
+    index: StopSpatialIndex,
+    location: Coordinates,
+    [row, column]: [number, number],
+    ring: number,
+    into: NearbyBusStop[]
+): void {
+    for (let r = row - ring; r <= row + ring; r++) {
+        // Inner rows only have cells at the ring's left and right edges
+        const edge = r === row - ring || r === row + ring;
+        const step = edge || ring === 0 ? 1 : ring * 2;
+        for (let c = column - ring; c <= column + ring; c += step) {
+            for (const position of index.cells.get(cellKey(r, c)) ?? []) {
+                const stop = index.stops[position];
+                into.push({
+                    ...stop,
+                    distanceMeters: GeolocationService.calculateDistance(
+                        location,
+                        stop.coordinates
+                    ),
+                });
+            }
+        }
+    }
+}
+
+/**
+ * Find the nearest stops to a location
+ * Searches outwards ring by ring until no unsearched cell could hold a
+ * nearer stop than the ones found.
+ * @param index - Index from buildSpatialIndex
+ * @param location - Where to search from
+ * @param count - Most stops to return
+ * @param maxRadius - Ignore stops further away than this (meters)
+ * @returns Stops within the radius, nearest first
+ */
+export function findNearestInIndex(
+    index: StopSpatialIndex,
+    location: Coordinates,
+    count: number,
+    maxRadius: number
+): NearbyBusStop[] {
+    const origin = cellOf(index, location);
+    const found: NearbyBusStop[] = [];
+    // Any stop beyond ring N is at least N whole cells away
+    const cellMeters =
+        Math.min(
+            index.latitudeStep,
+            index.longitudeStep * Math.cos((location.latitude * Math.PI) / 180)
+        ) * METERS_PER_DEGREE;
+
+    for (let ring = 0; found.length < index.stops.length; ring++) {
+        collectRing(index, location, origin, ring, found);
+
+        const searched = ring * cellMeters;
+        const within = found.filter(stop => stop.distanceMeters <= Math.min(searched, maxRadius));
+        if (within.length >= count || searched >= maxRadius) break;
+    }
+
+    return found
+        .filter(stop => stop.distanceMeters <= maxRadius)
+        .sort((a, b) => a.distanceMeters - b.distanceMeters)
+        .slice(0, count);
+}
+
+/**
+ * Look up stops by ATCO code, with their distance from a location
+ */
+export function findByAtcoCodes(
+    index: StopSpatialIndex,
+    atcoCodes: string[],
+    location: Coordinates
+): NearbyBusStop[] {
+    return atcoCodes.flatMap(atcoCode => {
+        const position = index.byAtcoCode.get(atcoCode);
+        if (position === undefined) return [];
+        const stop = index.stops[position];
+        return [
+            {
+                ...stop,
+                distanceMeters: GeolocationService.calculateDistance(location, stop.coordinates),
+            },
+        ];
+    });
+}
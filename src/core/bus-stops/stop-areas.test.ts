@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { groupByStopArea, selectStopAreaStops } from './stop-areas';
+import type { NearbyBusStop } from '@/types';
+
+function stop(
+    atcoCode: string,
+    distanceMeters: number,
+    stopAreaCode?: string,
+    stopAreaName?: string
+): NearbyBusStop {
+    return {
+        atcoCode,
+        commonName: atcoCode,
+        coordinates: { latitude: 51.73, longitude: 0.47 },
+        distanceMeters,
+        stopAreaCode,
+        stopAreaName,
+    };
+}
+
+describe('stop-areas', () => {
+    it('should group stops by area in order of their nearest member', () => {
+        const areas = groupByStopArea([
+            stop('BAY_A', 40, 'BUS_STATION', 'Chelmsford Bus Station'),
+            stop('PARKWAY_N', 60, 'PARKWAY'),
+            stop('LOOSE', 70),
+            stop('BAY_B', 80, 'BUS_STATION', 'Chelmsford Bus Station'),
+        ]);
+
+        expect(areas.map(a => [a.name, a.stops.map(s => s.atcoCode)])).toEqual([
+            ['Chelmsford Bus Station', ['BAY_A', 'BAY_B']],
+            ['PARKWAY_N', ['PARKWAY_N']],
+        ]);
+    });
+
+    it('should show every member of the nearest area rather than nearby stops elsewhere', () => {
+        expect(
+            selectStopAreaStops([
+                stop('BAY_A', 40, 'BUS_STATION'),
+                stop('PARKWAY_N', 60, 'PARKWAY'),
+                stop('BAY_B', 80, 'BUS_STATION'),
+                stop('BAY_C', 90, 'BUS_STATION'),
+            ])?.map(s => s.atcoCode)
+        ).toEqual(['BAY_A', 'BAY_B', 'BAY_C']);
+    });
+
+    it('should add the next area when the nearest has a single stop', () => {
+        expect(
+            selectStopAreaStops([
+                stop('ONE_WAY', 30, 'ONE_WAY_AREA'),
+                stop('PARKWAY_N', 60, 'PARKWAY'),
+                stop('PARKWAY_S', 70, 'PARKWAY'),
+            ])?.map(s => s.atcoCode)
+        ).toEqual(['ONE_WAY', 'PARKWAY_N', 'PARKWAY_S']);
+    });
+
+    it('should leave stops without areas to the caller', () => {
+        expect(selectStopAreaStops([stop('LOOSE', 20), stop('BAY_A', 40, 'BUS_STATION')])).toBe(
+            null
+        );
+        expect(selectStopAreaStops([])).toBeNull();
+    });
+});
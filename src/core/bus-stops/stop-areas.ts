@@ -0,0 +1,57 @@
+/**
+ * Stop Areas
+ * Picks which nearby stops to show using NaPTAN stop areas - the bays of a
+ * bus station, or the stops either side of a road
+ */
+
+import type { NearbyBusStop } from '@/types';
+
+/** Most stops to show from the areas around the user */
+const MAX_AREA_STOPS = 12;
+
+/**
+ * A stop area and the members of it near the user
+ */
+interface NearbyStopArea {
+    code: string;
+    name: string;
+    stops: NearbyBusStop[];
+}
+
+/**
+ * Group stops by stop area, nearest area first
+ * Stops keep their distance order within an area. Stops without an area
+ * are left out.
+ */
+export function groupByStopArea(stops: NearbyBusStop[]): NearbyStopArea[] {
+    const areas = new Map<string, NearbyStopArea>();
+
+    for (const stop of stops) {
+        if (!stop.stopAreaCode) continue;
+        const area = areas.get(stop.stopAreaCode) ?? {
+            code: stop.stopAreaCode,
+            name: stop.stopAreaName ?? stop.commonName,
+            stops: [],
+        };
+        area.stops.push(stop);
+        areas.set(stop.stopAreaCode, area);
+    }
+
+    return [...areas.values()];
+}
+
+/**
+ * Choose the stops to show from the user's nearest stop area
+ * A lone stop (one side of the road only) brings in the next nearest area too,
+ * so both directions are covered.
+ * @param stops - Nearby stops, nearest first
+ * @returns Stops to show, or null if the nearest stop isn't in an area
+ */
+export function selectStopAreaStops(stops: NearbyBusStop[]): NearbyBusStop[] | null {
+    if (!stops[0]?.stopAreaCode) return null;
+
+    const [nearest, next] = groupByStopArea(stops);
+    const selected =
+        nearest.stops.length > 1 || !next ? nearest.stops : [...nearest.stops, ...next.stops];
+    return selected.slice(0, MAX_AREA_STOPS);
+}
@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { buildStopSearchIndex, searchStopIndex } from './stop-search';
+import type { BusStop } from '@/types';
+
+/** Roughly one kilometre of latitude */
+const KM = 0.009;
+
+function stop(atcoCode: string, kmNorth: number, fields: Partial<BusStop>): BusStop {
+    return {
+        atcoCode,
+        commonName: atcoCode,
+        coordinates: { latitude: 51.7 + kmNorth * KM, longitude: 0.47 },
+        ...fields,
+    };
+}
+
+const STOPS = [
+    stop('HOSPITAL', 4, {
+        commonName: 'Broomfield Hospital',
+        indicator: 'Stop A',
+        street: 'Court Road',
+        locality: 'Broomfield',
+    }),
+    stop('VILLAGE', 3, { commonName: 'The Angel', street: 'Main Road', locality: 'Broomfield' }),
+    stop('SPRINGFIELD_N', 2, {
+        commonName: 'Arun Close',
+        indicator: 'opp',
+        street: 'Springfield Rd',
+        locality: 'Springfield',
+    }),
+    stop('SPRINGFIELD_S', 0.5, {
+        commonName: 'Springfield Road',
+        indicator: 'Stop B',
+        street: 'Springfield Road',
+        locality: 'Chelmsford',
+    }),
+    stop('STATION', 0, { commonName: "St John's Church", street: 'Moulsham Street' }),
+];
+
+const INDEX = buildStopSearchIndex(STOPS);
+
+function search(query: string, kmNorth?: number): string[] {
+    const location =
+        kmNorth === undefined ? undefined : { latitude: 51.7 + kmNorth * KM, longitude: 0.47 };
+    return searchStopIndex(INDEX, query, { location, limit: 10 }).map(m => m.stop.atcoCode);
+}
+
+describe('stop-search', () => {
+    it('should match unfinished words and put stops named after the query first', () => {
+        expect(search('Broomfield Hosp')).toEqual(['HOSPITAL']);
+        expect(search('broomf')).toEqual(['HOSPITAL', 'VILLAGE']);
+    });
+
+    it('should treat abbreviations as the full word and rank ties by distance', () => {
+        expect(search('Springfield Rd', 0)).toEqual(['SPRINGFIELD_S', 'SPRINGFIELD_N']);
+        expect(search('springfield road', 3)).toEqual(['SPRINGFIELD_S', 'SPRINGFIELD_N']);
+        expect(search('springfield', 3)).toEqual(['SPRINGFIELD_S', 'SPRINGFIELD_N']);
+        expect(search('springfield opp', 0)).toEqual(['SPRINGFIELD_N']);
+    });
+
+    it('should tolerate typos in longer words only', () => {
+        expect(search('Bromfield Hospitle')).toEqual(['HOSPITAL']);
+        expect(search('springfeild')).toContain('SPRINGFIELD_S');
+        expect(search('angle')).toEqual(['VILLAGE']);
+        expect(search('rod')).toEqual([]);
+    });
+
+    it('should ignore punctuation and return nothing for empty queries', () => {
+        expect(search('st johns')).toEqual(['STATION']);
+        expect(search('  ')).toEqual([]);
+        expect(search('nowhere at all')).toEqual([]);
+    });
+});
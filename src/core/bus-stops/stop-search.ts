@@ -0,0 +1,219 @@
+/**
+ * Stop Search
+ * In-memory index over stop names, streets and localities, tolerant of
+ * typos and unfinished words
+ */
+
+import { GeolocationService } from '@core/geolocation';
+import type { BusStop, Coordinates, StopSearchMatch } from '@/types';
+
+/** Where a word came from; words in the stop's name count most */
+const FIELD_PENALTY = { name: 0, indicator: 1, street: 1, locality: 2 } as const;
+
+/** Penalty for a word the query only starts */
+const PREFIX_PENALTY = 1;
+
+/** Penalty for each typo */
+const TYPO_PENALTY = 2;
+
+/** Common abbreviations on stop signs, so "Rd" and "Road" match */
+const ABBREVIATIONS = new Map([
+    ['rd', 'road'],
+    ['ave', 'avenue'],
+    ['ln', 'lane'],
+    ['cl', 'close'],
+    ['dr', 'drive'],
+    ['cres', 'crescent'],
+    ['gdns', 'gardens'],
+    ['sq', 'square'],
+    ['opp', 'opposite'],
+    ['stn', 'station'],
+    ['hosp', 'hospital'],
+]);
+
+interface Posting {
+    stop: number;
+    penalty: number;
+}
+
+export interface StopSearchIndex {
+    stops: BusStop[];
+    postings: Map<string, Posting[]>;
+    /** Every indexed word, sorted for prefix lookups */
+    words: string[];
+}
+
+/**
+ * Split text into lowercase words without accents or punctuation
+ */
+function tokenize(text: string): string[] {
+    return text
+        .normalize('NFKD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .toLowerCase()
+        .replace(/&/g, ' and ')
+        .replace(/'/g, '')
+        .split(/[^a-z0-9]+/)
+        .filter(Boolean)
+        .map(word => ABBREVIATIONS.get(word) ?? word);
+}
+
+/**
+ * Typos allowed in a word - none in short words, where they'd match too much
+ */
+function maxTypos(word: string): number {
+    if (word.length < 4) return 0;
+    return word.length < 8 ? 1 : 2;
+}
+
+/**
+ * Edit distance between two words, giving up once it passes a limit
+ * Swapped neighbouring letters count as one edit.
+ * @returns The distance, or Infinity if it's over the limit
+ */
+function editDistance(a: string, b: string, limit: number): number {
+    if (Math.abs(a.length - b.length) > limit) return Infinity;
+
+    let before: number[] = [];
+    let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+    for (let i = 1; i <= a.length; i++) {
+        const current = [i];
+        let rowMin = i;
+        for (let j = 1; j <= b.length; j++) {
+            const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+            let distance = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+            if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+                distance = Math.min(distance, before[j - 2] + 1);
+            }
+            current.push(distance);
+            rowMin = Math.min(rowMin, distance);
+        }
+        if (rowMin > limit) return Infinity;
+        before = previous;
+        previous = current;
+    }
+
+    const distance = previous[b.length];
+    return distance <= limit ? distance : Infinity;
+}
+
+/**
+ * Build a search index over stops
+ */
+export function buildStopSearchIndex(stops: BusStop[]): StopSearchIndex {
+    const postings = new Map<string, Posting[]>();
+
+    stops.forEach((stop, index) => {
+        const best = new Map<string, number>();
+        const fields: [string | undefined, number][] = [
+            [stop.commonName, FIELD_PENALTY.name],
+            [stop.indicator, FIELD_PENALTY.indicator],
+            [stop.street, FIELD_PENALTY.street],
+            [stop.locality, FIELD_PENALTY.locality],
+        ];
+        for (const [text, penalty] of fields) {
+            for (const word of tokenize(text ?? '')) {
+                best.set(word, Math.min(best.get(word) ?? Infinity, penalty));
+            }
+        }
+        for (const [word, penalty] of best) {
+            const list = postings.get(word) ?? [];
+            list.push({ stop: index, penalty });
+            postings.set(word, list);
+        }
+    });
+
+    return { stops, postings, words: [...postings.keys()].sort() };
+}
+
+/**
+ * Find the indexed words a query word could mean, with how far off each is
+ */
+function matchWord(index: StopSearchIndex, word: string): Map<string, number> {
+    const matches = new Map<string, number>();
+
+    // Words starting with the query word sit together in the sorted list
+    let low = 0;
+    let high = index.words.length;
+    while (low < high) {
+        const mid = (low + high) >> 1;
+        if (index.words[mid] < word) low = mid + 1;
+        else high = mid;
+    }
+    for (let i = low; i < index.words.length && index.words[i].startsWith(word); i++) {
+        matches.set(index.words[i], index.words[i] === word ? 0 : PREFIX_PENALTY);
+    }
+
+    const limit = maxTypos(word);
+    if (limit > 0) {
+        for (const candidate of index.words) {
+            if (matches.has(candidate)) continue;
+            const distance = editDistance(word, candidate, limit);
+            if (distance !== Infinity) matches.set(candidate, distance * TYPO_PENALTY);
+        }
+    }
+
+    return matches;
+}
+
+/**
+ * Score every stop matching one query word, keeping its best match
+ */
+function scoreWord(index: StopSearchIndex, word: string): Map<number, number> {
+    const scores = new Map<number, number>();
+    for (const [candidate, penalty] of matchWord(index, word)) {
+        for (const posting of index.postings.get(candidate) ?? []) {
+            const score = penalty + posting.penalty;
+            if (score < (scores.get(posting.stop) ?? Infinity)) scores.set(posting.stop, score);
+        }
+    }
+    return scores;
+}
+
+/**
+ * Search stops by name, street, locality and indicator
+ * Every word in the query has to match. Closer matches come first, then
+ * nearer stops when a location is given.
+ * @param index - Index from buildStopSearchIndex
+ * @param query - Text typed by the user, e.g. "Broomfield Hosp"
+ * @param options - Where the user is, and how many results to return
+ * @returns Matching stops, best first
+ */
+export function searchStopIndex(
+    index: StopSearchIndex,
+    query: string,
+    options: { location?: Coordinates; limit: number }
+): StopSearchMatch[] {
+    const words = tokenize(query);
+    if (words.length === 0) return [];
+
+    let totals: Map<number, number> | null = null;
+    for (const word of words) {
+        const scores = scoreWord(index, word);
+        const merged = new Map<number, number>();
+        for (const [stop, score] of scores) {
+            if (totals === null) merged.set(stop, score);
+            else if (totals.has(stop)) merged.set(stop, (totals.get(stop) ?? 0) + score);
+        }
+        totals = merged;
+        if (totals.size === 0) return [];
+    }
+
+    const { location } = options;
+    return [...(totals ?? [])]
+        .map(([stop, score]) => ({
+            stop: index.stops[stop],
+            score,
+            distanceMeters: location
+                ? GeolocationService.calculateDistance(location, index.stops[stop].coordinates)
+                : undefined,
+        }))
+        .sort(
+            (a, b) =>
+                a.score - b.score ||
+                (a.distanceMeters ?? 0) - (b.distanceMeters ?? 0) ||
+                a.stop.commonName.localeCompare(b.stop.commonName)
+        )
+        .slice(0, options.limit);
+}
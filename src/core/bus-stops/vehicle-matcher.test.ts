@@ -0,0 +1,175 @@
+import { describe, it, expect } from 'vitest';
+import { isMovingAwayFromStop, matchVehiclesToDepartures } from './vehicle-matcher';
+import type { ScheduledDeparture } from '@api/bods-gtfs';
+import type { VehicleActivity } from '@/types';
+
+const NOW = new Date(2025, 5, 11, 9, 0);
+const STOP = { latitude: 51.7361, longitude: 0.469 };
+
+/** Roughly one kilometre of latitude */
+const KM = 0.009;
+
+function departure(
+    tripId: string,
+    minutesFromNow: number,
+    overrides: Partial<ScheduledDeparture> = {}
+): ScheduledDeparture {
+    return {
+        tripId,
+        departureTime: '09:00:00',
+        scheduledAt: new Date(NOW.getTime() + minutesFromNow * 60000),
+        serviceDate: '20250611',
+        line: '42',
+        destination: 'Broomfield',
+        stopSequence: 5,
+        serviceId: 'WEEKDAY',
+        ...overrides,
+    };
+}
+
+/** Vehicle south of the stop, heading north towards it unless told otherwise */
+function vehicle(
+    vehicleRef: string,
+    kmSouth: number,
+    overrides: Partial<VehicleActivity> = {}
+): VehicleActivity {
+    return {
+        recordedAtTime: NOW,
+        validUntilTime: NOW,
+        vehicleRef,
+        lineRef: 'FESX:42',
+        directionRef: 'outbound',
+        operatorRef: 'FESX',
+        latitude: STOP.latitude - kmSouth * KM,
+        longitude: STOP.longitude,
+        bearing: 0,
+        ...overrides,
+    };
+}
+
+function matchedTrips(departures: ScheduledDeparture[], vehicles: VehicleActivity[]) {
+    const matches = matchVehiclesToDepartures(departures, vehicles, STOP, NOW);
+    return Object.fromEntries(
+        [...matches].map(([dep, match]) => [dep.tripId, match.vehicle.vehicleRef])
+    );
+}
+
+describe('vehicle-matcher', () => {
+    describe('matchVehiclesToDepartures', () => {
+        it('should prefer a journey ref match over a closer timetable fit', () => {
+            const departures = [
+                departure('A', 2, { vehicleJourneyCode: 'VJ1' }),
+                departure('B', 10, { vehicleJourneyCode: 'VJ2' }),
+            ];
+            const matches = matchVehiclesToDepartures(
+                departures,
+                [vehicle('bus-1', 1, { vehicleJourneyRef: 'VJ2' })],
+                STOP,
+                NOW
+            );
+
+            expect(matches.get(departures[1])?.method).toBe('journey-ref');
+            expect(matches.has(departures[0])).toBe(false);
+        });
+
+        it('should assign each vehicle to at most one departure', () => {
+            const departures = [departure('A', 2), departure('B', 12)];
+
+            expect(matchedTrips(departures, [vehicle('bus-1', 1)])).toEqual({ A: 'bus-1' });
+            expect(matchedTrips(departures, [vehicle('bus-2', 2.5), vehicle('bus-1', 1)])).toEqual({
+                A: 'bus-1',
+                B: 'bus-2',
+            });
+        });
+
+        it('should prefer block ref matches over line-only matches', () => {
+            const departures = [departure('A', 2), departure('B', 3, { blockId: 'BLK7' })];
+            const matches = matchVehiclesToDepartures(
+                departures,
+                [vehicle('bus-1', 1, { blockRef: 'BLK7' })],
+                STOP,
+                NOW
+            );
+
+            expect(matches.get(departures[1])?.method).toBe('block-ref');
+        });
+
+        it('should reject vehicles running in the other direction', () => {
+            const departures = [departure('A', 2, { directionId: 0 })];
+
+            expect(
+                matchedTrips(departures, [vehicle('bus-1', 1, { directionRef: 'inbound' })])
+            ).toEqual({});
+        });
+
+        it('should reject vehicles with a different destination', () => {
+            const departures = [departure('A', 2, { destinationStopId: '150042019004' })];
+            const elsewhere = vehicle('bus-1', 1, { destinationRef: '150033038003' });
+
+            expect(matchedTrips(departures, [elsewhere])).toEqual({});
+        });
+
+        it('should skip vehicles moving away from the stop', () => {
+            const departures = [departure('A', 2)];
+
+            expect(matchedTrips(departures, [vehicle('bus-1', 1, { bearing: 180 })])).toEqual({});
+        });
+
+        it('should rate confidence by route position and match strength', () => {
+            const tripCalls = [
+                { stopId: 'ORIGIN', stopSequence: 3, departureTime: '08:55:00', ...STOP },
+                { stopId: 'STOP', stopSequence: 5, departureTime: '09:05:00', ...STOP },
+            ];
+            tripCalls[0].latitude -= 2 * KM;
+            const onRoute = departure('A', 5, {
+                departureTime: '09:05:00',
+                blockId: 'BLK7',
+                tripCalls,
+            });
+
+            const strong = matchVehiclesToDepartures(
+                [onRoute],
+                [vehicle('bus-1', 1, { blockRef: 'BLK7' })],
+                STOP,
+                NOW
+            ).get(onRoute);
+            expect(strong?.confidence).toBe('high');
+            expect(strong?.eta).toEqual(new Date(2025, 5, 11, 9, 5));
+
+            const weak = matchVehiclesToDepartures(
+                [{ ...onRoute, blockId: undefined }],
+                [vehicle('bus-1', 1)],
+                STOP,
+                NOW
+            );
+            expect([...weak.values()][0].confidence).toBe('medium');
+
+            const offRoute = matchVehiclesToDepartures(
+                [departure('B', 2)],
+                [vehicle('bus-1', 1)],
+                STOP,
+                NOW
+            );
+            expect([...offRoute.values()][0].confidence).toBe('low');
+        });
+
+        it('should not match a nearby bus to a trip scheduled much later', () => {
+            const departures = [departure('A', 40)];
+
+            expect(matchedTrips(departures, [vehicle('bus-1', 1)])).toEqual({});
+        });
+    });
+
+    describe('isMovingAwayFromStop', () => {
+        it('should compare heading with the bearing to the stop', () => {
+            expect(isMovingAwayFromStop(vehicle('bus-1', 1, { bearing: 20 }), STOP)).toBe(false);
+            expect(isMovingAwayFromStop(vehicle('bus-1', 1, { bearing: 200 }), STOP)).toBe(true);
+        });
+
+        it('should give vehicles without a bearing the benefit of the doubt', () => {
+            expect(isMovingAwayFromStop(vehicle('bus-1', 1, { bearing: undefined }), STOP)).toBe(
+                false
+            );
+        });
+    });
+});
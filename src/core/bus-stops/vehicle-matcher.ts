@@ -0,0 +1,271 @@
+/**
+ * Vehicle Matcher
+ * Pairs live SIRI-VM vehicles with scheduled GTFS trips, one vehicle per trip
+ *
+ * Matching uses, strongest first: VehicleJourneyRef against the trip's
+ * vehicle journey code, BlockRef against the trip's block, then line alone.
+ * Direction and origin/destination refs rule out impossible pairings, and
+ * the vehicle's estimated arrival must be plausible for the scheduled time.
+ */
+
+import { GeolocationService } from '@core/geolocation';
+import { estimateRouteEta } from './route-eta';
+import type { ScheduledDeparture } from '@api/bods-gtfs';
+import type { Coordinates, Departure, VehicleActivity } from '@/types';
+
+/** Average bus speed for ETA calculations (meters per second) */
+const AVERAGE_BUS_SPEED_MPS = 8; // ~29 km/h in urban areas
+
+/** Vehicles further than this from the stop are not matched (meters) */
+const MAX_MATCH_DISTANCE = 3000;
+
+/** Vehicles this close count as at the stop whatever their heading (meters) */
+const AT_STOP_DISTANCE = 50;
+
+/** Heading deviation from the stop beyond which a bus is moving away (degrees) */
+const MAX_HEADING_DEVIATION = 100;
+
+/** How early a bus may run against the timetable and still match (minutes) */
+const MAX_EARLY_MINUTES = 10;
+
+/** How late a bus may run against the timetable and still match (minutes) */
+const MAX_LATE_MINUTES = 45;
+
+/** Vehicles this close to the stop pattern give high-confidence ETAs (meters) */
+const ON_ROUTE_DISTANCE = 100;
+
+/** How a vehicle was paired with a trip, strongest first */
+type MatchMethod = 'journey-ref' | 'block-ref' | 'line';
+
+const METHOD_RANK: Record<MatchMethod, number> = {
+    'journey-ref': 0,
+    'block-ref': 1,
+    line: 2,
+};
+
+/** A vehicle matched to a scheduled departure */
+export interface VehicleMatch {
+    vehicle: VehicleActivity;
+    /** Estimated arrival at the stop */
+    eta: Date;
+    method: MatchMethod;
+    confidence: NonNullable<Departure['confidence']>;
+}
+
+/** Candidate pairing considered during assignment */
+interface Candidate extends VehicleMatch {
+    departure: ScheduledDeparture;
+    /** Lower is better: method rank first, then timetable deviation */
+    cost: number;
+}
+
+/**
+ * Normalize line reference for matching
+ * BODS line refs may include operator prefix (e.g., "ARBB:42")
+ */
+export function normalizeLineRef(lineRef: string): string {
+    // Remove operator prefix if present
+    const parts = lineRef.split(':');
+    return parts[parts.length - 1].trim().toUpperCase();
+}
+
+function toRadians(degrees: number): number {
+    return (degrees * Math.PI) / 180;
+}
+
+/**
+ * Initial compass bearing from one point to another (degrees, 0-360)
+ */
+export function bearingBetween(from: Coordinates, to: Coordinates): number {
+    const lat1 = toRadians(from.latitude);
+    const lat2 = toRadians(to.latitude);
+    const dLon = toRadians(to.longitude - from.longitude);
+
+    const y = Math.sin(dLon) * Math.cos(lat2);
+    const x = Math.cos(lat1) * Math.sin(lat2) - Math.sin(lat1) * Math.cos(lat2) * Math.cos(dLon);
+
+    return ((Math.atan2(y, x) * 180) / Math.PI + 360) % 360;
+}
+
+function vehicleCoordinates(vehicle: VehicleActivity): Coordinates {
+    return { latitude: vehicle.latitude, longitude: vehicle.longitude };
+}
+
+/**
+ * Estimate when a vehicle will reach a stop from straight-line distance
+ * Only a rough guide - used when the vehicle can't be placed on its trip's route
+ */
+export function estimateVehicleEta(
+    vehicle: VehicleActivity,
+    stopCoords: Coordinates,
+    now = new Date()
+): Date {
+    const distance = GeolocationService.calculateDistance(vehicleCoordinates(vehicle), stopCoords);
+    return new Date(now.getTime() + (distance / AVERAGE_BUS_SPEED_MPS) * 1000);
+}
+
+/**
+ * Check whether a vehicle's heading points away from the stop
+ * Vehicles without a reported bearing are given the benefit of the doubt
+ */
+export function isMovingAwayFromStop(vehicle: VehicleActivity, stopCoords: Coordinates): boolean {
+    if (vehicle.bearing === undefined || isNaN(vehicle.bearing)) return false;
+
+    const position = vehicleCoordinates(vehicle);
+    if (GeolocationService.calculateDistance(position, stopCoords) < AT_STOP_DISTANCE) {
+        return false;
+    }
+
+    const toStop = bearingBetween(position, stopCoords);
+    const deviation = Math.abs(((vehicle.bearing - toStop + 540) % 360) - 180);
+    return deviation > MAX_HEADING_DEVIATION;
+}
+
+/**
+ * Map a SIRI DirectionRef to a GTFS direction_id
+ * BODS publishes "outbound"/"inbound", matching direction_id 0/1 in its GTFS
+ */
+export function toDirectionId(directionRef: string): number | undefined {
+    switch (directionRef.trim().toLowerCase()) {
+        case 'outbound':
+        case '0':
+            return 0;
+        case 'inbound':
+        case '1':
+            return 1;
+        default:
+            return undefined;
+    }
+}
+
+/**
+ * Compare two optional refs - only a known mismatch rules a pairing out
+ */
+function conflicts(a: string | number | undefined, b: string | number | undefined): boolean {
+    return a !== undefined && a !== '' && b !== undefined && b !== '' && a !== b;
+}
+
+/**
+ * Decide whether a vehicle could be running a scheduled trip
+ * @returns How the pair matched, or null if the vehicle can't be on this trip
+ */
+function getMatchMethod(
+    departure: ScheduledDeparture,
+    vehicle: VehicleActivity
+): MatchMethod | null {
+    if (normalizeLineRef(vehicle.lineRef) !== normalizeLineRef(departure.line)) return null;
+
+    // Journey refs identify the exact trip, so any mismatch is decisive
+    if (vehicle.vehicleJourneyRef && departure.vehicleJourneyCode) {
+        return vehicle.vehicleJourneyRef === departure.vehicleJourneyCode ? 'journey-ref' : null;
+    }
+
+    if (
+        conflicts(toDirectionId(vehicle.directionRef), departure.directionId) ||
+        conflicts(vehicle.originRef, departure.originStopId) ||
+        conflicts(vehicle.destinationRef, departure.destinationStopId)
+    ) {
+        return null;
+    }
+
+    return vehicle.blockRef && vehicle.blockRef === departure.blockId ? 'block-ref' : 'line';
+}
+
+/**
+ * Estimate arrival for a vehicle running a trip
+ * Prefers the trip's stop pattern and timetable; falls back to straight-line
+ * distance at average speed when the vehicle can't be placed on the pattern
+ */
+function estimateMatchEta(
+    departure: ScheduledDeparture,
+    vehicle: VehicleActivity,
+    stopCoords: Coordinates,
+    method: MatchMethod,
+    now: Date
+): Pick<VehicleMatch, 'eta' | 'confidence'> {
+    const routeEta = estimateRouteEta(departure, vehicleCoordinates(vehicle), now);
+    if (!routeEta) {
+        return { eta: estimateVehicleEta(vehicle, stopCoords, now), confidence: 'low' };
+    }
+
+    const strongMatch = method !== 'line';
+    const onRoute = routeEta.offRouteDistance <= ON_ROUTE_DISTANCE;
+    return { eta: routeEta.eta, confidence: strongMatch && onRoute ? 'high' : 'medium' };
+}
+
+/**
+ * Build a candidate pairing, checking the vehicle's progress is plausible
+ * for the scheduled time
+ */
+function buildCandidate(
+    departure: ScheduledDeparture,
+    vehicle: VehicleActivity,
+    stopCoords: Coordinates,
+    now: Date
+): Candidate | null {
+    const method = getMatchMethod(departure, vehicle);
+    if (!method) return null;
+
+    const { eta, confidence } = estimateMatchEta(departure, vehicle, stopCoords, method, now);
+
+    const deviationMinutes = (eta.getTime() - departure.scheduledAt.getTime()) / 60000;
+    const plausible =
+        deviationMinutes >= -MAX_EARLY_MINUTES && deviationMinutes <= MAX_LATE_MINUTES;
+
+    // A journey ref match is trusted even when the timing looks odd
+    if (!plausible && method !== 'journey-ref') return null;
+
+    return {
+        departure,
+        vehicle,
+        eta,
+        method,
+        confidence,
+        cost: METHOD_RANK[method] * 1000 + Math.abs(deviationMinutes),
+    };
+}
+
+/**
+ * Match live vehicles to scheduled departures at a stop
+ * Each vehicle is assigned to at most one departure and vice versa, taking the
+ * strongest, closest-to-timetable pairings first
+ * @param departures - Scheduled departures at the stop
+ * @param vehicles - Live vehicles near the stop
+ * @param stopCoords - Stop location
+ * @param now - Current time (default: now)
+ * @returns Matches indexed by departure
+ */
+export function matchVehiclesToDepartures(
+    departures: ScheduledDeparture[],
+    vehicles: VehicleActivity[],
+    stopCoords: Coordinates,
+    now = new Date()
+): Map<ScheduledDeparture, VehicleMatch> {
+    const candidates: Candidate[] = [];
+
+    for (const vehicle of vehicles) {
+        const distance = GeolocationService.calculateDistance(
+            vehicleCoordinates(vehicle),
+            stopCoords
+        );
+        if (distance > MAX_MATCH_DISTANCE || isMovingAwayFromStop(vehicle, stopCoords)) continue;
+
+        for (const departure of departures) {
+            const candidate = buildCandidate(departure, vehicle, stopCoords, now);
+            if (candidate) candidates.push(candidate);
+        }
+    }
+
+    candidates.sort((a, b) => a.cost - b.cost);
+
+    const matches = new Map<ScheduledDeparture, VehicleMatch>();
+    const assignedVehicles = new Set<VehicleActivity>();
+
+    for (const { departure, vehicle, eta, method, confidence } of candidates) {
+        if (matches.has(departure) || assignedVehicles.has(vehicle)) continue;
+        matches.set(departure, { vehicle, eta, method, confidence });
+        assignedVehicles.add(vehicle);
+    }
+
+    return matches;
+}
@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest';
+import { buildVehicleTracking, getPositionFreshness } from './vehicle-tracking';
+import type { GTFSTripCall, VehicleActivity } from '@/types';
+
+const NOW = new Date(2025, 5, 11, 9, 0);
+const STOP = {
+    atcoCode: '150033038003',
+    commonName: 'Chelmsford Bus Station',
+    coordinates: { latitude: 51.7361, longitude: 0.469 },
+};
+
+/** Roughly one kilometre of latitude */
+const KM = 0.009;
+
+function call(stopId: string, stopSequence: number, departureTime: string, kmSouth: number) {
+    return {
+        stopId,
+        stopSequence,
+        departureTime,
+        latitude: STOP.coordinates.latitude - kmSouth * KM,
+        longitude: STOP.coordinates.longitude,
+    } satisfies GTFSTripCall;
+}
+
+const CALLS = [
+    call('ORIGIN', 3, '08:55:00', 2),
+    call('MIDDLE', 4, '09:00:00', 1),
+    call(STOP.atcoCode, 5, '09:05:00', 0),
+];
+
+function vehicle(kmSouth: number, overrides: Partial<VehicleActivity> = {}): VehicleActivity {
+    return {
+        recordedAtTime: new Date(NOW.getTime() - 20000),
+        validUntilTime: new Date(NOW.getTime() + 300000),
+        vehicleRef: 'bus-1',
+        lineRef: '42',
+        directionRef: 'outbound',
+        operatorRef: 'FESX',
+        latitude: STOP.coordinates.latitude - kmSouth * KM,
+        longitude: STOP.coordinates.longitude,
+        ...overrides,
+    };
+}
+
+describe('vehicle-tracking', () => {
+    describe('buildVehicleTracking', () => {
+        it('should list the stops still to be served, ending at the selected stop', () => {
+            const names = new Map([['MIDDLE', 'Springfield Road']]);
+            const tracking = buildVehicleTracking(vehicle(1.5), STOP, CALLS, names, NOW);
+
+            expect(tracking.remainingStops).toEqual([
+                {
+                    stopId: 'MIDDLE',
+                    name: 'Springfield Road',
+                    scheduledTime: '09:00',
+                    isSelectedStop: false,
+                },
+                {
+                    stopId: STOP.atcoCode,
+                    name: STOP.atcoCode,
+                    scheduledTime: '09:05',
+                    isSelectedStop: true,
+                },
+            ]);
+            expect(tracking.direction).toBe('S');
+            expect(tracking.distanceMeters).toBeCloseTo(1500, -2);
+            expect(tracking.positionAge).toBe(20);
+        });
+
+        it('should leave the stop list empty when the bus is off its route', () => {
+            const offRoute = vehicle(1.5, { longitude: STOP.coordinates.longitude + 0.02 });
+
+            expect(
+                buildVehicleTracking(offRoute, STOP, CALLS, new Map(), NOW).remainingStops
+            ).toEqual([]);
+        });
+    });
+
+    describe('getPositionFreshness', () => {
+        it('should flag old and expired positions', () => {
+            expect(getPositionFreshness(vehicle(1), NOW)).toBe('fresh');
+            expect(
+                getPositionFreshness(
+                    vehicle(1, { recordedAtTime: new Date(NOW.getTime() - 180000) }),
+                    NOW
+                )
+            ).toBe('stale');
+            expect(
+                getPositionFreshness(
+                    vehicle(1, { validUntilTime: new Date(NOW.getTime() - 1000) }),
+                    NOW
+                )
+            ).toBe('expired');
+        });
+    });
+});
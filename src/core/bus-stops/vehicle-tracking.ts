@@ -0,0 +1,140 @@
+/**
+ * Vehicle Tracking
+ * Locates the bus running a departure and lists the stops it still has to
+ * serve before reaching the selected stop
+ */
+
+import { Logger } from '@utils/logger';
+import { formatTimeHHMM, serviceTimeToDate } from '@utils/time';
+import { fetchVehiclesNear } from '@api/bods-siri-vm';
+import { getTripCalls } from '@api/bods-gtfs';
+import { GeolocationService } from '@core/geolocation';
+import { BusStopCache } from './cache';
+import { findNextCall } from './route-eta';
+import { bearingBetween } from './vehicle-matcher';
+import type { BusStop, Departure, GTFSTripCall, VehicleActivity } from '@/types';
+
+/** Positions recorded longer ago than this are flagged as out of date (seconds) */
+const STALE_POSITION_AGE = 120;
+
+/** Compass points, clockwise from north */
+const COMPASS_POINTS = ['N', 'NE', 'E', 'SE', 'S', 'SW', 'W', 'NW'];
+
+/**
+ * How current a vehicle position is
+ * - fresh: recently recorded and still valid
+ * - stale: recorded a while ago, but the feed says it's still valid
+ * - expired: past the feed's ValidUntilTime
+ */
+export type PositionFreshness = 'fresh' | 'stale' | 'expired';
+
+/** A stop still to be served by the tracked bus */
+interface TrackedStop {
+    stopId: string;
+    name: string;
+    /** Timetabled departure ("HH:MM") */
+    scheduledTime: string;
+    /** True for the stop the departure was selected at */
+    isSelectedStop: boolean;
+}
+
+/** Where a departure's bus is now */
+export interface VehicleTracking {
+    vehicle: VehicleActivity;
+    /** Straight-line distance from the bus to the stop (meters) */
+    distanceMeters: number;
+    /** Compass point of the bus as seen from the stop (e.g. "SW") */
+    direction: string;
+    freshness: PositionFreshness;
+    /** Seconds since the position was recorded */
+    positionAge: number;
+    /** Stops left before and including the selected stop (empty if the bus is off its route) */
+    remainingStops: TrackedStop[];
+}
+
+/**
+ * Rate how current a vehicle position is
+ */
+export function getPositionFreshness(
+    vehicle: VehicleActivity,
+    now = new Date()
+): PositionFreshness {
+    if (now.getTime() > vehicle.validUntilTime.getTime()) return 'expired';
+
+    const age = (now.getTime() - vehicle.recordedAtTime.getTime()) / 1000;
+    return age > STALE_POSITION_AGE ? 'stale' : 'fresh';
+}
+
+/**
+ * Convert a bearing to the nearest of eight compass points
+ */
+function toCompassPoint(bearing: number): string {
+    return COMPASS_POINTS[Math.round(bearing / 45) % COMPASS_POINTS.length];
+}
+
+/**
+ * Build tracking details for a vehicle running a trip
+ * @param vehicle - Vehicle running the departure
+ * @param stop - Stop the departure was selected at
+ * @param calls - Trip's calls up to the stop (empty if unknown)
+ * @param stopNames - Stop names indexed by ATCO code
+ * @param now - Current time
+ */
+export function buildVehicleTracking(
+    vehicle: VehicleActivity,
+    stop: BusStop,
+    calls: GTFSTripCall[],
+    stopNames: Map<string, string>,
+    now = new Date()
+): VehicleTracking {
+    const position = { latitude: vehicle.latitude, longitude: vehicle.longitude };
+    const nextCall = findNextCall(calls, position);
+
+    return {
+        vehicle,
+        distanceMeters: GeolocationService.calculateDistance(position, stop.coordinates),
+        direction: toCompassPoint(bearingBetween(stop.coordinates, position)),
+        freshness: getPositionFreshness(vehicle, now),
+        positionAge: Math.max(
+            0,
+            Math.round((now.getTime() - vehicle.recordedAtTime.getTime()) / 1000)
+        ),
+        remainingStops:
+            nextCall === null
+                ? []
+                : calls.slice(nextCall).map(call => ({
+                      stopId: call.stopId,
+                      name: stopNames.get(call.stopId) ?? call.stopId,
+                      scheduledTime: formatTimeHHMM(serviceTimeToDate(now, call.departureTime)),
+                      isSelectedStop: call.stopId === stop.atcoCode,
+                  })),
+    };
+}
+
+/**
+ * Locate the bus running a departure
+ * @param stop - Stop the departure was selected at
+ * @param departure - Departure with a matched vehicle
+ * @returns Tracking details, or null if the vehicle is no longer reporting
+ */
+export async function trackVehicle(
+    stop: BusStop,
+    departure: Departure
+): Promise<VehicleTracking | null> {
+    if (!departure.vehicleRef) return null;
+
+    const [vehicles, calls, stops] = await Promise.all([
+        fetchVehiclesNear(stop.coordinates),
+        departure.tripId ? getTripCalls(stop.atcoCode, departure.tripId) : [],
+        BusStopCache.getStops(),
+    ]);
+
+    const vehicle = vehicles.find(v => v.vehicleRef === departure.vehicleRef);
+    if (!vehicle) {
+        Logger.debug('Tracked vehicle not found', { vehicleRef: departure.vehicleRef });
+        return null;
+    }
+
+    const stopNames = new Map((stops ?? []).map(s => [s.atcoCode, s.commonName]));
+    return buildVehicleTracking(vehicle, stop, calls, stopNames);
+}
@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest';
+import { getCatchability, getLeaveIn, getWalkingMinutes } from './walking';
+import type { Departure } from '@/types';
+
+function bus(minutesUntil: number, overrides: Partial<Departure> = {}): Departure {
+    return {
+        line: '42',
+        destination: 'Broomfield Hospital',
+        expectedDeparture: '10:30',
+        minutesUntil,
+        status: 'on-time',
+        ...overrides,
+    };
+}
+
+describe('walking', () => {
+    it('should round walking time up to the next minute', () => {
+        expect(getWalkingMinutes(350, 1.3)).toBe(5);
+        expect(getWalkingMinutes(0, 1.3)).toBe(0);
+    });
+
+    it('should classify departures by the time to spare after walking', () => {
+        expect(getCatchability(bus(10), 5)).toBe('catchable');
+        expect(getCatchability(bus(6), 5)).toBe('tight');
+        expect(getCatchability(bus(5), 5)).toBe('tight');
+        expect(getCatchability(bus(4), 5)).toBe('missed');
+    });
+
+    it('should say when to leave for the first bus that can still be caught', () => {
+        const next = bus(9);
+        const departures = [bus(2), bus(7, { status: 'cancelled' }), next, bus(15)];
+
+        expect(getLeaveIn(departures, 5)).toEqual({ departure: next, minutes: 4 });
+        expect(getLeaveIn([bus(2)], 5)).toBeNull();
+    });
+});
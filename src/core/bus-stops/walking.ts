@@ -0,0 +1,44 @@
+/**
+ * Walking Time
+ * Works out which departures can still be caught on foot, and when to leave
+ */
+
+import type { Departure, DepartureCatchability } from '@/types';
+
+/** Buses leaving less than this many minutes after you'd reach the stop are tight */
+const TIGHT_MARGIN_MINUTES = 2;
+
+/**
+ * Minutes to walk a straight-line distance, rounded up
+ * @param distanceMeters - Distance to the stop
+ * @param walkingSpeed - Walking speed in meters per second
+ */
+export function getWalkingMinutes(distanceMeters: number, walkingSpeed: number): number {
+    return Math.ceil(distanceMeters / walkingSpeed / 60);
+}
+
+/**
+ * Classify a departure by whether there's time to walk to the stop for it
+ */
+export function getCatchability(
+    departure: Departure,
+    walkingMinutes: number
+): DepartureCatchability {
+    const spareMinutes = departure.minutesUntil - walkingMinutes;
+    if (spareMinutes < 0) return 'missed';
+    return spareMinutes < TIGHT_MARGIN_MINUTES ? 'tight' : 'catchable';
+}
+
+/**
+ * Find the first departure that can still be caught, and how long until you need to leave
+ * @returns null when every bus is cancelled or leaves before you could get there
+ */
+export function getLeaveIn(
+    departures: Departure[],
+    walkingMinutes: number
+): { departure: Departure; minutes: number } | null {
+    const departure = departures.find(
+        d => d.status !== 'cancelled' && getCatchability(d, walkingMinutes) !== 'missed'
+    );
+    return departure ? { departure, minutes: departure.minutesUntil - walkingMinutes } : null;
+}
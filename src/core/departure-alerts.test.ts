@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import { findBusDeparture, getBusAlertKey, getNotifyAt, retargetAlert } from './departure-alerts';
+import type { Departure, DepartureAlert } from '@/types';
+
+const NOW = Date.UTC(2025, 5, 10, 7, 30);
+
+function alert(minutesAway: number): DepartureAlert {
+    return {
+        key: 'bus:1500IM77:42|Broomfield Hospital|07:45',
+        label: '42 to Broomfield Hospital',
+        stopName: 'Chelmsford Bus Station',
+        leadMinutes: 5,
+        expectedAt: NOW + minutesAway * 60000,
+    };
+}
+
+function bus(overrides: Partial<Departure> = {}): Departure {
+    return {
+        line: '42',
+        destination: 'Broomfield Hospital',
+        expectedDeparture: '07:45',
+        minutesUntil: 15,
+        status: 'on-time',
+        ...overrides,
+    };
+}
+
+describe('departure-alerts', () => {
+    it('should keep the same key when a bus starts running late', () => {
+        const onTime = getBusAlertKey('1500IM77', bus());
+        const late = getBusAlertKey(
+            '1500IM77',
+            bus({ expectedDeparture: '07:49', scheduledDeparture: '07:45', status: 'delayed' })
+        );
+
+        expect(late).toBe(onTime);
+    });
+
+    it('should move the alert when the estimate changes', () => {
+        const update = retargetAlert(alert(15), { minutesUntil: 19, status: 'delayed' }, NOW);
+
+        expect(update.type).toBe('waiting');
+        expect(getNotifyAt(update.alert)).toBe(NOW + 14 * 60000);
+    });
+
+    it('should be due once the departure is within the lead time', () => {
+        expect(retargetAlert(alert(15), { minutesUntil: 5, status: 'on-time' }, NOW).type).toBe(
+            'due'
+        );
+        expect(retargetAlert(alert(15), { minutesUntil: 12, status: 'cancelled' }, NOW).type).toBe(
+            'cancelled'
+        );
+    });
+
+    it('should wait for a departure missing from the board until it was due to leave', () => {
+        expect(retargetAlert(alert(10), undefined, NOW).type).toBe('waiting');
+        expect(retargetAlert(alert(-1), undefined, NOW).type).toBe('gone');
+    });
+
+    it('should follow a live-only bus whose estimate moves between refreshes', () => {
+        const first = bus({ expectedDeparture: '07:45', isRealTime: true });
+        let current = alert(15);
+        current.key = getBusAlertKey('1500IM77', first);
+        const refreshes = [
+            { at: NOW + 60000, departure: bus({ expectedDeparture: '07:48', minutesUntil: 17 }) },
+            {
+                at: NOW + 8 * 60000,
+                departure: bus({ expectedDeparture: '07:43', minutesUntil: 5 }),
+            },
+        ];
+
+        let previous = first;
+        const updates = refreshes.map(({ at, departure }) => {
+            const board = [bus({ expectedDeparture: '08:05', minutesUntil: 35 }), departure];
+            const found = findBusDeparture('1500IM77', current, previous, board, at);
+            expect(found).toBe(departure);
+
+            previous = departure;
+            const update = retargetAlert(current, found, at);
+            current = { ...update.alert, key: getBusAlertKey('1500IM77', departure) };
+            return update.type;
+        });
+
+        expect(updates).toEqual(['waiting', 'due']);
+    });
+
+    it('should not follow a live-only bus to a later one on the same line', () => {
+        const later = bus({ expectedDeparture: '07:57', minutesUntil: 27 });
+
+        expect(findBusDeparture('1500IM77', alert(15), bus(), [later], NOW)).toBeUndefined();
+    });
+});
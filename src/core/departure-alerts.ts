@@ -0,0 +1,104 @@
+/**
+ * Departure Alerts
+ * Follows a departure across board refreshes so an alert fires from its latest estimate
+ */
+
+import type { Departure, DepartureAlert, TrainDeparture } from '@/types';
+
+/** What a refreshed board says about a departure with an alert set */
+type AlertUpdate =
+    | { type: 'waiting'; alert: DepartureAlert } // Not due yet, moved to its latest estimate
+    | { type: 'due'; alert: DepartureAlert } // Leaves within the alert's lead time
+    | { type: 'cancelled'; alert: DepartureAlert }
+    | { type: 'gone'; alert: DepartureAlert }; // Left, or dropped off the board
+
+/** Fields of a bus or train departure that move its alert */
+type AlertDeparture = Pick<Departure | TrainDeparture, 'minutesUntil' | 'status'>;
+
+/** How far a live-only bus's estimate can move between refreshes and still be the same bus */
+const LIVE_MATCH_TOLERANCE_MINUTES = 5;
+
+/**
+ * Key for a bus departure at a stop
+ * Uses the trip, or the vehicle running it, where known, else the booked time, which
+ * stays put when the real-time estimate moves. A departure only known from live data
+ * has no booked time, so its key moves with the estimate - see findBusDeparture.
+ */
+export function getBusAlertKey(atcoCode: string, departure: Departure): string {
+    const booked = departure.scheduledDeparture ?? departure.expectedDeparture;
+    const untracked = departure.vehicleRef
+        ? `vehicle:${departure.vehicleRef}`
+        : `${departure.line}|${departure.destination}|${booked}`;
+    return `bus:${atcoCode}:${departure.tripId ?? untracked}`;
+}
+
+/**
+ * Find an alert's bus on a refreshed board
+ * Matches on the alert key first. Failing that, a departure the board only knows
+ * from live data is matched to the same line and destination leaving nearest the
+ * alert's last estimate, as its key changes whenever the estimate moves.
+ * @param previous - The departure as it was last seen
+ */
+export function findBusDeparture(
+    atcoCode: string,
+    alert: DepartureAlert,
+    previous: Departure,
+    departures: Departure[],
+    now = Date.now()
+): Departure | undefined {
+    const exact = departures.find(d => getBusAlertKey(atcoCode, d) === alert.key);
+    if (exact || previous.tripId) return exact;
+
+    const tolerance = LIVE_MATCH_TOLERANCE_MINUTES * 60000;
+    const offset = (d: Departure) => Math.abs(now + d.minutesUntil * 60000 - alert.expectedAt);
+
+    return departures
+        .filter(
+            d =>
+                !d.tripId &&
+                d.line === previous.line &&
+                d.destination === previous.destination &&
+                offset(d) <= tolerance
+        )
+        .sort((a, b) => offset(a) - offset(b))[0];
+}
+
+/**
+ * Key for a train departure at a station, by Darwin service ID where there is one
+ */
+export function getTrainAlertKey(crsCode: string, departure: TrainDeparture): string {
+    const service =
+        departure.serviceId ?? `${departure.destination}|${departure.scheduledDeparture}`;
+    return `train:${crsCode}:${service}`;
+}
+
+/**
+ * When to notify for an alert (ms)
+ */
+export function getNotifyAt(alert: DepartureAlert): number {
+    return alert.expectedAt - alert.leadMinutes * 60000;
+}
+
+/**
+ * Move an alert to a departure's latest estimate
+ * A departure missing from the board is waited for until it was due to leave,
+ * since short boards only list the next few services.
+ * @param departure - The departure on the refreshed board, if it's still there
+ */
+export function retargetAlert(
+    alert: DepartureAlert,
+    departure: AlertDeparture | undefined,
+    now = Date.now()
+): AlertUpdate {
+    if (!departure) {
+        return now >= alert.expectedAt ? { type: 'gone', alert } : { type: 'waiting', alert };
+    }
+    if (departure.status === 'cancelled') {
+        return { type: 'cancelled', alert };
+    }
+
+    const updated = { ...alert, expectedAt: now + departure.minutesUntil * 60000 };
+    return departure.minutesUntil <= alert.leadMinutes
+        ? { type: 'due', alert: updated }
+        : { type: 'waiting', alert: updated };
+}
@@ -19,10 +19,12 @@ describe('GeolocationService', () => {
                 stopsCacheTtl: 604800000,
                 departuresCacheTtl: 60000,
                 timetableCacheTtl: 86400000,
+                disruptionsCacheTtl: 300000,
                 maxSearchRadius: 1000,
                 maxExpandedRadius: 3000,
                 radiusIncrement: 500,
                 vehicleSearchRadius: 2000,
+                trackingRefreshInterval: 15000,
                 chelmsfordBounds: {
                     north: 51.82,
                     south: 51.68,
@@ -35,12 +37,32 @@ describe('GeolocationService', () => {
                 },
                 maxDistanceFromCenter: 10000,
                 nearbyPriorityRadius: 150,
+                departureProviders: [],
             },
             trainStations: {
                 railDataApiUrl:
                     'https://api1.raildata.org.uk/1010-live-arrival-and-departure-boards-arr-and-dep1_1/LDBWS/api/20220120',
                 departuresCacheTtl: 60000,
                 maxDeparturesPerStation: 5,
+                serviceRefreshInterval: 30000,
+                stations: [],
+                maxSearchRadius: 5000,
+                maxExpandedRadius: 20000,
+                radiusIncrement: 5000,
+            },
+            journeyPlanner: {
+                walkingSpeed: 1.3,
+                maxAccessWalk: 800,
+                maxTransferWalk: 400,
+                maxAccessStops: 8,
+                minTransferTime: 60000,
+                minRailConnectionTime: 300000,
+                maxTransfers: 3,
+                maxResults: 3,
+            },
+            alerts: {
+                leadMinutes: 5,
+                refreshInterval: 60000,
             },
         });
     });
@@ -13,4 +13,9 @@ export { BusStopService } from './bus-stops';
 export { TrainStationService, TrainDepartureService } from './train-stations';
 
 // Application state management (only export what's needed externally)
-export { type DisplayItem, setUserLocation, initializeState } from './app-state';
+export {
+    type DisplayItem,
+    setUserLocation,
+    initializeState,
+    getArrivalStations,
+} from './app-state';
@@ -0,0 +1,35 @@
+/**
+ * Journey Planner Error Types
+ */
+
+import type { JourneyPlannerErrorCodeType } from '@/types';
+import { JourneyPlannerErrorCode } from '@/types';
+
+/**
+ * Custom error for journey planning failures
+ * Provides structured error information for UI handling
+ */
+export class JourneyPlannerError extends Error {
+    constructor(
+        message: string,
+        public readonly code: JourneyPlannerErrorCodeType,
+        public readonly cause?: Error
+    ) {
+        super(message);
+        this.name = 'JourneyPlannerError';
+    }
+
+    /** Get user-friendly error message */
+    getUserMessage(): string {
+        switch (this.code) {
+            case JourneyPlannerErrorCode.PLACE_NOT_FOUND:
+                return 'Could not find that place. Check the postcode or stop and try again.';
+            case JourneyPlannerErrorCode.TIMETABLE_UNAVAILABLE:
+                return 'The bus timetable has not been downloaded yet. Go online and try again.';
+            case JourneyPlannerErrorCode.NO_STATIONS_NEARBY:
+                return 'There are no train stations near enough to plan a connection.';
+            default:
+                return 'An error occurred planning your journey.';
+        }
+    }
+}
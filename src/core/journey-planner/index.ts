@@ -0,0 +1,6 @@
+/**
+ * Journey Planner Module
+ */
+
+export { JourneyPlannerService, type JourneyPlace } from './service';
+export { JourneyPlannerError } from './errors';
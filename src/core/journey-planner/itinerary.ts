@@ -0,0 +1,37 @@
+/**
+ * Itineraries
+ * Summarises and orders planned journeys
+ */
+
+import type { Itinerary, JourneyLeg } from '@/types';
+
+/**
+ * Summarise a list of legs as an itinerary
+ */
+export function toItinerary(legs: JourneyLeg[]): Itinerary {
+    const departure = legs[0].departure;
+    const arrival = legs[legs.length - 1].arrival;
+
+    return {
+        legs,
+        departure,
+        arrival,
+        durationMinutes: Math.round((arrival.getTime() - departure.getTime()) / 60000),
+        transfers: Math.max(0, legs.filter(leg => leg.mode === 'bus').length - 1),
+        walkingMeters: legs.reduce(
+            (total, leg) => total + (leg.mode === 'walk' ? leg.distanceMeters : 0),
+            0
+        ),
+    };
+}
+
+/**
+ * Order itineraries: earliest arrival, then fewest changes, then latest departure
+ */
+export function rankItineraries(a: Itinerary, b: Itinerary): number {
+    return (
+        a.arrival.getTime() - b.arrival.getTime() ||
+        a.transfers - b.transfers ||
+        b.departure.getTime() - a.departure.getTime()
+    );
+}
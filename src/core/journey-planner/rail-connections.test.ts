@@ -0,0 +1,172 @@
+import { describe, it, expect } from 'vitest';
+import { applyBusDelay, connectTrains } from './rail-connections';
+import { toItinerary } from './itinerary';
+import type { Departure, Itinerary, JourneyLeg, TrainDeparture } from '@/types';
+
+const NOW = new Date(2025, 5, 11, 7, 50);
+const STATION = {
+    crsCode: 'CHM',
+    name: 'Chelmsford',
+    coordinates: { latitude: 51.7361, longitude: 0.469 },
+};
+
+function at(time: string): Date {
+    const [hours, minutes] = time.split(':').map(Number);
+    return new Date(2025, 5, 11, hours, minutes);
+}
+
+function point(name: string) {
+    return { name, coordinates: { latitude: 51.73, longitude: 0.47 }, stopId: name };
+}
+
+function walk(from: string, to: string, departure: string, arrival: string): JourneyLeg {
+    return {
+        mode: 'walk',
+        from: point(from),
+        to: point(to),
+        departure: at(departure),
+        arrival: at(arrival),
+        distanceMeters: 200,
+    };
+}
+
+function bus(tripId: string, from: string, to: string, departure: string, arrival: string) {
+    return {
+        mode: 'bus',
+        from: point(from),
+        to: point(to),
+        departure: at(departure),
+        arrival: at(arrival),
+        line: '42',
+        destination: 'City Centre',
+        tripId,
+        stopCount: 5,
+    } satisfies JourneyLeg;
+}
+
+function live(overrides: Partial<Departure>): Departure {
+    return {
+        line: '42',
+        destination: 'City Centre',
+        expectedDeparture: '08:08',
+        minutesUntil: 18,
+        status: 'delayed',
+        ...overrides,
+    };
+}
+
+function train(overrides: Partial<TrainDeparture>): TrainDeparture {
+    return {
+        destination: 'London Liverpool Street',
+        scheduledDeparture: '08:31',
+        expectedDeparture: '08:31',
+        minutesUntil: 41,
+        status: 'on-time',
+        isRealTime: true,
+        ...overrides,
+    };
+}
+
+/** Walk to the stop, bus 42 at 08:05, walk into the station by 08:23 */
+const DIRECT = toItinerary([
+    walk('home', 'stop', '08:00', '08:05'),
+    bus('T42', 'stop', 'bus-station', '08:05', '08:20'),
+    walk('bus-station', 'station', '08:20', '08:23'),
+]);
+
+describe('rail-connections', () => {
+    describe('applyBusDelay', () => {
+        it('should make the bus and the walk after it late', () => {
+            const delayed = applyBusDelay(DIRECT, live({ delayMinutes: 4 }), 60000)!;
+
+            expect(delayed.legs[0].departure).toEqual(at('08:00'));
+            expect(delayed.legs[1]).toMatchObject({ departure: at('08:09'), delayMinutes: 4 });
+            expect(delayed.arrival).toEqual(at('08:27'));
+        });
+
+        it('should keep timetabled times when the bus is on time, early or unknown', () => {
+            expect(applyBusDelay(DIRECT, undefined, 60000)).toBe(DIRECT);
+            expect(applyBusDelay(DIRECT, live({ delayMinutes: -2 }), 60000)).toBe(DIRECT);
+        });
+
+        it('should drop itineraries with a cancelled bus or a missed change', () => {
+            const change = toItinerary([
+                bus('T42', 'stop', 'interchange', '08:05', '08:15'),
+                bus('T54', 'interchange', 'station', '08:18', '08:25'),
+            ]);
+
+            expect(applyBusDelay(DIRECT, live({ status: 'cancelled' }), 60000)).toBeNull();
+            expect(applyBusDelay(change, live({ delayMinutes: 2 }), 60000)).not.toBeNull();
+            expect(applyBusDelay(change, live({ delayMinutes: 3 }), 60000)).toBeNull();
+        });
+    });
+
+    describe('connectTrains', () => {
+        const LATER = toItinerary([bus('T42b', 'stop', 'station', '08:15', '08:25')]);
+        const options = { minConnectionTime: 300000, now: NOW };
+
+        it('should pair each train with the latest bus that leaves time to change', () => {
+            const connections = connectTrains(
+                [DIRECT, LATER],
+                [train({}), train({ scheduledDeparture: '08:28', expectedDeparture: '08:28' })],
+                STATION,
+                options
+            );
+
+            expect(connections.map(c => [c.train.expectedDeparture, c.itinerary])).toEqual([
+                ['08:31', LATER],
+                ['08:28', DIRECT],
+            ]);
+            expect(connections.map(c => c.connectionMinutes)).toEqual([6, 5]);
+        });
+
+        it('should use the expected time of a late train', () => {
+            const [connection] = connectTrains(
+                [DIRECT, LATER],
+                [train({ scheduledDeparture: '08:26', expectedDeparture: '08:31' })],
+                STATION,
+                options
+            );
+
+            expect(connection.itinerary).toBe(LATER);
+            expect(connection.trainDeparture).toEqual(at('08:31'));
+        });
+
+        it('should skip cancelled trains and other destinations', () => {
+            const trains = [
+                train({ status: 'cancelled' }),
+                train({ destination: 'Southend Victoria', expectedDeparture: '08:45' }),
+                train({ destination: 'Norwich', expectedDeparture: '08:50' }),
+            ];
+
+            const itineraries: Itinerary[] = [DIRECT];
+            expect(
+                connectTrains(itineraries, trains, STATION, {
+                    ...options,
+                    destination: 'norwich',
+                }).map(c => c.train.destination)
+            ).toEqual(['Norwich']);
+        });
+
+        it('should match trains calling at the destination on the way', () => {
+            const stratford = {
+                name: 'Stratford',
+                crsCode: 'SRA',
+                scheduledTime: '09:05',
+                expectedTime: '09:05',
+                status: 'on-time' as const,
+            };
+            const trains = [
+                train({ callingPoints: [stratford] }),
+                train({ destination: 'Braintree', expectedDeparture: '08:45', callingPoints: [] }),
+            ];
+
+            const matched = (destination: string) =>
+                connectTrains([DIRECT], trains, STATION, { ...options, destination }).map(
+                    c => c.train.destination
+                );
+            expect(matched('stratford')).toEqual(['London Liverpool Street']);
+            expect(matched('SRA')).toEqual(['London Liverpool Street']);
+        });
+    });
+});
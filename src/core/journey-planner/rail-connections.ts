@@ -0,0 +1,146 @@
+/**
+ * Rail Connections
+ * Pairs bus journeys to a station with the trains leaving it, allowing
+ * time to change and using live times for both the bus and the train
+ */
+
+import { parseServiceTime } from '@utils/time';
+import { toItinerary } from './itinerary';
+import type {
+    Departure,
+    Itinerary,
+    JourneyLeg,
+    RailConnection,
+    TrainDeparture,
+    TrainStation,
+} from '@/types';
+
+/** Board times more than this far behind the reference are tomorrow's (ms) */
+const CLOCK_WRAP_THRESHOLD = 12 * 60 * 60 * 1000;
+
+/**
+ * Shift a leg's times by a number of minutes
+ */
+function shiftLeg(leg: JourneyLeg, minutes: number): JourneyLeg {
+    const shift = (date: Date) => new Date(date.getTime() + minutes * 60000);
+    return { ...leg, departure: shift(leg.departure), arrival: shift(leg.arrival) };
+}
+
+/**
+ * Apply the first bus's live running to an itinerary
+ * If the delay means missing the next bus, the itinerary no longer works.
+ * Early running is ignored, since a bus can't be relied on to stay ahead
+ * of the timetable.
+ * @param itinerary - Timetabled itinerary
+ * @param live - Live departure of the first bus at its boarding stop, if known
+ * @param minTransferTime - Time needed to change buses (ms)
+ * @returns Adjusted itinerary, or null if the bus is cancelled or a change is missed
+ */
+export function applyBusDelay(
+    itinerary: Itinerary,
+    live: Departure | undefined,
+    minTransferTime: number
+): Itinerary | null {
+    if (live?.status === 'cancelled') return null;
+
+    const delay = Math.max(0, live?.delayMinutes ?? 0);
+    const legs = itinerary.legs;
+    const first = legs.findIndex(leg => leg.mode === 'bus');
+    if (delay === 0 || first === -1) return itinerary;
+
+    // Lateness carries on until the next bus, which runs to its own timetable
+    const next = legs.findIndex((leg, index) => index > first && leg.mode === 'bus');
+    const end = next === -1 ? legs.length : next;
+    const shifted = legs.slice(first, end).map(leg => shiftLeg(leg, delay));
+    shifted[0] = { ...shifted[0], delayMinutes: delay } as JourneyLeg;
+
+    if (next !== -1) {
+        const last = shifted[shifted.length - 1];
+        const changeTime = last.mode === 'bus' ? minTransferTime : 0;
+        if (last.arrival.getTime() + changeTime > legs[next].departure.getTime()) return null;
+    }
+
+    return toItinerary([...legs.slice(0, first), ...shifted, ...legs.slice(end)]);
+}
+
+/**
+ * Convert a board time ("HH:MM") to the next matching Date around a reference time
+ */
+function boardTimeToDate(time: string, reference: Date): Date | null {
+    const seconds = parseServiceTime(time);
+    if (Number.isNaN(seconds)) return null;
+
+    const date = new Date(reference);
+    date.setHours(Math.floor(seconds / 3600), Math.floor((seconds % 3600) / 60), 0, 0);
+    if (date.getTime() < reference.getTime() - CLOCK_WRAP_THRESHOLD) {
+        date.setDate(date.getDate() + 1);
+    }
+    return date;
+}
+
+/**
+ * Check whether a train calls at or terminates at a destination
+ * @param destination - Lower-cased part of a station name, or a CRS code
+ */
+function callsAt(train: TrainDeparture, destination: string): boolean {
+    const stops = [
+        { name: train.destination },
+        ...(train.callingPoints ?? []),
+        ...(train.destinationArrival ? [train.destinationArrival] : []),
+    ];
+    return stops.some(
+        stop =>
+            stop.name.toLowerCase().includes(destination) ||
+            ('crsCode' in stop && stop.crsCode.toLowerCase() === destination)
+    );
+}
+
+/**
+ * Pair each train with the bus journey that gets to the station in time
+ * The latest-leaving journey is chosen, so there's as little waiting as possible
+ * @param itineraries - Journeys ending at the station, with live delays applied
+ * @param trains - Departures from the station's board
+ * @param station - Station the journeys end at
+ * @param options - Time needed to change to the train (ms), a station the train
+ *   must call at (case-insensitive, part of the name or its CRS code) and the current time
+ * @returns One connection per train that can be caught
+ */
+export function connectTrains(
+    itineraries: Itinerary[],
+    trains: TrainDeparture[],
+    station: TrainStation,
+    options: { minConnectionTime: number; destination?: string; now: Date }
+): RailConnection[] {
+    const destination = options.destination?.trim().toLowerCase();
+    const connections: RailConnection[] = [];
+
+    for (const train of trains) {
+        if (train.status === 'cancelled') continue;
+        if (destination && !callsAt(train, destination)) continue;
+
+        const trainDeparture = boardTimeToDate(train.expectedDeparture, options.now);
+        if (!trainDeparture) continue;
+
+        const latestArrival = trainDeparture.getTime() - options.minConnectionTime;
+        const itinerary = itineraries
+            .filter(it => it.arrival.getTime() <= latestArrival)
+            .sort(
+                (a, b) =>
+                    b.departure.getTime() - a.departure.getTime() ||
+                    a.arrival.getTime() - b.arrival.getTime()
+            )[0] as Itinerary | undefined;
+        if (!itinerary) continue;
+
+        connections.push({
+            itinerary,
+            station,
+            train,
+            trainDeparture,
+            connectionMinutes: Math.floor(
+                (trainDeparture.getTime() - itinerary.arrival.getTime()) / 60000
+            ),
+        });
+    }
+
+    return connections;
+}
@@ -0,0 +1,153 @@
+import { describe, it, expect } from 'vitest';
+import { buildTimetableIndex, searchJourneys, type JourneyQuery } from './raptor';
+import type { GTFSCalendar, GTFSNetwork, GTFSNetworkTrip } from '@/types';
+
+/** A Wednesday */
+const DAY = new Date(2025, 5, 11, 7, 0);
+
+/** Roughly one kilometre of latitude */
+const KM = 0.009;
+
+const WALKING = { walkingSpeed: 1, maxTransferWalk: 400 };
+
+function calendar(serviceId: string, days: Partial<GTFSCalendar>): GTFSCalendar {
+    return {
+        serviceId,
+        monday: false,
+        tuesday: false,
+        wednesday: false,
+        thursday: false,
+        friday: false,
+        saturday: false,
+        sunday: false,
+        startDate: '20250101',
+        endDate: '20251231',
+        ...days,
+    };
+}
+
+function trip(routeId: string, calls: [string, string][], serviceId = 'DAILY'): GTFSNetworkTrip {
+    return {
+        routeId,
+        serviceId,
+        calls: calls.map(([stopId, departureTime]) => ({ stopId, departureTime })),
+    };
+}
+
+/** Stops along a north-south road; D is 200m beyond C */
+const NETWORK: GTFSNetwork = {
+    stops: {
+        A: { latitude: 51.7, longitude: 0.47 },
+        B: { latitude: 51.7 + 1 * KM, longitude: 0.47 },
+        C: { latitude: 51.7 + 2 * KM, longitude: 0.47 },
+        D: { latitude: 51.7 + 2.2 * KM, longitude: 0.47 },
+        E: { latitude: 51.7 + 4 * KM, longitude: 0.47 },
+    },
+    trips: {
+        FAST_1: trip('R1', [
+            ['A', '08:00:00'],
+            ['B', '08:05:00'],
+            ['C', '08:10:00'],
+        ]),
+        FAST_2: trip('R2', [
+            ['D', '08:15:00'],
+            ['E', '08:25:00'],
+        ]),
+        SLOW: trip('R3', [
+            ['A', '08:05:00'],
+            ['E', '08:50:00'],
+        ]),
+        SUNDAY: trip(
+            'R3',
+            [
+                ['A', '08:01:00'],
+                ['E', '08:11:00'],
+            ],
+            'SUNDAY'
+        ),
+        TIGHT: trip('R4', [
+            ['B', '08:05:30'],
+            ['E', '08:15:00'],
+        ]),
+        LATER: trip('R4', [
+            ['B', '08:20:00'],
+            ['E', '08:30:00'],
+        ]),
+    },
+    routes: {},
+    calendar: {
+        DAILY: calendar('DAILY', {
+            monday: true,
+            tuesday: true,
+            wednesday: true,
+            thursday: true,
+            friday: true,
+            saturday: true,
+            sunday: true,
+        }),
+        SUNDAY: calendar('SUNDAY', { sunday: true }),
+    },
+    calendarDates: {},
+    lastUpdated: '2025-06-01T00:00:00.000Z',
+};
+
+function query(overrides: Partial<JourneyQuery> = {}): JourneyQuery {
+    return {
+        access: new Map([['A', 120]]),
+        egress: new Map([['E', 60]]),
+        departureTime: 7 * 3600 + 50 * 60,
+        maxTransfers: 2,
+        minTransferTime: 60,
+        ...overrides,
+    };
+}
+
+/** Summarise a journey as its rides and walks */
+function describeJourney(journey: ReturnType<typeof searchJourneys>[number]): string[] {
+    return journey.segments.map(segment =>
+        segment.type === 'ride'
+            ? `${segment.tripId} ${segment.from}-${segment.to}`
+            : `walk ${segment.from ?? 'origin'}-${segment.to ?? 'destination'}`
+    );
+}
+
+describe('raptor', () => {
+    const index = buildTimetableIndex(NETWORK, DAY, WALKING);
+
+    it('should trade arrival time against changes, walking between nearby stops', () => {
+        const journeys = searchJourneys(index, query());
+
+        expect(journeys.map(describeJourney)).toEqual([
+            ['walk origin-A', 'SLOW A-E', 'walk E-destination'],
+            ['walk origin-A', 'FAST_1 A-C', 'walk C-D', 'FAST_2 D-E', 'walk E-destination'],
+        ]);
+        expect(journeys.map(j => j.transfers)).toEqual([0, 1]);
+
+        const [, fastest] = journeys;
+        expect(fastest.departureTime).toBe(8 * 3600 - 120);
+        expect(fastest.arrivalTime).toBe(8 * 3600 + 25 * 60 + 60);
+    });
+
+    it('should leave enough time to change buses at the same stop', () => {
+        // TIGHT leaves B 30 seconds after FAST_1 arrives
+        const tight = ['walk origin-A', 'FAST_1 A-B', 'TIGHT B-E', 'walk E-destination'];
+
+        expect(
+            searchJourneys(index, query({ minTransferTime: 0 })).map(describeJourney)
+        ).toContainEqual(tight);
+        expect(searchJourneys(index, query()).map(describeJourney)).not.toContainEqual(tight);
+    });
+
+    it('should only use trips running on the service day', () => {
+        const sunday = buildTimetableIndex(NETWORK, new Date(2025, 5, 15, 7, 0), WALKING);
+
+        expect(searchJourneys(index, query()).flatMap(describeJourney)).not.toContain('SUNDAY A-E');
+        expect(searchJourneys(sunday, query()).map(describeJourney)).toEqual([
+            ['walk origin-A', 'SUNDAY A-E', 'walk E-destination'],
+        ]);
+    });
+
+    it('should find nothing when no bus leaves late enough', () => {
+        expect(searchJourneys(index, query({ departureTime: 9 * 3600 }))).toEqual([]);
+    });
+});
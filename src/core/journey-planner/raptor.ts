@@ -0,0 +1,400 @@
+/**
+ * RAPTOR Journey Search
+ * Round-based routing over the GTFS timetable. Each round adds one more bus,
+ * so the journeys found trade arrival time against the number of changes.
+ */
+
+import { parseServiceTime } from '@utils/time';
+import { isServiceActive } from '@api/gtfs-calendar';
+import { GeolocationService } from '@core/geolocation';
+import type { GTFSNetwork } from '@/types';
+
+/** Meters per degree of latitude, for a quick distance pre-check */
+const METERS_PER_DEGREE = 111320;
+
+/** A trip's departure time at each stop of its pattern (seconds into the service day) */
+interface PatternTrip {
+    tripId: string;
+    times: number[];
+}
+
+/** Trips calling at the same stops in the same order, the unit RAPTOR scans */
+interface RoutePattern {
+    stops: string[];
+    trips: PatternTrip[];
+}
+
+/** Walk from one stop to another */
+interface Transfer {
+    stopId: string;
+    seconds: number;
+}
+
+/** One service day's timetable, indexed for searching */
+export interface TimetableIndex {
+    /** Patterns calling at each stop, with the stop's position in the pattern */
+    stopPatterns: Map<string, { pattern: RoutePattern; position: number }[]>;
+    /** Stops within walking distance of each stop */
+    transfers: Map<string, Transfer[]>;
+}
+
+/** Search from walking distance of the origin to walking distance of the destination */
+export interface JourneyQuery {
+    /** Seconds walking from the origin to each nearby stop */
+    access: Map<string, number>;
+    /** Seconds walking from each nearby stop to the destination */
+    egress: Map<string, number>;
+    /** Earliest time to leave the origin (seconds into the service day) */
+    departureTime: number;
+    maxTransfers: number;
+    /** Seconds needed to change buses at the same stop */
+    minTransferTime: number;
+}
+
+/** How a stop was reached, linked back to the origin */
+type Label =
+    | { type: 'access'; time: number }
+    | {
+          type: 'ride';
+          time: number;
+          tripId: string;
+          boardStop: string;
+          boardTime: number;
+          previous: Label;
+      }
+    | { type: 'walk'; time: number; fromStop: string; previous: Label };
+
+/**
+ * Part of a journey, with times in seconds into the service day
+ * Walks to or from a null stop start at the origin or end at the destination
+ */
+export type JourneySegment =
+    | {
+          type: 'walk';
+          from: string | null;
+          to: string | null;
+          departureTime: number;
+          arrivalTime: number;
+      }
+    | {
+          type: 'ride';
+          tripId: string;
+          from: string;
+          to: string;
+          departureTime: number;
+          arrivalTime: number;
+      };
+
+/** Journey found by the search */
+export interface Journey {
+    segments: JourneySegment[];
+    departureTime: number;
+    arrivalTime: number;
+    transfers: number;
+}
+
+/** State shared by the pattern scans of one round */
+interface RoundState {
+    /** Stops reached in the previous round */
+    previous: Map<string, Label>;
+    /** Stops reached in this round */
+    labels: Map<string, Label>;
+    /** Earliest arrival at each stop in any round */
+    best: Map<string, number>;
+    /** Earliest arrival at the destination so far - later arrivals are pruned */
+    limit: number;
+    minTransferTime: number;
+}
+
+/**
+ * Add a value to a map of lists
+ */
+function append<K, V>(map: Map<K, V[]>, key: K, value: V): void {
+    const list = map.get(key);
+    if (list) list.push(value);
+    else map.set(key, [value]);
+}
+
+/**
+ * Find stops within walking distance of each other
+ */
+function buildTransfers(
+    stops: GTFSNetwork['stops'],
+    walkingSpeed: number,
+    maxWalk: number
+): Map<string, Transfer[]> {
+    const transfers = new Map<string, Transfer[]>();
+    const entries = Object.entries(stops);
+
+    for (let i = 0; i < entries.length; i++) {
+        const [fromId, from] = entries[i];
+        for (let j = i + 1; j < entries.length; j++) {
+            const [toId, to] = entries[j];
+            if (Math.abs(from.latitude - to.latitude) * METERS_PER_DEGREE > maxWalk) continue;
+
+            const distance = GeolocationService.calculateDistance(from, to);
+            if (distance > maxWalk) continue;
+
+            const seconds = Math.round(distance / walkingSpeed);
+            append(transfers, fromId, { stopId: toId, seconds });
+            append(transfers, toId, { stopId: fromId, seconds });
+        }
+    }
+
+    return transfers;
+}
+
+/**
+ * Index the trips running on a service day
+ * Trips are grouped into patterns so each group is scanned once per round
+ * @param network - Journey planning timetable
+ * @param serviceDay - Any time on the service date
+ * @param walking - Walking speed (m/s) and longest walk between stops (meters)
+ */
+export function buildTimetableIndex(
+    network: GTFSNetwork,
+    serviceDay: Date,
+    walking: { walkingSpeed: number; maxTransferWalk: number }
+): TimetableIndex {
+    const patterns = new Map<string, RoutePattern>();
+
+    for (const [tripId, trip] of Object.entries(network.trips)) {
+        if (!isServiceActive(network, trip.serviceId, serviceDay)) continue;
+
+        const times = trip.calls.map(call => parseServiceTime(call.departureTime));
+        if (times.some(Number.isNaN)) continue;
+
+        const stops = trip.calls.map(call => call.stopId);
+        const key = stops.join('>');
+        const pattern = patterns.get(key) ?? { stops, trips: [] };
+        patterns.set(key, pattern);
+        pattern.trips.push({ tripId, times });
+    }
+
+    const stopPatterns: TimetableIndex['stopPatterns'] = new Map();
+    for (const pattern of patterns.values()) {
+        pattern.stops.forEach((stopId, position) =>
+            append(stopPatterns, stopId, { pattern, position })
+        );
+    }
+
+    return {
+        stopPatterns,
+        transfers: buildTransfers(network.stops, walking.walkingSpeed, walking.maxTransferWalk),
+    };
+}
+
+/**
+ * Find the patterns serving the stops reached last round
+ * @returns Each pattern with the earliest position it needs scanning from
+ */
+function collectPatterns(
+    index: TimetableIndex,
+    reached: Map<string, Label>
+): Map<RoutePattern, number> {
+    const queue = new Map<RoutePattern, number>();
+
+    for (const stopId of reached.keys()) {
+        for (const { pattern, position } of index.stopPatterns.get(stopId) ?? []) {
+            queue.set(pattern, Math.min(queue.get(pattern) ?? Infinity, position));
+        }
+    }
+
+    return queue;
+}
+
+/**
+ * Find the trip leaving a pattern position soonest at or after a time
+ * Checks every trip, since buses on the same pattern can overtake each other
+ */
+function earliestTrip(pattern: RoutePattern, position: number, time: number): PatternTrip | null {
+    let earliest: PatternTrip | null = null;
+
+    for (const trip of pattern.trips) {
+        const departure = trip.times[position];
+        if (departure >= time && (!earliest || departure < earliest.times[position])) {
+            earliest = trip;
+        }
+    }
+
+    return earliest;
+}
+
+/**
+ * Ride a pattern from its earliest reached stop, recording better arrivals
+ * and switching to an earlier trip wherever one can be caught
+ */
+function scanPattern(pattern: RoutePattern, start: number, state: RoundState): void {
+    let boarded: { trip: PatternTrip; position: number; label: Label } | null = null;
+
+    for (let position = start; position < pattern.stops.length; position++) {
+        const stopId = pattern.stops[position];
+
+        if (boarded) {
+            const time = boarded.trip.times[position];
+            if (time < Math.min(state.best.get(stopId) ?? Infinity, state.limit)) {
+                state.labels.set(stopId, {
+                    type: 'ride',
+                    time,
+                    tripId: boarded.trip.tripId,
+                    boardStop: pattern.stops[boarded.position],
+                    boardTime: boarded.trip.times[boarded.position],
+                    previous: boarded.label,
+                });
+                state.best.set(stopId, time);
+            }
+        }
+
+        const reached = state.previous.get(stopId);
+        if (!reached) continue;
+
+        // Changing at the same stop needs a little time; walks already include it
+        const readyAt = reached.time + (reached.type === 'ride' ? state.minTransferTime : 0);
+        if (boarded && boarded.trip.times[position] <= readyAt) continue;
+
+        const trip = earliestTrip(pattern, position, readyAt);
+        if (trip && (!boarded || trip.times[position] < boarded.trip.times[position])) {
+            boarded = { trip, position, label: reached };
+        }
+    }
+}
+
+/**
+ * Walk from stops reached by bus this round to nearby stops
+ */
+function relaxTransfers(index: TimetableIndex, state: RoundState): void {
+    for (const [fromStop, label] of [...state.labels]) {
+        if (label.type !== 'ride') continue;
+
+        for (const transfer of index.transfers.get(fromStop) ?? []) {
+            const time = label.time + transfer.seconds;
+            if (time < Math.min(state.best.get(transfer.stopId) ?? Infinity, state.limit)) {
+                state.labels.set(transfer.stopId, {
+                    type: 'walk',
+                    time,
+                    fromStop,
+                    previous: label,
+                });
+                state.best.set(transfer.stopId, time);
+            }
+        }
+    }
+}
+
+/**
+ * Trace a stop's label back to the origin
+ */
+function toJourney(
+    label: Label,
+    stopId: string,
+    query: JourneyQuery,
+    egressSeconds: number
+): Journey {
+    const segments: JourneySegment[] = [];
+    if (egressSeconds > 0) {
+        segments.push({
+            type: 'walk',
+            from: stopId,
+            to: null,
+            departureTime: label.time,
+            arrivalTime: label.time + egressSeconds,
+        });
+    }
+
+    let current = label;
+    let at = stopId;
+    while (current.type !== 'access') {
+        if (current.type === 'ride') {
+            segments.unshift({
+                type: 'ride',
+                tripId: current.tripId,
+                from: current.boardStop,
+                to: at,
+                departureTime: current.boardTime,
+                arrivalTime: current.time,
+            });
+            at = current.boardStop;
+        } else {
+            segments.unshift({
+                type: 'walk',
+                from: current.fromStop,
+                to: at,
+                departureTime: current.previous.time,
+                arrivalTime: current.time,
+            });
+            at = current.fromStop;
+        }
+        current = current.previous;
+    }
+
+    // Leave the origin just in time for the first bus
+    const accessSeconds = query.access.get(at) ?? 0;
+    const firstBus = segments[0].departureTime;
+    if (accessSeconds > 0) {
+        segments.unshift({
+            type: 'walk',
+            from: null,
+            to: at,
+            departureTime: firstBus - accessSeconds,
+            arrivalTime: firstBus,
+        });
+    }
+
+    return {
+        segments,
+        departureTime: segments[0].departureTime,
+        arrivalTime: segments[segments.length - 1].arrivalTime,
+        transfers: segments.filter(segment => segment.type === 'ride').length - 1,
+    };
+}
+
+/**
+ * Find the journeys that get to the destination soonest for each number of changes
+ * Only journeys arriving earlier than those with fewer changes are returned
+ * @param index - Timetable for the service day
+ * @param query - Walks at each end, departure time and limits
+ * @returns Journeys, fewest changes first
+ */
+export function searchJourneys(index: TimetableIndex, query: JourneyQuery): Journey[] {
+    const journeys: Journey[] = [];
+    const best = new Map<string, number>();
+    let previous = new Map<string, Label>();
+
+    for (const [stopId, seconds] of query.access) {
+        const time = query.departureTime + seconds;
+        previous.set(stopId, { type: 'access', time });
+        best.set(stopId, time);
+    }
+
+    let limit = Infinity;
+    for (let round = 0; round <= query.maxTransfers && previous.size > 0; round++) {
+        const state: RoundState = {
+            previous,
+            labels: new Map(),
+            best,
+            limit,
+            minTransferTime: query.minTransferTime,
+        };
+
+        for (const [pattern, start] of collectPatterns(index, previous)) {
+            scanPattern(pattern, start, state);
+        }
+        relaxTransfers(index, state);
+
+        let arrival: Journey | null = null;
+        for (const [stopId, seconds] of query.egress) {
+            const label = state.labels.get(stopId);
+            if (label && label.time + seconds < (arrival?.arrivalTime ?? limit)) {
+                arrival = toJourney(label, stopId, query, seconds);
+            }
+        }
+        if (arrival) {
+            journeys.push(arrival);
+            limit = arrival.arrivalTime;
+        }
+
+        previous = state.labels;
+    }
+
+    return journeys;
+}
@@ -0,0 +1,98 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { JourneyPlannerService } from './service';
+import { JourneyPlannerError } from './errors';
+import { BusStopService } from '@core/bus-stops';
+import { BusStopCache } from '@core/bus-stops/cache';
+import { TrainDepartureService } from '@core/train-stations';
+import { TrainStationError } from '@core/train-stations/errors';
+import { setConfig, resetConfig } from '@config/index';
+import { ConfigSchema } from '@config/schema';
+import { JourneyPlannerErrorCode, TrainStationErrorCode } from '@/types';
+import type { GTFSManifest, GTFSNetwork } from '@/types';
+
+/** Danbury, over 5km from every station */
+const DANBURY = { latitude: 51.716, longitude: 0.578 };
+
+/** Clacton-on-Sea, beyond the bundled stations altogether */
+const CLACTON = { latitude: 51.789, longitude: 1.155 };
+
+const MANIFEST: GTFSManifest = {
+    version: 'v1',
+    lastUpdated: '2025-06-01T00:00:00.000Z',
+    stops: {},
+    lines: {},
+};
+
+const NETWORK: GTFSNetwork = {
+    stops: {},
+    trips: {},
+    routes: {},
+    calendar: {},
+    calendarDates: {},
+    lastUpdated: '2025-06-01T00:00:00.000Z',
+};
+
+describe('JourneyPlannerService', () => {
+    describe('planRailConnections', () => {
+        beforeEach(() => {
+            setConfig(ConfigSchema.parse({}));
+            vi.stubGlobal(
+                'fetch',
+                vi.fn(() => Promise.resolve({ ok: true, json: () => Promise.resolve(MANIFEST) }))
+            );
+            vi.spyOn(BusStopCache, 'getTimetableNetwork').mockResolvedValue({
+                id: 'network',
+                version: MANIFEST.version,
+                network: NETWORK,
+                timestamp: Date.now(),
+            });
+            vi.spyOn(BusStopCache, 'getStops').mockResolvedValue([]);
+            vi.spyOn(BusStopService, 'findNearest').mockResolvedValue([]);
+        });
+
+        afterEach(() => {
+            vi.restoreAllMocks();
+            vi.unstubAllGlobals();
+            resetConfig();
+        });
+
+        it('should look for stations beyond the departure board radius', async () => {
+            const getDepartures = vi
+                .spyOn(TrainDepartureService, 'getDeparturesForStation')
+                .mockResolvedValue({
+                    success: false,
+                    error: new TrainStationError(
+                        'Offline',
+                        TrainStationErrorCode.SERVICE_UNAVAILABLE
+                    ),
+                });
+
+            const connections = await JourneyPlannerService.planRailConnections({
+                type: 'coordinates',
+                coordinates: DANBURY,
+            });
+
+            expect(connections).toEqual([]);
+            expect(getDepartures.mock.calls.map(([station]) => station.crsCode)).toEqual([
+                'BPA',
+                'HAP',
+                'SOF',
+            ]);
+        });
+
+        it('should throw when no station is within the widest radius', async () => {
+            const getDepartures = vi.spyOn(TrainDepartureService, 'getDeparturesForStation');
+
+            const error = await JourneyPlannerService.planRailConnections({
+                type: 'coordinates',
+                coordinates: CLACTON,
+            }).catch((e: unknown) => e);
+
+            expect(error).toBeInstanceOf(JourneyPlannerError);
+            expect((error as JourneyPlannerError).code).toBe(
+                JourneyPlannerErrorCode.NO_STATIONS_NEARBY
+            );
+            expect(getDepartures).not.toHaveBeenCalled();
+        });
+    });
+});
@@ -0,0 +1,493 @@
+/**
+ * Journey Planner Service
+ * Plans bus journeys between two places from the bundled GTFS timetable.
+ * Everything runs on the device, so journeys can be planned offline.
+ */
+
+import { Logger } from '@utils/logger';
+import { getServiceTimeOffset, serviceTimeToDate } from '@utils/time';
+import { getConfig } from '@config/index';
+import { geocodePostcode } from '@api/geocoding';
+import { loadTimetableNetwork } from '@api/bods-gtfs';
+import { GeolocationService } from '@core/geolocation';
+import { BusStopService } from '@core/bus-stops';
+import { BusStopCache } from '@core/bus-stops/cache';
+import { TrainStationService, TrainDepartureService } from '@core/train-stations';
+import { JourneyPlannerError } from './errors';
+import { rankItineraries, toItinerary } from './itinerary';
+import { applyBusDelay, connectTrains } from './rail-connections';
+import { buildTimetableIndex, searchJourneys } from './raptor';
+import type { Journey, JourneySegment, TimetableIndex } from './raptor';
+import type {
+    BusStop,
+    Coordinates,
+    Departure,
+    GTFSNetwork,
+    Itinerary,
+    JourneyLeg,
+    JourneyPoint,
+    NearbyBusStop,
+    RailConnection,
+} from '@/types';
+import { JourneyPlannerErrorCode } from '@/types';
+
+/** Searches allowed per journey wanted, when looking for later journeys */
+const SEARCHES_PER_RESULT = 2;
+
+/** Bus journeys wanted to each station, so each train can be paired with one */
+const RAIL_JOURNEYS_WANTED = 8;
+
+/** Nearest stations to plan connections to */
+const RAIL_STATIONS_WANTED = 3;
+
+/** Leave this long after the previous journey when searching for the next (seconds) */
+const NEXT_SEARCH_DELAY = 60;
+
+/** Stops fetched around each end before keeping those in the timetable */
+const NEARBY_STOP_CANDIDATES = 50;
+
+/**
+ * Start or end of a journey
+ * - coordinates: a point such as the user's location
+ * - postcode: geocoded with postcodes.io (needs a connection)
+ * - stop: a bus stop by ATCO code
+ */
+export type JourneyPlace =
+    | { type: 'coordinates'; coordinates: Coordinates; name?: string }
+    | { type: 'postcode'; postcode: string }
+    | { type: 'stop'; atcoCode: string };
+
+/** A journey end with the stops that can be walked to from it (meters) */
+interface ResolvedPlace {
+    point: JourneyPoint;
+    stops: Map<string, number>;
+}
+
+/** Timetable and stop details shared by every search */
+interface PlanningData {
+    network: GTFSNetwork;
+    stops: BusStop[];
+    stopNames: Map<string, string>;
+}
+
+/** Everything needed to turn search results into itineraries */
+interface ItineraryContext {
+    network: GTFSNetwork;
+    origin: JourneyPoint;
+    destination: JourneyPoint;
+    stopNames: Map<string, string>;
+    serviceDay: Date;
+}
+
+/** Timetable index for the most recent service day, reused between searches */
+let cachedIndex: { network: GTFSNetwork; serviceDay: string; index: TimetableIndex } | null = null;
+
+/**
+ * Get the timetable index for a service day, building it when needed
+ */
+function getTimetableIndex(network: GTFSNetwork, serviceDay: Date): TimetableIndex {
+    const key = serviceDay.toDateString();
+    if (cachedIndex?.network === network && cachedIndex.serviceDay === key) {
+        return cachedIndex.index;
+    }
+
+    const { walkingSpeed, maxTransferWalk } = getConfig().journeyPlanner;
+    const index = buildTimetableIndex(network, serviceDay, { walkingSpeed, maxTransferWalk });
+    cachedIndex = { network, serviceDay: key, index };
+    return index;
+}
+
+/**
+ * Find timetabled stops within walking distance of a point
+ */
+async function findNearbyStops(
+    network: GTFSNetwork,
+    coordinates: Coordinates
+): Promise<Map<string, number>> {
+    const { maxAccessWalk, maxAccessStops } = getConfig().journeyPlanner;
+
+    let nearby: NearbyBusStop[] = [];
+    try {
+        nearby = await BusStopService.findNearest(
+            coordinates,
+            NEARBY_STOP_CANDIDATES,
+            maxAccessWalk
+        );
+    } catch (error) {
+        Logger.debug('No stops within walking distance', { coordinates, error });
+    }
+
+    return new Map(
+        nearby
+            .filter(stop => stop.atcoCode in network.stops)
+            .slice(0, maxAccessStops)
+            .map(stop => [stop.atcoCode, stop.distanceMeters])
+    );
+}
+
+/**
+ * Resolve a journey end to a point and the stops near it
+ */
+async function resolvePlace(
+    place: JourneyPlace,
+    network: GTFSNetwork,
+    stopNames: Map<string, string>,
+    defaultName: string
+): Promise<ResolvedPlace> {
+    if (place.type === 'stop') {
+        const coordinates = network.stops[place.atcoCode];
+        if (!coordinates) {
+            throw new JourneyPlannerError(
+                `Stop not in the timetable: ${place.atcoCode}`,
+                JourneyPlannerErrorCode.PLACE_NOT_FOUND
+            );
+        }
+        const name = stopNames.get(place.atcoCode) ?? place.atcoCode;
+        return {
+            point: { name, coordinates, stopId: place.atcoCode },
+            stops: new Map([[place.atcoCode, 0]]),
+        };
+    }
+
+    if (place.type === 'postcode') {
+        try {
+            const { coordinates, normalizedPostcode } = await geocodePostcode(place.postcode);
+            return {
+                point: { name: normalizedPostcode, coordinates },
+                stops: await findNearbyStops(network, coordinates),
+            };
+        } catch (error) {
+            throw new JourneyPlannerError(
+                `Could not find postcode: ${place.postcode}`,
+                JourneyPlannerErrorCode.PLACE_NOT_FOUND,
+                error instanceof Error ? error : undefined
+            );
+        }
+    }
+
+    return {
+        point: { name: place.name ?? defaultName, coordinates: place.coordinates },
+        stops: await findNearbyStops(network, place.coordinates),
+    };
+}
+
+/**
+ * Convert walking distances to walking times in seconds
+ */
+function toWalkingSeconds(distances: Map<string, number>): Map<string, number> {
+    const { walkingSpeed } = getConfig().journeyPlanner;
+    return new Map(
+        [...distances].map(([stopId, meters]) => [stopId, Math.round(meters / walkingSpeed)])
+    );
+}
+
+/**
+ * Build a journey point for a timetabled stop
+ */
+function stopPoint(stopId: string, context: ItineraryContext): JourneyPoint {
+    return {
+        name: context.stopNames.get(stopId) ?? stopId,
+        coordinates: context.network.stops[stopId],
+        stopId,
+    };
+}
+
+/**
+ * Convert a search segment to a journey leg
+ */
+function toLeg(segment: JourneySegment, context: ItineraryContext): JourneyLeg {
+    const toDate = (seconds: number) =>
+        new Date(serviceTimeToDate(context.serviceDay, '00:00:00').getTime() + seconds * 1000);
+
+    if (segment.type === 'walk') {
+        const from = segment.from === null ? context.origin : stopPoint(segment.from, context);
+        const to = segment.to === null ? context.destination : stopPoint(segment.to, context);
+        return {
+            mode: 'walk',
+            from,
+            to,
+            departure: toDate(segment.departureTime),
+            arrival: toDate(segment.arrivalTime),
+            distanceMeters: Math.round(
+                GeolocationService.calculateDistance(from.coordinates, to.coordinates)
+            ),
+        };
+    }
+
+    const trip = context.network.trips[segment.tripId];
+    const route = context.network.routes[trip.routeId] as GTFSNetwork['routes'][string] | undefined;
+    const boardIndex = trip.calls.findIndex(call => call.stopId === segment.from);
+    const alightIndex = trip.calls.findIndex(
+        (call, index) => index > boardIndex && call.stopId === segment.to
+    );
+    const lastStop = trip.calls[trip.calls.length - 1].stopId;
+
+    return {
+        mode: 'bus',
+        from: stopPoint(segment.from, context),
+        to: stopPoint(segment.to, context),
+        departure: toDate(segment.departureTime),
+        arrival: toDate(segment.arrivalTime),
+        line: route?.routeShortName ?? '',
+        destination: trip.tripHeadsign || route?.routeLongName || stopPoint(lastStop, context).name,
+        operatorName: route?.operatorName,
+        tripId: segment.tripId,
+        stopCount: alightIndex - boardIndex,
+    };
+}
+
+/**
+ * Build the walk-only itinerary, if the destination is close enough
+ */
+function walkingItinerary(context: ItineraryContext, departAt: Date): Itinerary | null {
+    const { walkingSpeed, maxAccessWalk } = getConfig().journeyPlanner;
+    const distance = GeolocationService.calculateDistance(
+        context.origin.coordinates,
+        context.destination.coordinates
+    );
+    if (distance > maxAccessWalk) return null;
+
+    return toItinerary([
+        {
+            mode: 'walk',
+            from: context.origin,
+            to: context.destination,
+            departure: departAt,
+            arrival: new Date(departAt.getTime() + (distance / walkingSpeed) * 1000),
+            distanceMeters: Math.round(distance),
+        },
+    ]);
+}
+
+/**
+ * Search repeatedly, leaving just after each earliest journey, to find later options
+ */
+function findJourneys(
+    index: TimetableIndex,
+    origin: ResolvedPlace,
+    destination: ResolvedPlace,
+    departAt: Date,
+    wanted: number
+): Journey[] {
+    const { maxTransfers, minTransferTime } = getConfig().journeyPlanner;
+    const query = {
+        access: toWalkingSeconds(origin.stops),
+        egress: toWalkingSeconds(destination.stops),
+        departureTime: getServiceTimeOffset(departAt, departAt),
+        maxTransfers,
+        minTransferTime: Math.round(minTransferTime / 1000),
+    };
+
+    const found = new Map<string, Journey>();
+    for (let search = 0; search < wanted * SEARCHES_PER_RESULT && found.size < wanted; search++) {
+        const journeys = searchJourneys(index, query);
+        if (journeys.length === 0) break;
+
+        for (const journey of journeys) {
+            const key = journey.segments.map(s => (s.type === 'ride' ? s.tripId : '')).join('|');
+            if (!found.has(key)) found.set(key, journey);
+        }
+
+        query.departureTime =
+            Math.min(...journeys.map(journey => journey.departureTime)) + NEXT_SEARCH_DELAY;
+    }
+
+    return [...found.values()];
+}
+
+/**
+ * Load the timetable and stop names
+ * @throws JourneyPlannerError if the timetable isn't available
+ */
+async function loadPlanningData(): Promise<PlanningData> {
+    const [network, stops] = await Promise.all([loadTimetableNetwork(), BusStopCache.getStops()]);
+    if (!network) {
+        throw new JourneyPlannerError(
+            'Journey planning timetable not available',
+            JourneyPlannerErrorCode.TIMETABLE_UNAVAILABLE
+        );
+    }
+
+    return {
+        network,
+        stops: stops ?? [],
+        stopNames: new Map((stops ?? []).map(stop => [stop.atcoCode, stop.commonName])),
+    };
+}
+
+/**
+ * Plan itineraries between two resolved places, including walking all the way
+ * when that's close enough
+ */
+function planItineraries(
+    data: PlanningData,
+    origin: ResolvedPlace,
+    destination: ResolvedPlace,
+    departAt: Date,
+    wanted: number
+): Itinerary[] {
+    const context: ItineraryContext = {
+        network: data.network,
+        origin: origin.point,
+        destination: destination.point,
+        stopNames: data.stopNames,
+        serviceDay: departAt,
+    };
+
+    const index = getTimetableIndex(data.network, departAt);
+    const itineraries = findJourneys(index, origin, destination, departAt, wanted).map(journey =>
+        toItinerary(journey.segments.map(segment => toLeg(segment, context)))
+    );
+
+    const walk = walkingItinerary(context, departAt);
+    if (walk) itineraries.push(walk);
+
+    return itineraries;
+}
+
+/**
+ * Apply the live running of each itinerary's first bus
+ * Falls back to the timetable where there's no live information (e.g. offline)
+ * @returns Itineraries that still work, dropping those with a cancelled bus or missed change
+ */
+async function applyLiveDelays(itineraries: Itinerary[], stops: BusStop[]): Promise<Itinerary[]> {
+    const { minTransferTime } = getConfig().journeyPlanner;
+    const boards = new Map<string, Promise<Departure[]>>();
+
+    const getLiveDepartures = (stopId: string): Promise<Departure[]> => {
+        let departures = boards.get(stopId);
+        if (!departures) {
+            const stop = stops.find(s => s.atcoCode === stopId);
+            departures = stop
+                ? BusStopService.getDeparturesForStop({ ...stop, distanceMeters: 0 }).then(
+                      board => board.departures
+                  )
+                : Promise.resolve([]);
+            boards.set(stopId, departures);
+        }
+        return departures;
+    };
+
+    const adjusted = await Promise.all(
+        itineraries.map(async itinerary => {
+            const bus = itinerary.legs.find(
+                (leg): leg is Extract<JourneyLeg, { mode: 'bus' }> => leg.mode === 'bus'
+            );
+            if (!bus?.from.stopId) return itinerary;
+
+            const departures = await getLiveDepartures(bus.from.stopId);
+            const live = departures.find(departure => departure.tripId === bus.tripId);
+            return applyBusDelay(itinerary, live, minTransferTime);
+        })
+    );
+
+    return adjusted.filter((itinerary): itinerary is Itinerary => itinerary !== null);
+}
+
+/**
+ * JourneyPlannerService - Plan journeys from the timetable
+ */
+export const JourneyPlannerService = {
+    /**
+     * Plan journeys between two places
+     * Only trips on the departure's service day are searched, so journeys
+     * starting after midnight can't use the previous evening's late buses
+     *
+     * @param from - Where the journey starts
+     * @param to - Where the journey ends
+     * @param departAt - Earliest time to leave (default: now)
+     * @returns Itineraries, best first (empty if there's no way to get there)
+     * @throws JourneyPlannerError if a place can't be found or the timetable isn't available
+     */
+    async plan(from: JourneyPlace, to: JourneyPlace, departAt = new Date()): Promise<Itinerary[]> {
+        const data = await loadPlanningData();
+        const [origin, destination] = await Promise.all([
+            resolvePlace(from, data.network, data.stopNames, 'Start'),
+            resolvePlace(to, data.network, data.stopNames, 'Destination'),
+        ]);
+
+        const { maxResults } = getConfig().journeyPlanner;
+        const itineraries = planItineraries(data, origin, destination, departAt, maxResults);
+
+        Logger.debug('Journeys planned', {
+            from: origin.point.name,
+            to: destination.point.name,
+            count: itineraries.length,
+        });
+
+        return itineraries.sort(rankItineraries).slice(0, maxResults);
+    },
+
+    /**
+     * Plan bus journeys to nearby train stations that connect with trains
+     * Bus times use the first bus's live running where available, and trains
+     * their expected departure from the live board
+     *
+     * @param from - Where the journey starts
+     * @param options - A station the train must call at, by part of its name or CRS code
+     *   (e.g. "Stratford"), and the earliest time to leave (default: now)
+     * @returns Connections, soonest train first
+     * @throws JourneyPlannerError if the start can't be found, the timetable isn't available,
+     *   or there's no station within the widest station search radius
+     */
+    async planRailConnections(
+        from: JourneyPlace,
+        options: { destination?: string; departAt?: Date } = {}
+    ): Promise<RailConnection[]> {
+        const departAt = options.departAt ?? new Date();
+        const data = await loadPlanningData();
+        const origin = await resolvePlace(from, data.network, data.stopNames, 'Start');
+        const { maxResults, minRailConnectionTime } = getConfig().journeyPlanner;
+
+        // Search as far as "Show more" can, since a bus can reach stations beyond the board radius
+        const { maxExpandedRadius } = getConfig().trainStations;
+        const stations = TrainStationService.getStationsByDistance(
+            origin.point.coordinates,
+            RAIL_STATIONS_WANTED,
+            maxExpandedRadius
+        );
+        if (stations.length === 0) {
+            throw new JourneyPlannerError(
+                `No train stations within ${maxExpandedRadius}m of ${origin.point.name}`,
+                JourneyPlannerErrorCode.NO_STATIONS_NEARBY
+            );
+        }
+
+        const connections = await Promise.all(
+            stations.map(async station => {
+                const [result, stationStops] = await Promise.all([
+                    TrainDepartureService.getDeparturesForStation(station),
+                    findNearbyStops(data.network, station.coordinates),
+                ]);
+                if (!result.success) {
+                    Logger.debug('No train times for connections', { crsCode: station.crsCode });
+                    return [];
+                }
+
+                const destination: ResolvedPlace = {
+                    point: { name: `${station.name} station`, coordinates: station.coordinates },
+                    stops: stationStops,
+                };
+                const itineraries = await applyLiveDelays(
+                    planItineraries(data, origin, destination, departAt, RAIL_JOURNEYS_WANTED),
+                    data.stops
+                );
+
+                return connectTrains(itineraries, result.board.departures, station, {
+                    minConnectionTime: minRailConnectionTime,
+                    destination: options.destination,
+                    now: departAt,
+                });
+            })
+        );
+
+        return connections
+            .flat()
+            .sort(
+                (a, b) =>
+                    a.trainDeparture.getTime() - b.trainDeparture.getTime() ||
+                    b.itinerary.departure.getTime() - a.itinerary.departure.getTime()
+            )
+            .slice(0, maxResults);
+    },
+};
@@ -1,47 +1,102 @@
 /**
- * IndexedDB Cache for Train Departures
+ * IndexedDB Cache for Train Departures and Arrivals
  * Uses shared database with bus cache
  */
 
 import { Logger } from '@utils/logger';
 import { getConfig } from '@config/index';
-import type { TrainDeparture } from '@/types';
-
-const DB_NAME = 'cm123go-cache';
-const DB_VERSION = 2;
-const TRAIN_DEPARTURES_STORE = 'train-departures';
+import { TRAIN_DEPARTURES_STORE, openDatabase } from '@utils/cache-database';
+import type { TrainArrival, TrainArrivalData, TrainDeparture, TrainDepartureData } from '@/types';
 
 interface CachedTrainDepartures {
-    crsCode: string;
+    crsCode: string; // Station, or "station:destination" for a filtered board
     departures: TrainDeparture[];
+    messages?: string[];
+    timestamp: number;
+}
+
+/** Arrivals share the store, keyed "arrivals:station" */
+interface CachedTrainArrivals {
+    crsCode: string;
+    arrivals: TrainArrival[];
+    messages?: string[];
     timestamp: number;
 }
 
 /**
- * Open the IndexedDB database (shared with bus cache)
+ * Key a station's board, keeping filtered boards apart from the full one
  */
-function openDatabase(): Promise<IDBDatabase> {
-    return new Promise((resolve, reject) => {
-        const request = indexedDB.open(DB_NAME, DB_VERSION);
-
-        request.onerror = () => {
-            Logger.error('Failed to open IndexedDB', request.error);
-            reject(new Error(request.error?.message ?? 'Failed to open IndexedDB'));
-        };
-
-        request.onsuccess = () => {
-            resolve(request.result);
-        };
-
-        request.onupgradeneeded = event => {
-            const db = (event.target as IDBOpenDBRequest).result;
-
-            // Create train departures store if it doesn't exist
-            if (!db.objectStoreNames.contains(TRAIN_DEPARTURES_STORE)) {
-                db.createObjectStore(TRAIN_DEPARTURES_STORE, { keyPath: 'crsCode' });
-            }
-        };
-    });
+function cacheKey(crsCode: string, destinationCrs: string | undefined): string {
+    return destinationCrs ? `${crsCode}:${destinationCrs}` : crsCode;
+}
+
+/**
+ * Read a cached board, or null if it's missing or older than departuresCacheTtl
+ */
+async function readEntry<T extends { timestamp: number }>(key: string): Promise<T | null> {
+    try {
+        const db = await openDatabase();
+        const ttl = getConfig().trainStations.departuresCacheTtl;
+
+        return await new Promise(resolve => {
+            const transaction = db.transaction(TRAIN_DEPARTURES_STORE, 'readonly');
+            const store = transaction.objectStore(TRAIN_DEPARTURES_STORE);
+            const request = store.get(key);
+
+            request.onsuccess = () => {
+                const cached = request.result as T | undefined;
+                if (!cached) {
+                    resolve(null);
+                    return;
+                }
+
+                // Check if cache is expired (short TTL for boards)
+                if (Date.now() - cached.timestamp > ttl) {
+                    Logger.debug('Train board cache expired', { key });
+                    resolve(null);
+                    return;
+                }
+
+                Logger.debug('Loaded train board from cache', { key });
+                resolve(cached);
+            };
+
+            request.onerror = () => {
+                Logger.warn('Failed to read train board cache', request.error);
+                resolve(null);
+            };
+        });
+    } catch {
+        Logger.warn('IndexedDB not available for train board cache');
+        return null;
+    }
+}
+
+/**
+ * Store a board in the cache
+ */
+async function writeEntry(entry: CachedTrainDepartures | CachedTrainArrivals): Promise<void> {
+    try {
+        const db = await openDatabase();
+
+        return await new Promise((resolve, reject) => {
+            const transaction = db.transaction(TRAIN_DEPARTURES_STORE, 'readwrite');
+            const store = transaction.objectStore(TRAIN_DEPARTURES_STORE);
+            const request = store.put(entry);
+
+            request.onsuccess = () => {
+                Logger.debug('Train board cached', { key: entry.crsCode });
+                resolve();
+            };
+
+            request.onerror = () => {
+                Logger.warn('Failed to cache train board', request.error);
+                reject(new Error(request.error?.message ?? 'Failed to cache train board'));
+            };
+        });
+    } catch (error) {
+        Logger.warn('IndexedDB not available for caching train board', error);
+    }
 }
 
 /**
@@ -49,88 +104,56 @@ function openDatabase(): Promise<IDBDatabase> {
  */
 export const TrainStationCache = {
     /**
-     * Get cached train departures for a station
-     * @returns Departures array or null if cache is empty/expired
+     * Get cached train departures and station messages for a station
+     * @returns Departures and messages, or null if cache is empty/expired
      */
-    async getDepartures(crsCode: string): Promise<TrainDeparture[] | null> {
-        try {
-            const db = await openDatabase();
-            const config = getConfig();
-            const ttl = config.trainStations.departuresCacheTtl;
-
-            return await new Promise(resolve => {
-                const transaction = db.transaction(TRAIN_DEPARTURES_STORE, 'readonly');
-                const store = transaction.objectStore(TRAIN_DEPARTURES_STORE);
-                const request = store.get(crsCode);
-
-                request.onsuccess = () => {
-                    const cached = request.result as CachedTrainDepartures | undefined;
-                    if (!cached) {
-                        resolve(null);
-                        return;
-                    }
-
-                    // Check if cache is expired (short TTL for departures)
-                    if (Date.now() - cached.timestamp > ttl) {
-                        Logger.debug('Train departures cache expired', { crsCode });
-                        resolve(null);
-                        return;
-                    }
-
-                    Logger.debug('Loaded train departures from cache', {
-                        crsCode,
-                        count: cached.departures.length,
-                    });
-                    resolve(cached.departures);
-                };
-
-                request.onerror = () => {
-                    Logger.warn('Failed to read train departures cache', request.error);
-                    resolve(null);
-                };
-            });
-        } catch {
-            Logger.warn('IndexedDB not available for train departures cache');
-            return null;
-        }
+    async getDepartures(
+        crsCode: string,
+        destinationCrs?: string
+    ): Promise<TrainDepartureData | null> {
+        const cached = await readEntry<CachedTrainDepartures>(cacheKey(crsCode, destinationCrs));
+        return cached && { departures: cached.departures, messages: cached.messages };
     },
 
     /**
-     * Store train departures in cache
+     * Store train departures and station messages in cache
      */
-    async setDepartures(crsCode: string, departures: TrainDeparture[]): Promise<void> {
-        try {
-            const db = await openDatabase();
-
-            return await new Promise((resolve, reject) => {
-                const transaction = db.transaction(TRAIN_DEPARTURES_STORE, 'readwrite');
-                const store = transaction.objectStore(TRAIN_DEPARTURES_STORE);
-
-                const data: CachedTrainDepartures = {
-                    crsCode,
-                    departures,
-                    timestamp: Date.now(),
-                };
-
-                const request = store.put(data);
+    async setDepartures(
+        crsCode: string,
+        board: TrainDepartureData,
+        destinationCrs?: string
+    ): Promise<void> {
+        await writeEntry({
+            crsCode: cacheKey(crsCode, destinationCrs),
+            departures: board.departures,
+            messages: board.messages,
+            timestamp: Date.now(),
+        });
+    },
 
-                request.onsuccess = () => {
-                    Logger.debug('Train departures cached', { crsCode });
-                    resolve();
-                };
+    /**
+     * Get cached train arrivals and station messages for a station
+     * @returns Arrivals and messages, or null if cache is empty/expired
+     */
+    async getArrivals(crsCode: string): Promise<TrainArrivalData | null> {
+        const cached = await readEntry<CachedTrainArrivals>(`arrivals:${crsCode}`);
+        return cached && { arrivals: cached.arrivals, messages: cached.messages };
+    },
 
-                request.onerror = () => {
-                    Logger.warn('Failed to cache train departures', request.error);
-                    reject(new Error(request.error?.message ?? 'Failed to cache train departures'));
-                };
-            });
-        } catch (error) {
-            Logger.warn('IndexedDB not available for caching train departures', error);
-        }
+    /**
+     * Store train arrivals and station messages in cache
+     */
+    async setArrivals(crsCode: string, board: TrainArrivalData): Promise<void> {
+        await writeEntry({
+            crsCode: `arrivals:${crsCode}`,
+            arrivals: board.arrivals,
+            messages: board.messages,
+            timestamp: Date.now(),
+        });
     },
 
     /**
-     * Clear all cached train departures
+     * Clear all cached train departures and arrivals
      */
     async clear(): Promise<void> {
         try {
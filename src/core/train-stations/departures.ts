@@ -1,39 +1,62 @@
 /**
  * Train Departure Service
- * Orchestrates fetching train departures with caching
+ * Orchestrates fetching train departures and arrivals with caching
  */
 
 import { Logger } from '@utils/logger';
-import { fetchTrainDepartures } from '@api/huxley';
+import { fetchTrainArrivals, fetchTrainDepartures, fetchTrainService } from '@api/huxley';
 import { TrainStationCache } from './cache';
 import { TrainStationError } from './errors';
-import type { NearbyTrainStation, TrainDepartureBoard, TrainStationErrorCode } from '@/types';
+import type {
+    NearbyTrainStation,
+    TrainDepartureBoard,
+    TrainServiceDetail,
+    TrainStationErrorCode,
+} from '@/types';
 
 /** Result type for single station departure fetch */
 type TrainDepartureResult =
     | { success: true; board: TrainDepartureBoard }
     | { success: false; error: TrainStationError };
 
+/** Which board to show for each station */
+interface StationBoardOptions {
+    /** Destination CRS to filter departures by, keyed by station */
+    destinations?: Map<string, string>;
+    /** Stations showing arrivals instead of departures */
+    arrivals?: Set<string>;
+}
+
+/** Result type for a train's calling points */
+type TrainServiceResult =
+    | { success: true; detail: TrainServiceDetail }
+    | { success: false; error: TrainStationError };
+
 /**
  * Train Departure Service - fetches and caches train departures
  */
 export const TrainDepartureService = {
     /**
      * Get departures for a single station (cache-first)
+     * @param destinationCrs - Only show trains calling at this station
      */
-    async getDeparturesForStation(station: NearbyTrainStation): Promise<TrainDepartureResult> {
+    async getDeparturesForStation(
+        station: NearbyTrainStation,
+        destinationCrs?: string
+    ): Promise<TrainDepartureResult> {
         const { crsCode } = station;
 
         try {
             // Try cache first
-            const cached = await TrainStationCache.getDepartures(crsCode);
+            const cached = await TrainStationCache.getDepartures(crsCode, destinationCrs);
             if (cached !== null) {
                 Logger.debug('Using cached train departures', { crsCode });
                 return {
                     success: true,
                     board: {
                         station,
-                        departures: cached,
+                        ...cached,
+                        destinationCrs,
                         lastUpdated: Date.now(),
                         isStale: true,
                     },
@@ -41,16 +64,17 @@ export const TrainDepartureService = {
             }
 
             // Fetch fresh departures
-            const departures = await fetchTrainDepartures(crsCode);
+            const data = await fetchTrainDepartures(crsCode, undefined, destinationCrs);
 
             // Cache the result (even if empty)
-            await TrainStationCache.setDepartures(crsCode, departures);
+            await TrainStationCache.setDepartures(crsCode, data, destinationCrs);
 
             return {
                 success: true,
                 board: {
                     station,
-                    departures,
+                    ...data,
+                    destinationCrs,
                     lastUpdated: Date.now(),
                     isStale: false,
                 },
@@ -77,21 +101,26 @@ export const TrainDepartureService = {
 
     /**
      * Refresh departures for a single station (bypass cache)
+     * @param destinationCrs - Only show trains calling at this station
      */
-    async refreshDeparturesForStation(station: NearbyTrainStation): Promise<TrainDepartureResult> {
+    async refreshDeparturesForStation(
+        station: NearbyTrainStation,
+        destinationCrs?: string
+    ): Promise<TrainDepartureResult> {
         const { crsCode } = station;
 
         try {
-            const departures = await fetchTrainDepartures(crsCode);
+            const data = await fetchTrainDepartures(crsCode, undefined, destinationCrs);
 
             // Update cache
-            await TrainStationCache.setDepartures(crsCode, departures);
+            await TrainStationCache.setDepartures(crsCode, data, destinationCrs);
 
             return {
                 success: true,
                 board: {
                     station,
-                    departures,
+                    ...data,
+                    destinationCrs,
                     lastUpdated: Date.now(),
                     isStale: false,
                 },
@@ -117,11 +146,114 @@ export const TrainDepartureService = {
     },
 
     /**
-     * Get departures for multiple stations in parallel
+     * Get arrivals for a single station (cache-first)
+     */
+    async getArrivalsForStation(station: NearbyTrainStation): Promise<TrainDepartureResult> {
+        const { crsCode } = station;
+
+        try {
+            const cached = await TrainStationCache.getArrivals(crsCode);
+            if (cached !== null) {
+                Logger.debug('Using cached train arrivals', { crsCode });
+                return {
+                    success: true,
+                    board: {
+                        station,
+                        departures: [],
+                        ...cached,
+                        lastUpdated: Date.now(),
+                        isStale: true,
+                    },
+                };
+            }
+
+            return await this.refreshArrivalsForStation(station);
+        } catch (error) {
+            Logger.error('Failed to get train arrivals', { crsCode, error });
+            return {
+                success: false,
+                error: new TrainStationError(
+                    `Failed to fetch arrivals for ${station.name}`,
+                    1 as typeof TrainStationErrorCode.DEPARTURES_UNAVAILABLE,
+                    error instanceof Error ? error : undefined
+                ),
+            };
+        }
+    },
+
+    /**
+     * Refresh arrivals for a single station (bypass cache)
+     */
+    async refreshArrivalsForStation(station: NearbyTrainStation): Promise<TrainDepartureResult> {
+        const { crsCode } = station;
+
+        try {
+            const data = await fetchTrainArrivals(crsCode);
+            await TrainStationCache.setArrivals(crsCode, data);
+
+            return {
+                success: true,
+                board: {
+                    station,
+                    departures: [],
+                    ...data,
+                    lastUpdated: Date.now(),
+                    isStale: false,
+                },
+            };
+        } catch (error) {
+            const isApiKeyMissing = error instanceof Error && error.message === 'API_KEY_MISSING';
+            if (!isApiKeyMissing) {
+                Logger.error('Failed to refresh train arrivals', { crsCode, error });
+            }
+            return {
+                success: false,
+                error: new TrainStationError(
+                    isApiKeyMissing
+                        ? 'Train API key not configured'
+                        : `Failed to refresh arrivals for ${station.name}`,
+                    isApiKeyMissing
+                        ? (3 as typeof TrainStationErrorCode.API_KEY_MISSING)
+                        : (1 as typeof TrainStationErrorCode.DEPARTURES_UNAVAILABLE),
+                    error instanceof Error ? error : undefined
+                ),
+            };
+        }
+    },
+
+    /**
+     * Get a train's calling points and position (never cached, as it's tracked live)
+     */
+    async getServiceDetail(serviceId: string): Promise<TrainServiceResult> {
+        try {
+            return { success: true, detail: await fetchTrainService(serviceId) };
+        } catch (error) {
+            const isApiKeyMissing = error instanceof Error && error.message === 'API_KEY_MISSING';
+            if (!isApiKeyMissing) {
+                Logger.warn('Failed to get train service details', { serviceId, error });
+            }
+            return {
+                success: false,
+                error: new TrainStationError(
+                    isApiKeyMissing
+                        ? 'Train API key not configured'
+                        : `Failed to fetch service ${serviceId}`,
+                    isApiKeyMissing
+                        ? (3 as typeof TrainStationErrorCode.API_KEY_MISSING)
+                        : (4 as typeof TrainStationErrorCode.SERVICE_UNAVAILABLE),
+                    error instanceof Error ? error : undefined
+                ),
+            };
+        }
+    },
+
+    /**
+     * Get departures (or arrivals) for multiple stations in parallel
      * Supports partial success - returns results for stations that succeeded
      */
     async getDeparturesForAllStations(
-        stations: NearbyTrainStation[]
+        stations: NearbyTrainStation[],
+        options: StationBoardOptions = {}
     ): Promise<TrainDepartureResult[]> {
         if (stations.length === 0) {
             return [];
@@ -133,7 +265,14 @@ export const TrainDepartureService = {
         });
 
         const results = await Promise.allSettled(
-            stations.map(station => this.getDeparturesForStation(station))
+            stations.map(station =>
+                options.arrivals?.has(station.crsCode)
+                    ? this.getArrivalsForStation(station)
+                    : this.getDeparturesForStation(
+                          station,
+                          options.destinations?.get(station.crsCode)
+                      )
+            )
         );
 
         return results.map((result, index) => {
@@ -154,10 +293,11 @@ export const TrainDepartureService = {
     },
 
     /**
-     * Refresh departures for multiple stations in parallel
+     * Refresh departures (or arrivals) for multiple stations in parallel
      */
     async refreshDeparturesForAllStations(
-        stations: NearbyTrainStation[]
+        stations: NearbyTrainStation[],
+        options: StationBoardOptions = {}
     ): Promise<TrainDepartureResult[]> {
         if (stations.length === 0) {
             return [];
@@ -169,7 +309,14 @@ export const TrainDepartureService = {
         });
 
         const results = await Promise.allSettled(
-            stations.map(station => this.refreshDeparturesForStation(station))
+            stations.map(station =>
+                options.arrivals?.has(station.crsCode)
+                    ? this.refreshArrivalsForStation(station)
+                    : this.refreshDeparturesForStation(
+                          station,
+                          options.destinations?.get(station.crsCode)
+                      )
+            )
         );
 
         return results.map((result, index) => {
@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import { findFastestDeparture } from './destination';
+import type { TrainDeparture } from '@/types';
+
+function train(
+    expectedDeparture: string,
+    minutesUntil: number,
+    arrival: string | undefined,
+    overrides: Partial<TrainDeparture> = {}
+): TrainDeparture {
+    return {
+        destination: 'London Liverpool Street',
+        scheduledDeparture: expectedDeparture,
+        expectedDeparture,
+        minutesUntil,
+        status: 'on-time',
+        isRealTime: true,
+        destinationArrival: arrival
+            ? {
+                  name: 'London Liverpool Street',
+                  crsCode: 'LST',
+                  scheduledTime: arrival,
+                  expectedTime: arrival,
+                  status: 'on-time',
+              }
+            : undefined,
+        ...overrides,
+    };
+}
+
+describe('destination', () => {
+    it('should pick the train that arrives first, not the one that leaves first', () => {
+        const stopping = train('07:48', 3, '08:42');
+        const fast = train('07:55', 10, '08:34');
+
+        expect(findFastestDeparture([stopping, fast])).toBe(fast);
+    });
+
+    it('should compare arrivals across midnight', () => {
+        const late = train('23:50', 5, '00:40');
+        const later = train('23:58', 13, '00:35');
+
+        expect(findFastestDeparture([late, later])).toBe(later);
+    });
+
+    it('should ignore cancelled trains and ones without an arrival time', () => {
+        const cancelled = train('07:48', 3, '08:20', { status: 'cancelled' });
+        const unknown = train('07:50', 5, undefined);
+        const running = train('07:55', 10, '08:34');
+
+        expect(findFastestDeparture([cancelled, unknown, running])).toBe(running);
+        expect(findFastestDeparture([cancelled, unknown])).toBeUndefined();
+    });
+});
@@ -0,0 +1,40 @@
+/**
+ * Destination Filter
+ * Compares trains on a board filtered to one destination
+ */
+
+import { getDelayMinutes } from '@utils/time';
+import type { TrainDeparture } from '@/types';
+
+/**
+ * Minutes from now until a train reaches the filtered destination
+ * Journeys are timed from the board's own departure time, so a train
+ * crossing midnight still compares correctly with the others.
+ */
+function minutesUntilArrival(departure: TrainDeparture): number {
+    const arrival = departure.destinationArrival;
+    if (!arrival || departure.status === 'cancelled' || arrival.status === 'cancelled') {
+        return NaN;
+    }
+    return (
+        departure.minutesUntil + getDelayMinutes(departure.expectedDeparture, arrival.expectedTime)
+    );
+}
+
+/**
+ * Find the train that gets to the filtered destination first
+ * Ignores cancelled trains and trains with no arrival time there
+ */
+export function findFastestDeparture(departures: TrainDeparture[]): TrainDeparture | undefined {
+    let fastest: TrainDeparture | undefined;
+    let fastestMinutes = Infinity;
+
+    for (const departure of departures) {
+        const minutes = minutesUntilArrival(departure);
+        if (minutes < fastestMinutes) {
+            fastest = departure;
+            fastestMinutes = minutes;
+        }
+    }
+    return fastest;
+}
@@ -43,6 +43,8 @@ export class TrainStationError extends Error {
                 return 'Too many requests. Please wait a moment and try again.';
             case TrainStationErrorCode.API_KEY_MISSING:
                 return 'Train departure service not configured.';
+            case TrainStationErrorCode.SERVICE_UNAVAILABLE:
+                return 'Could not load the stations this train calls at. Please try again.';
             default:
                 return 'An error occurred loading train information.';
         }
@@ -0,0 +1,60 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { TrainStationService } from './service';
+import { setConfig, resetConfig } from '@config/index';
+import { ConfigSchema } from '@config/schema';
+
+/** Great Baddow, south east of Chelmsford */
+const GREAT_BADDOW = { latitude: 51.719, longitude: 0.507 };
+
+/** South Woodham Ferrers town centre */
+const SOUTH_WOODHAM = { latitude: 51.646, longitude: 0.615 };
+
+function useStations(stations: string[] = []): void {
+    setConfig(ConfigSchema.parse({ trainStations: { stations } }));
+}
+
+describe('TrainStationService', () => {
+    beforeEach(() => useStations());
+
+    afterEach(() => {
+        resetConfig();
+    });
+
+    it('should find stations within the search radius, nearest first', () => {
+        const stations = TrainStationService.getStationsByDistance(GREAT_BADDOW);
+
+        expect(stations.map(s => s.crsCode)).toEqual(['CHM', 'BPA']);
+        expect(stations[0].operator).toBe('Greater Anglia');
+        expect(stations.every(s => s.distanceMeters <= 5000)).toBe(true);
+    });
+
+    it('should find the station on the Southminster branch', () => {
+        const [nearest] = TrainStationService.getStationsByDistance(SOUTH_WOODHAM);
+
+        expect(nearest.crsCode).toBe('SOF');
+        expect(nearest.distanceMeters).toBeLessThan(1000);
+    });
+
+    it('should only offer stations included in the config', () => {
+        useStations(['chm', 'INT']);
+
+        const stations = TrainStationService.getStationsByDistance(GREAT_BADDOW, 10, 20000);
+
+        expect(stations.map(s => s.crsCode)).toEqual(['CHM', 'INT']);
+    });
+
+    it('should expand the radius until it finds stations not already shown', () => {
+        const result = TrainStationService.getExpandedStations(GREAT_BADDOW, ['CHM', 'BPA'], 5000);
+
+        expect(result.actualRadius).toBe(10000);
+        expect(result.stations.map(s => s.crsCode)).toEqual(['HAP']);
+    });
+
+    it('should stop at the max radius when there are no more stations', () => {
+        useStations(['CHM']);
+
+        const result = TrainStationService.getExpandedStations(GREAT_BADDOW, ['CHM'], 5000);
+
+        expect(result).toEqual({ stations: [], actualRadius: 20000 });
+    });
+});
@@ -1,31 +1,40 @@
 /**
  * Train Station Service
- * Simple service for Chelmsford area train stations
+ * Finds nearby stations from the bundled Chelmsford area station list
  */
 
+import { z } from 'zod';
+import { getConfig } from '@/config';
 import { GeolocationService } from '@core/geolocation';
+import { TrainStationSchema } from '@/types';
 import type { Coordinates, TrainStation, NearbyTrainStation } from '@/types';
+import stationData from './stations.json';
 
 /**
- * Chelmsford train stations (hardcoded - only 2 stations)
+ * Stations on the lines through Chelmsford, bundled with the app
  */
-const CHELMSFORD_STATIONS: TrainStation[] = [
-    {
-        crsCode: 'CHM',
-        name: 'Chelmsford',
-        coordinates: {
-            latitude: 51.7361,
-            longitude: 0.469,
-        },
-    },
-    {
-        crsCode: 'BPA',
-        name: 'Beaulieu Park',
-        coordinates: {
-            latitude: 51.7574,
-            longitude: 0.5187,
-        },
-    },
+const BUNDLED_STATIONS: TrainStation[] = z.array(TrainStationSchema).parse(stationData);
+
+/**
+ * Get the bundled stations the config includes (all of them by default)
+ */
+function getIncludedStations(): TrainStation[] {
+    const included = getConfig().trainStations.stations;
+    if (included.length === 0) return BUNDLED_STATIONS;
+
+    const codes = new Set(included.map(code => code.toUpperCase()));
+    return BUNDLED_STATIONS.filter(station => codes.has(station.crsCode));
+}
+
+/**
+ * Where Chelmsford's commuters mostly go, offered as board filters
+ */
+const COMMON_DESTINATIONS: Pick<TrainStation, 'crsCode' | 'name'>[] = [
+    { crsCode: 'LST', name: 'London Liverpool Street' },
+    { crsCode: 'SRA', name: 'Stratford' },
+    { crsCode: 'SNF', name: 'Shenfield' },
+    { crsCode: 'COL', name: 'Colchester' },
+    { crsCode: 'IPS', name: 'Ipswich' },
 ];
 
 /**
@@ -33,12 +42,74 @@ const CHELMSFORD_STATIONS: TrainStation[] = [
  */
 export const TrainStationService = {
     /**
-     * Get all train stations sorted by distance from user location
+     * Get the nearest train stations within a radius, nearest first
+     * @param userLocation - User's current coordinates
+     * @param maxResults - Maximum number of stations to return (default: 3)
+     * @param customRadius - Search radius in meters (default: config maxSearchRadius)
+     */
+    getStationsByDistance(
+        userLocation: Coordinates,
+        maxResults = 3,
+        customRadius?: number
+    ): NearbyTrainStation[] {
+        const maxRadius = customRadius ?? getConfig().trainStations.maxSearchRadius;
+
+        return getIncludedStations()
+            .map(station => ({
+                ...station,
+                distanceMeters: GeolocationService.calculateDistance(
+                    userLocation,
+                    station.coordinates
+                ),
+            }))
+            .filter(station => station.distanceMeters <= maxRadius)
+            .sort((a, b) => a.distanceMeters - b.distanceMeters)
+            .slice(0, maxResults);
+    },
+
+    /**
+     * Get more stations by expanding the search radius
+     * Used for "Show more" functionality, like BusStopService.getExpandedStops
+     * @param userLocation - User's current coordinates
+     * @param excludeCrsCodes - CRS codes to exclude (already displayed)
+     * @param currentRadius - Current search radius (will expand from here)
+     * @param maxResults - Maximum number of stations to return (default: 2)
+     * @returns Object with stations and the actual radius used
+     */
+    getExpandedStations(
+        userLocation: Coordinates,
+        excludeCrsCodes: string[],
+        currentRadius: number,
+        maxResults = 2
+    ): { stations: NearbyTrainStation[]; actualRadius: number } {
+        const config = getConfig().trainStations;
+        const excludeSet = new Set(excludeCrsCodes);
+        let searchRadius = currentRadius + config.radiusIncrement;
+
+        // Try progressively larger radii until we find stations or hit max
+        while (searchRadius <= config.maxExpandedRadius) {
+            const newStations = this.getStationsByDistance(
+                userLocation,
+                BUNDLED_STATIONS.length,
+                searchRadius
+            )
+                .filter(station => !excludeSet.has(station.crsCode))
+                .slice(0, maxResults);
+
+            if (newStations.length > 0) {
+                return { stations: newStations, actualRadius: searchRadius };
+            }
+
+            searchRadius += config.radiusIncrement;
+        }
+
+        return { stations: [], actualRadius: config.maxExpandedRadius };
+    },
+
+    /**
+     * Get the destinations a station's board can be filtered to
      */
-    getStationsByDistance(userLocation: Coordinates): NearbyTrainStation[] {
-        return CHELMSFORD_STATIONS.map(station => ({
-            ...station,
-            distanceMeters: GeolocationService.calculateDistance(userLocation, station.coordinates),
-        })).sort((a, b) => a.distanceMeters - b.distanceMeters);
+    getDestinations(): Pick<TrainStation, 'crsCode' | 'name'>[] {
+        return COMMON_DESTINATIONS;
     },
 };
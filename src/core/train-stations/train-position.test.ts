@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import { findTrainPosition } from './train-position';
+import type { TrainCallingPoint, TrainServiceDetail } from '@/types';
+
+function point(
+    name: string,
+    scheduledTime: string,
+    overrides: Partial<TrainCallingPoint> = {}
+): TrainCallingPoint {
+    return {
+        name,
+        crsCode: name.slice(0, 3).toUpperCase(),
+        scheduledTime,
+        expectedTime: scheduledTime,
+        status: 'on-time',
+        ...overrides,
+    };
+}
+
+function service(
+    previous: TrainCallingPoint[],
+    station: TrainCallingPoint,
+    next: TrainCallingPoint[]
+): TrainServiceDetail {
+    return {
+        serviceId: 'abc123',
+        station,
+        destination: next.at(-1)?.name ?? station.name,
+        previousCallingPoints: previous,
+        callingPoints: next,
+        generatedAt: 0,
+    };
+}
+
+const CHELMSFORD = point('Chelmsford', '07:48');
+const INGATESTONE = point('Ingatestone', '07:55');
+
+describe('train-position', () => {
+    it('should place the train after its last reported station', () => {
+        const position = findTrainPosition(
+            service(
+                [
+                    point('Colchester', '07:20', { actualTime: '07:21' }),
+                    point('Witham', '07:35', { actualTime: '07:37' }),
+                    point('Hatfield Peverel', '07:40'),
+                ],
+                CHELMSFORD,
+                [INGATESTONE]
+            )
+        );
+
+        expect(position).toMatchObject({
+            type: 'between',
+            last: { name: 'Witham' },
+            next: { name: 'Hatfield Peverel' },
+        });
+    });
+
+    it('should skip cancelled stops when finding the next station', () => {
+        const position = findTrainPosition(
+            service(
+                [
+                    point('Witham', '07:35', { actualTime: '07:35' }),
+                    point('Hatfield Peverel', '07:40', { status: 'cancelled' }),
+                ],
+                CHELMSFORD,
+                [INGATESTONE]
+            )
+        );
+
+        expect(position).toMatchObject({ type: 'between', next: { name: 'Chelmsford' } });
+    });
+
+    it('should report trains that have not started or have arrived', () => {
+        expect(findTrainPosition(service([], CHELMSFORD, [INGATESTONE]))).toMatchObject({
+            type: 'not-started',
+            origin: { name: 'Chelmsford' },
+        });
+
+        const arrived = findTrainPosition(
+            service([], { ...CHELMSFORD, actualTime: '07:48' }, [
+                { ...INGATESTONE, actualTime: '07:56' },
+            ])
+        );
+        expect(arrived).toMatchObject({ type: 'arrived', last: { name: 'Ingatestone' } });
+    });
+
+    it('should not place a cancelled train', () => {
+        expect(
+            findTrainPosition(service([], { ...CHELMSFORD, status: 'cancelled' }, [INGATESTONE]))
+        ).toBeNull();
+    });
+});
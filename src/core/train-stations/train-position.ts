@@ -0,0 +1,33 @@
+/**
+ * Train Position
+ * Works out where a train is from the calling points Darwin has reports for
+ */
+
+import type { TrainCallingPoint, TrainPosition, TrainServiceDetail } from '@/types';
+
+/**
+ * Find where a train was last reported along its run
+ * Darwin reports a time for each station the train has reached, so the train
+ * is somewhere after the last reported station and before the next one it
+ * still calls at. Returns null for a cancelled train.
+ */
+export function findTrainPosition(detail: TrainServiceDetail): TrainPosition | null {
+    if (detail.station.status === 'cancelled') return null;
+
+    const points: TrainCallingPoint[] = [
+        ...detail.previousCallingPoints,
+        detail.station,
+        ...detail.callingPoints,
+    ].filter(point => point.status !== 'cancelled');
+
+    let lastIndex = -1;
+    points.forEach((point, index) => {
+        if (point.actualTime) lastIndex = index;
+    });
+
+    if (lastIndex === -1) return { type: 'not-started', origin: points[0] };
+
+    const last = points[lastIndex];
+    const next = points[lastIndex + 1];
+    return next ? { type: 'between', last, next } : { type: 'arrived', last };
+}
@@ -12,13 +12,14 @@ import {
     TrainDepartureService,
     setUserLocation,
     initializeState,
+    getArrivalStations,
     type DisplayItem,
 } from '@/core';
 import { reverseGeocodeToPostcode, geocodePostcode } from '@/api';
 import { debounce } from '@/utils/helpers';
 import { FavoritesManager } from '@/utils/favorites';
 import { saveLocation, getSavedLocation } from '@/utils/location-storage';
-import type { Coordinates, DepartureBoard } from '@/types';
+import type { BusStop, Coordinates, DepartureBoard } from '@/types';
 import {
     displayItems,
     displayError,
@@ -50,6 +51,12 @@ import {
     type TextSize,
 } from '@/utils/settings';
 import { setupHelpHandlers, showHelpIfFirstVisit } from '@/ui/help';
+import { setupTrackingPanelHandlers } from '@/ui/tracking';
+import { setupLinePanelHandlers } from '@/ui/line-view';
+import { setupJourneyPlannerHandlers } from '@/ui/journey-planner';
+import { setupStopSearch } from '@/ui/stop-search';
+import { setupDisruptionsPanelHandlers } from '@/ui/disruptions';
+import { setupServicePanelHandlers } from '@/ui/train-service';
 
 /**
  * Check if coordinates are within the Chelmsford service area
@@ -120,7 +127,10 @@ async function fetchAndDisplayDepartures(location: Coordinates): Promise<void> {
     const [favoriteStops, busResult, trainResults] = await Promise.all([
         BusStopService.getByAtcoCodes(favoriteAtcoCodes, location),
         BusStopService.getBothDirections(location),
-        TrainDepartureService.getDeparturesForAllStations(trainStations),
+        TrainDepartureService.getDeparturesForAllStations(trainStations, {
+            destinations: FavoritesManager.getStationDestinations(),
+            arrivals: getArrivalStations(),
+        }),
     ]);
 
     // Convert train results to display items (include both successful and failed)
@@ -229,6 +239,25 @@ function setupPostcodeForm(): void {
     });
 }
 
+/**
+ * Show departures for a stop found by name, as if the user were standing at it
+ */
+function showSearchedStop(stop: BusStop): void {
+    setUserLocation(stop.coordinates);
+    updatePostcodeDisplay(`<span class="status">${stop.commonName}</span>`, true);
+    showLoadingDepartures();
+
+    void (async () => {
+        try {
+            await fetchAndDisplayDepartures(stop.coordinates);
+            showRefreshContainer();
+        } catch (error) {
+            Logger.error('Failed to show searched stop', String(error));
+            displayError('Unable to load departures for this stop');
+        }
+    })();
+}
+
 /**
  * Set up install banner buttons
  */
@@ -363,6 +392,18 @@ function setupThemeButton(): void {
     });
 }
 
+/**
+ * Set up the help, tracking, line, disruptions and journey planner panels
+ */
+function setupPanels(): void {
+    setupHelpHandlers();
+    setupTrackingPanelHandlers();
+    setupLinePanelHandlers();
+    setupDisruptionsPanelHandlers();
+    setupServicePanelHandlers();
+    setupJourneyPlannerHandlers();
+}
+
 /**
  * Initialize the application
  */
@@ -374,7 +415,7 @@ async function init(): Promise<void> {
             setupTextSizeButtons();
             setupContrastButton();
             setupThemeButton();
-            setupHelpHandlers();
+            setupPanels();
         } catch (settingsError) {
             Logger.warn('Settings initialization failed, continuing', settingsError);
         }
@@ -384,7 +425,7 @@ async function init(): Promise<void> {
         Logger.success('Configuration loaded');
 
         // Initialize state from config
-        initializeState(config.busStops.maxSearchRadius);
+        initializeState(config.busStops.maxSearchRadius, config.trainStations.maxSearchRadius);
 
         // Set up the callback for re-rendering
         setSetupHandlersCallback(setupAllHandlers);
@@ -401,6 +442,9 @@ async function init(): Promise<void> {
         // Set up manual postcode entry form (early, so it works if geolocation fails)
         setupPostcodeForm();
 
+        // Set up stop search by name
+        setupStopSearch(showSearchedStop);
+
         // Check if geolocation is supported
         if (!GeolocationService.isSupported()) {
             showPostcodeEntryForm(
@@ -61,6 +61,11 @@ export const BusStopSchema = z.object({
     coordinates: CoordinatesSchema,
     street: z.string().optional(),
     locality: z.string().optional(),
+    /** NaPTAN stop area grouping this stop with its neighbours (e.g. "150G00000001") */
+    stopAreaCode: z.string().optional(),
+    stopAreaName: z.string().optional(),
+    /** On-street stop, or a bay inside a bus station */
+    stopType: z.enum(['on-street', 'bus-station']).optional(),
 });
 export type BusStop = z.infer<typeof BusStopSchema>;
 
@@ -70,6 +75,13 @@ const NearbyBusStopSchema = BusStopSchema.extend({
 });
 export type NearbyBusStop = z.infer<typeof NearbyBusStopSchema>;
 
+/** Stop found by name search */
+export interface StopSearchMatch {
+    stop: BusStop;
+    score: number; // Lower is a closer match to the query
+    distanceMeters?: number; // From the user, when their location is known
+}
+
 /** Departure information */
 const DepartureSchema = z.object({
     line: z.string(),
@@ -77,18 +89,66 @@ const DepartureSchema = z.object({
     expectedDeparture: z.string(),
     minutesUntil: z.number(),
     status: z.enum(['on-time', 'delayed', 'cancelled', 'scheduled', 'unknown']),
+    /** Timetabled departure time ("HH:MM") when it's known alongside a live estimate */
+    scheduledDeparture: z.string().optional(),
+    /** Minutes behind (+) or ahead of (-) the timetable */
+    delayMinutes: z.number().optional(),
     operatorName: z.string().optional(),
+    /** National Operator Code (e.g. "FESX") when the source reports it */
+    operatorCode: z.string().optional(),
     /** True if departure time is from real-time SIRI-VM data */
     isRealTime: z.boolean().optional(),
+    /** ID of the departure provider it came from (e.g. "first-bus", "siri-vm", "gtfs") */
+    source: z.string().optional(),
+    /** How far to trust an ETA we estimated from a vehicle's position */
+    confidence: z.enum(['high', 'medium', 'low']).optional(),
+    /** GTFS trip ID, when the departure is known in the timetable */
+    tripId: z.string().optional(),
+    /** SIRI-VM vehicle running the departure, when one has been matched */
+    vehicleRef: z.string().optional(),
 });
 export type Departure = z.infer<typeof DepartureSchema>;
 
+/** A request to be notified shortly before a bus or train leaves */
+export type DepartureAlert = {
+    key: string; // Finds the departure again on a refreshed board
+    label: string; // e.g. "42 to Broomfield Hospital"
+    stopName: string;
+    leadMinutes: number;
+    expectedAt: number; // When it's expected to leave (ms), from the latest estimate
+};
+
+/** Whether a departure can be caught by walking to its stop now */
+export type DepartureCatchability = 'catchable' | 'tight' | 'missed';
+
+/** Disruption from the BODS SIRI-SX feed (a "situation") */
+const _DisruptionSchema = z.object({
+    id: z.string(), // SituationNumber
+    summary: z.string(),
+    description: z.string().optional(),
+    /** Advice to passengers, e.g. where to catch the bus instead */
+    advice: z.string().optional(),
+    severity: z.string().optional(), // "slight", "normal", "severe"...
+    reason: z.string().optional(), // "roadworks", "specialEvent"...
+    validFrom: z.date().optional(),
+    validTo: z.date().optional(),
+    /** Lines affected, as shown on the bus (PublishedLineName, or LineRef) */
+    lines: z.array(z.string()),
+    /** National Operator Codes of the operators affected */
+    operators: z.array(z.string()),
+    /** ATCO codes of the stops affected */
+    stops: z.array(z.string()),
+});
+export type Disruption = z.infer<typeof _DisruptionSchema>;
+
 /** Departure board response */
 const _DepartureBoardSchema = z.object({
     stop: NearbyBusStopSchema,
     departures: z.array(DepartureSchema),
     lastUpdated: z.number(),
     isStale: z.boolean(),
+    /** Disruptions affecting the stop or lines calling at it */
+    disruptions: z.array(_DisruptionSchema).optional(),
 });
 export type DepartureBoard = z.infer<typeof _DepartureBoardSchema>;
 
@@ -101,6 +161,7 @@ export const BusStopErrorCode = {
     SIRI_VM_UNAVAILABLE: 5,
     GTFS_DATA_OUTDATED: 6,
     XML_PARSE_ERROR: 7,
+    SIRI_SX_UNAVAILABLE: 8,
 } as const;
 export type BusStopErrorCodeType = (typeof BusStopErrorCode)[keyof typeof BusStopErrorCode];
 
@@ -143,14 +204,26 @@ export interface GTFSStopTime {
     stopSequence: number;
 }
 
+/** Call at a stop along a trip, with the stop's location (for route-based ETAs) */
+export interface GTFSTripCall {
+    stopId: string;
+    stopSequence: number;
+    departureTime: string; // HH:MM:SS, may exceed 24:00:00
+    latitude: number;
+    longitude: number;
+}
+
 /** GTFS trip entry */
 export interface GTFSTrip {
     tripId: string;
     routeId: string;
     serviceId: string;
     tripHeadsign?: string;
-    directionId?: number;
+    directionId?: number; // 0 = outbound, 1 = inbound (BODS convention)
     blockId?: string;
+    vehicleJourneyCode?: string; // Matches SIRI-VM VehicleJourneyRef
+    originStopId?: string; // First stop of the trip (may be outside Chelmsford)
+    destinationStopId?: string; // Last stop of the trip
 }
 
 /** GTFS route entry */
@@ -159,23 +232,177 @@ export interface GTFSRoute {
     routeShortName: string;
     routeLongName?: string;
     operatorName?: string;
+    operatorCode?: string; // Operator NOC (e.g. "FESX")
 }
 
+/** GTFS calendar entry (weekly service pattern) */
+export interface GTFSCalendar {
+    serviceId: string;
+    monday: boolean;
+    tuesday: boolean;
+    wednesday: boolean;
+    thursday: boolean;
+    friday: boolean;
+    saturday: boolean;
+    sunday: boolean;
+    startDate: string; // YYYYMMDD
+    endDate: string; // YYYYMMDD
+}
+
+/** GTFS calendar_dates exception */
+export interface GTFSCalendarDate {
+    serviceId: string;
+    date: string; // YYYYMMDD
+    exceptionType: 1 | 2; // 1 = service added, 2 = service removed
+}
+
+/**
+ * Pre-processed GTFS timetable (output of the ingestion tool in scripts/gtfs)
+ * Served as one shard per stop, each holding only the trips, routes and
+ * services that call at that stop
+ */
+export interface GTFSData {
+    stopTimes: Record<string, GTFSStopTime[]>; // Indexed by stopId, sorted by departure time
+    tripCalls: Record<string, GTFSTripCall[]>; // Indexed by tripId, in stop sequence order
+    trips: Record<string, GTFSTrip>; // Indexed by tripId
+    routes: Record<string, GTFSRoute>; // Indexed by routeId
+    calendar: Record<string, GTFSCalendar>; // Indexed by serviceId
+    calendarDates: Record<string, GTFSCalendarDate[]>; // Indexed by serviceId
+    lastUpdated: string;
+}
+
+/** A line's usual stop pattern in one direction */
+export interface GTFSLineDirection {
+    directionId?: number; // 0 = outbound, 1 = inbound (BODS convention)
+    destination: string;
+    stops: Pick<GTFSTripCall, 'stopId' | 'latitude' | 'longitude'>[]; // In stop sequence order
+}
+
+/** Stop patterns for a line, built from its most common trip in each direction */
+export interface GTFSLine {
+    line: string; // Route short name (e.g. "42")
+    operatorName?: string;
+    directions: GTFSLineDirection[];
+}
+
+/** Trip in the journey planning timetable */
+export interface GTFSNetworkTrip {
+    routeId: string;
+    serviceId: string;
+    tripHeadsign?: string;
+    calls: Pick<GTFSTripCall, 'stopId' | 'departureTime'>[]; // In stop sequence order
+}
+
+/** Compact timetable of every trip, for planning journeys on the device */
+export interface GTFSNetwork {
+    stops: Record<string, Coordinates>; // Indexed by stopId
+    trips: Record<string, GTFSNetworkTrip>; // Indexed by tripId
+    routes: Record<string, GTFSRoute>; // Indexed by routeId
+    calendar: Record<string, GTFSCalendar>; // Indexed by serviceId
+    calendarDates: Record<string, GTFSCalendarDate[]>; // Indexed by serviceId
+    lastUpdated: string;
+}
+
+/** Index of GTFS timetable shards (served at /gtfs/index.json) */
+export interface GTFSManifest {
+    version: string; // Changes whenever the timetable is rebuilt
+    lastUpdated: string;
+    stops: Record<string, string>; // Shard path relative to /gtfs/, indexed by stopId
+    lines: Record<string, string>; // Line pattern path relative to /gtfs/, indexed by line
+    network?: string; // Journey planning timetable path relative to /gtfs/
+}
+
+// --- Journey Planner Types ---
+
+/** Start or end of a journey leg */
+export interface JourneyPoint {
+    name: string;
+    coordinates: Coordinates;
+    stopId?: string; // Set when the point is a bus stop
+}
+
+/** Walk between two points */
+interface WalkLeg {
+    mode: 'walk';
+    from: JourneyPoint;
+    to: JourneyPoint;
+    departure: Date;
+    arrival: Date;
+    distanceMeters: number;
+}
+
+/** Ride on a timetabled bus trip */
+interface BusLeg {
+    mode: 'bus';
+    from: JourneyPoint;
+    to: JourneyPoint;
+    departure: Date;
+    arrival: Date;
+    line: string;
+    destination: string;
+    operatorName?: string;
+    tripId: string;
+    stopCount: number; // Stops travelled, including the stop alighted at
+    delayMinutes?: number; // Live lateness already applied to the times
+}
+
+export type JourneyLeg = WalkLeg | BusLeg;
+
+/** Door-to-door journey option */
+export interface Itinerary {
+    legs: JourneyLeg[];
+    departure: Date;
+    arrival: Date;
+    durationMinutes: number;
+    transfers: number;
+    walkingMeters: number;
+}
+
+/** Journey to a station that connects with a train */
+export interface RailConnection {
+    itinerary: Itinerary; // Door to station, with live bus delays applied
+    station: TrainStation;
+    train: TrainDeparture;
+    trainDeparture: Date; // Expected departure, including any delay
+    connectionMinutes: number; // Time at the station before the train leaves
+}
+
+/** Journey planner error codes */
+export const JourneyPlannerErrorCode = {
+    PLACE_NOT_FOUND: 1,
+    TIMETABLE_UNAVAILABLE: 2,
+    NO_STATIONS_NEARBY: 3,
+} as const;
+export type JourneyPlannerErrorCodeType =
+    (typeof JourneyPlannerErrorCode)[keyof typeof JourneyPlannerErrorCode];
+
 // --- Train Station Types ---
 
 /** Train station data */
-const _TrainStationSchema = z.object({
+export const TrainStationSchema = z.object({
     crsCode: z.string(), // 3-letter CRS code (e.g., "CHM")
     name: z.string(),
     coordinates: CoordinatesSchema,
+    operator: z.string().optional(), // Station operator (e.g., "Greater Anglia")
 });
-export type TrainStation = z.infer<typeof _TrainStationSchema>;
+export type TrainStation = z.infer<typeof TrainStationSchema>;
 
 /** Train station with calculated distance */
 export type NearbyTrainStation = TrainStation & { distanceMeters: number };
 
 // --- Train Departure Types ---
 
+/** A station a train calls at */
+const _TrainCallingPointSchema = z.object({
+    name: z.string(),
+    crsCode: z.string(),
+    scheduledTime: z.string(), // "10:30"
+    expectedTime: z.string(), // "10:35" or same as scheduled
+    actualTime: z.string().optional(), // Reported time once the train has been there
+    status: z.enum(['on-time', 'delayed', 'cancelled', 'unknown']),
+});
+export type TrainCallingPoint = z.infer<typeof _TrainCallingPointSchema>;
+
 /** Train departure information */
 const _TrainDepartureSchema = z.object({
     destination: z.string(),
@@ -187,22 +414,76 @@ const _TrainDepartureSchema = z.object({
     operatorName: z.string().optional(),
     status: z.enum(['on-time', 'delayed', 'cancelled', 'unknown']),
     isRealTime: z.boolean(),
+    delayReason: z.string().optional(), // e.g. "This train has been delayed by a signalling fault"
+    cancelReason: z.string().optional(),
+    serviceId: z.string().optional(), // Darwin service ID, for fetching the service's details
+    callingPoints: z.array(_TrainCallingPointSchema).optional(), // Stations after this one
+    destinationArrival: _TrainCallingPointSchema.optional(), // Arrival at the filtered destination
+    isReplacementBus: z.boolean().optional(), // Rail replacement bus rather than a train
+    boardingPoint: z.string().optional(), // Where a replacement bus leaves from, when Darwin says
 });
 export type TrainDeparture = z.infer<typeof _TrainDepartureSchema>;
 
+/** Train arrival information */
+const _TrainArrivalSchema = z.object({
+    origin: z.string(),
+    scheduledArrival: z.string(), // "10:30"
+    expectedArrival: z.string(), // "10:35" or same as scheduled
+    minutesUntil: z.number(),
+    platform: z.string().optional(),
+    operatorCode: z.string().optional(),
+    operatorName: z.string().optional(),
+    status: z.enum(['on-time', 'delayed', 'cancelled', 'unknown']),
+    isRealTime: z.boolean(),
+    delayReason: z.string().optional(),
+    cancelReason: z.string().optional(),
+    serviceId: z.string().optional(),
+});
+export type TrainArrival = z.infer<typeof _TrainArrivalSchema>;
+
+/** A train's full run, as seen from one station */
+export type TrainServiceDetail = {
+    serviceId: string;
+    station: TrainCallingPoint; // The station the service was opened from
+    destination: string;
+    operatorName?: string;
+    platform?: string;
+    delayReason?: string;
+    cancelReason?: string;
+    previousCallingPoints: TrainCallingPoint[];
+    callingPoints: TrainCallingPoint[]; // Stations after this one
+    generatedAt: number;
+};
+
+/** Where a train was last reported */
+export type TrainPosition =
+    | { type: 'not-started'; origin: TrainCallingPoint }
+    | { type: 'between'; last: TrainCallingPoint; next: TrainCallingPoint }
+    | { type: 'arrived'; last: TrainCallingPoint };
+
 /** Train departure board for a station */
 export type TrainDepartureBoard = {
     station: NearbyTrainStation;
     departures: TrainDeparture[];
+    arrivals?: TrainArrival[]; // Set when the board shows arrivals instead of departures
+    messages?: string[]; // NRCC station messages, as plain text
+    destinationCrs?: string; // Only trains calling here are shown
     lastUpdated: number;
     isStale: boolean;
 };
 
+/** Departures and station messages fetched for a station */
+export type TrainDepartureData = Pick<TrainDepartureBoard, 'departures' | 'messages'>;
+
+/** Arrivals and station messages fetched for a station */
+export type TrainArrivalData = Pick<TrainDepartureBoard, 'messages'> & { arrivals: TrainArrival[] };
+
 /** Train station error codes */
 export const TrainStationErrorCode = {
     DEPARTURES_UNAVAILABLE: 1,
     RATE_LIMITED: 2,
     API_KEY_MISSING: 3,
+    SERVICE_UNAVAILABLE: 4,
 } as const;
 export type TrainStationErrorCodeType =
     (typeof TrainStationErrorCode)[keyof typeof TrainStationErrorCode];
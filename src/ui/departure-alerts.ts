@@ -0,0 +1,319 @@
+/**
+ * Departure Alerts
+ * Notifies through the service worker shortly before a chosen bus or train leaves.
+ * Alerts only run while the app is open.
+ */
+
+import { getConfig } from '@/config';
+import { Logger } from '@/utils/logger';
+import { BusStopService, TrainDepartureService } from '@/core';
+import { getAllDisplayItems } from '@/core/app-state';
+import {
+    findBusDeparture,
+    getBusAlertKey,
+    getNotifyAt,
+    getTrainAlertKey,
+    retargetAlert,
+} from '@/core/departure-alerts';
+import type { Departure, DepartureAlert, TrainDeparture } from '@/types';
+
+/** A departure found again on a fresh board, with its current alert key */
+interface FoundDeparture {
+    departure: Departure | TrainDeparture;
+    key: string;
+}
+
+/** A departure that can have an alert set, and how to find it on a fresh board */
+interface AlertTarget {
+    alert: DepartureAlert;
+    findDeparture: (alert: DepartureAlert) => Promise<FoundDeparture | undefined>;
+}
+
+/** An alert being followed */
+interface ActiveAlert extends AlertTarget {
+    refreshTimer: ReturnType<typeof setInterval>;
+    notifyTimer: ReturnType<typeof setTimeout> | null;
+}
+
+/** Alerts being followed, by departure key */
+const activeAlerts = new Map<string, ActiveAlert>();
+
+/**
+ * Check whether an alert is set for a departure
+ */
+export function hasAlert(key: string): boolean {
+    return activeAlerts.has(key);
+}
+
+/**
+ * Announce a status message to screen readers via live region
+ */
+function announce(message: string): void {
+    const announcer = document.getElementById('status-announcer');
+    if (announcer) announcer.textContent = message;
+}
+
+/**
+ * Show a notification, through the service worker when one is registered
+ */
+async function showNotification(title: string, body: string, tag: string): Promise<void> {
+    const options = { body, tag, icon: '/icons/icon-192.png' };
+
+    try {
+        const registration =
+            'serviceWorker' in navigator
+                ? await navigator.serviceWorker.getRegistration()
+                : undefined;
+        if (registration) {
+            await registration.showNotification(title, options);
+        } else {
+            new Notification(title, options);
+        }
+    } catch (error) {
+        Logger.warn('Failed to show departure alert', { tag, error });
+    }
+}
+
+/**
+ * Match alert buttons on screen to whether their alert is set
+ */
+function updateAlertButtons(key: string): void {
+    document
+        .querySelectorAll(`.alert-btn[data-alert-key="${CSS.escape(key)}"]`)
+        .forEach(button => button.setAttribute('aria-pressed', String(activeAlerts.has(key))));
+}
+
+/**
+ * Follow an alert under its departure's new key, so its buttons still show it as set
+ */
+function rekeyAlert(active: ActiveAlert, key: string): void {
+    const oldKey = active.alert.key;
+    activeAlerts.delete(oldKey);
+    active.alert = { ...active.alert, key };
+    activeAlerts.set(key, active);
+    updateAlertButtons(oldKey);
+    updateAlertButtons(key);
+}
+
+/**
+ * Stop following an alert
+ */
+function removeAlert(key: string): void {
+    const active = activeAlerts.get(key);
+    if (!active) return;
+
+    clearInterval(active.refreshTimer);
+    if (active.notifyTimer !== null) clearTimeout(active.notifyTimer);
+    activeAlerts.delete(key);
+    updateAlertButtons(key);
+}
+
+/**
+ * Notify that the departure is leaving soon, and stop following it
+ */
+function fireAlert(key: string): void {
+    const active = activeAlerts.get(key);
+    if (!active) return;
+    removeAlert(key);
+
+    const { label, stopName, expectedAt } = active.alert;
+    const minutes = Math.max(0, Math.round((expectedAt - Date.now()) / 60000));
+    const when = minutes === 0 ? 'is due now' : `leaves in ${minutes} min`;
+    void showNotification(`The ${label} ${when}`, `From ${stopName}`, key);
+}
+
+/**
+ * Set the notification timer from the alert's latest estimate
+ */
+function scheduleNotification(active: ActiveAlert): void {
+    if (active.notifyTimer !== null) clearTimeout(active.notifyTimer);
+    active.notifyTimer = setTimeout(
+        () => fireAlert(active.alert.key),
+        Math.max(0, getNotifyAt(active.alert) - Date.now())
+    );
+}
+
+/**
+ * Refresh the departure's board and move the alert to its latest estimate
+ * Keeps the last estimate if a refresh fails
+ */
+async function checkAlert(key: string): Promise<void> {
+    const active = activeAlerts.get(key);
+    if (!active) return;
+
+    let found: FoundDeparture | undefined;
+    try {
+        found = await active.findDeparture(active.alert);
+    } catch (error) {
+        Logger.warn('Failed to check departure alert', { key, error });
+        return;
+    }
+
+    // The alert may have been cancelled or fired while loading
+    if (activeAlerts.get(key) !== active) return;
+    if (found && found.key !== key) rekeyAlert(active, found.key);
+
+    const update = retargetAlert(active.alert, found?.departure);
+    active.alert = update.alert;
+
+    switch (update.type) {
+        case 'waiting':
+            scheduleNotification(active);
+            break;
+        case 'due':
+            fireAlert(active.alert.key);
+            break;
+        case 'cancelled':
+            removeAlert(active.alert.key);
+            void showNotification(
+                `The ${active.alert.label} is cancelled`,
+                `From ${active.alert.stopName}`,
+                active.alert.key
+            );
+            break;
+        case 'gone':
+            removeAlert(active.alert.key);
+            break;
+    }
+}
+
+/**
+ * Find a bus departure on screen by its alert key
+ */
+function findBusTarget(key: string, leadMinutes: number): AlertTarget | null {
+    for (const item of getAllDisplayItems()) {
+        if (item.type !== 'bus') continue;
+
+        const { stop } = item.data;
+        const departure = item.data.departures.find(d => getBusAlertKey(stop.atcoCode, d) === key);
+        if (!departure) continue;
+
+        // Last seen state, to match a live-only bus whose key moves with its estimate
+        let previous = departure;
+
+        return {
+            alert: {
+                key,
+                label: `${departure.line} to ${departure.destination}`,
+                stopName: stop.commonName,
+                leadMinutes,
+                expectedAt: Date.now() + departure.minutesUntil * 60000,
+            },
+            findDeparture: async current => {
+                const board = await BusStopService.refreshDeparturesForStop(stop);
+                const found = findBusDeparture(stop.atcoCode, current, previous, board.departures);
+                if (!found) return undefined;
+
+                previous = found;
+                return { departure: found, key: getBusAlertKey(stop.atcoCode, found) };
+            },
+        };
+    }
+    return null;
+}
+
+/**
+ * Find a train departure on screen by its alert key
+ */
+function findTrainTarget(key: string, leadMinutes: number): AlertTarget | null {
+    for (const item of getAllDisplayItems()) {
+        if (item.type !== 'train') continue;
+
+        const { station, destinationCrs } = item.data;
+        const matches = (d: TrainDeparture) => getTrainAlertKey(station.crsCode, d) === key;
+        const departure = item.data.departures.find(matches);
+        if (!departure) continue;
+
+        return {
+            alert: {
+                key,
+                label: `${departure.scheduledDeparture} to ${departure.destination}`,
+                stopName: station.name,
+                leadMinutes,
+                expectedAt: Date.now() + departure.minutesUntil * 60000,
+            },
+            findDeparture: async () => {
+                // Refresh the same board, so a filtered train is still on it
+                const result = await TrainDepartureService.refreshDeparturesForStation(
+                    station,
+                    destinationCrs
+                );
+                if (!result.success) throw result.error;
+                const found = result.board.departures.find(matches);
+                return found && { departure: found, key };
+            },
+        };
+    }
+    return null;
+}
+
+/**
+ * Start following a departure, once notifications are allowed
+ */
+async function startAlert(target: AlertTarget): Promise<void> {
+    const { alert } = target;
+
+    if (!('Notification' in window)) {
+        announce('This browser cannot show notifications');
+        return;
+    }
+    const permission =
+        Notification.permission === 'granted' ? 'granted' : await Notification.requestPermission();
+    if (permission !== 'granted') {
+        announce('Allow notifications to get departure alerts');
+        return;
+    }
+    if (getNotifyAt(alert) <= Date.now()) {
+        announce(`The ${alert.label} leaves in under ${alert.leadMinutes} min`);
+        return;
+    }
+
+    const active: ActiveAlert = {
+        ...target,
+        // Looks the key up each time, as it moves with a live-only bus
+        refreshTimer: setInterval(
+            () => void checkAlert(active.alert.key),
+            getConfig().alerts.refreshInterval
+        ),
+        notifyTimer: null,
+    };
+    activeAlerts.set(alert.key, active);
+    scheduleNotification(active);
+    updateAlertButtons(alert.key);
+    announce(`You'll be notified ${alert.leadMinutes} min before the ${alert.label} leaves`);
+}
+
+/**
+ * Handle clicks on departure alert buttons: set an alert, or cancel it
+ */
+function handleAlertButton(e: Event): void {
+    const button = (e.target as HTMLElement).closest('.alert-btn[data-alert-key]');
+    const key = button?.getAttribute('data-alert-key');
+    if (!key) return;
+
+    const active = activeAlerts.get(key);
+    if (active) {
+        removeAlert(key);
+        announce(`Alert for the ${active.alert.label} cancelled`);
+        return;
+    }
+
+    const { leadMinutes } = getConfig().alerts;
+    const target = key.startsWith('train:')
+        ? findTrainTarget(key, leadMinutes)
+        : findBusTarget(key, leadMinutes);
+    if (target) void startAlert(target);
+}
+
+/**
+ * Set up departure alert button handlers using event delegation
+ * Called after each render, like the favorite handlers
+ */
+export function setupAlertButtonHandlers(): void {
+    const container = document.getElementById('departures-container');
+    if (!container) return;
+
+    // Remove old listener if any (avoid duplicates)
+    container.removeEventListener('click', handleAlertButton);
+    container.addEventListener('click', handleAlertButton);
+}
@@ -0,0 +1,178 @@
+/**
+ * Disruptions Panel
+ * Lists diversions and stop closures affecting the stops on screen and nearby
+ */
+
+import { Logger } from '@/utils/logger';
+import { escapeHtml } from '@/utils/helpers';
+import { formatTimeHHMM } from '@/utils/time';
+import { getAllDisplayItems } from '@/core/app-state';
+import { BusStopService } from '@/core';
+import { sortDisruptions } from '@/core/bus-stops/disruptions';
+import type { Disruption } from '@/types';
+
+/** Element focused before the panel opened, to restore on close */
+let returnFocus: HTMLElement | null = null;
+
+/**
+ * Turn a SIRI reason like "specialEvent" into "Special event"
+ */
+function formatReason(reason: string): string {
+    const words = reason.replace(/([a-z])([A-Z])/g, '$1 $2').toLowerCase();
+    return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+/**
+ * Describe when a disruption ends
+ */
+function formatUntil(validTo: Date): string {
+    const time = formatTimeHHMM(validTo);
+    if (validTo.toDateString() === new Date().toDateString()) return `Until ${time}`;
+
+    const day = validTo.toLocaleDateString('en-GB', {
+        weekday: 'short',
+        day: 'numeric',
+        month: 'short',
+    });
+    return `Until ${day} ${time}`;
+}
+
+/**
+ * Render one disruption in the list
+ */
+function renderDisruption(disruption: Disruption): string {
+    const details = [
+        disruption.reason && formatReason(disruption.reason),
+        disruption.validTo && formatUntil(disruption.validTo),
+        disruption.lines.length > 0 &&
+            `${disruption.lines.length === 1 ? 'Line' : 'Lines'} ${disruption.lines.join(', ')}`,
+    ].filter(Boolean) as string[];
+
+    const description = disruption.description
+        ? `<p>${escapeHtml(disruption.description)}</p>`
+        : '';
+    const advice = disruption.advice
+        ? `<p><strong>Advice:</strong> ${escapeHtml(disruption.advice)}</p>`
+        : '';
+
+    return `
+        <li class="disruption-item" data-disruption-id="${escapeHtml(disruption.id)}" tabindex="-1">
+            <h3>${escapeHtml(disruption.summary)}</h3>
+            <p class="line-summary">${escapeHtml(details.join(' - '))}</p>
+            ${description}
+            ${advice}
+        </li>
+    `;
+}
+
+/**
+ * Collect disruptions on the stop cards shown, plus any at nearby stops
+ */
+async function collectDisruptions(): Promise<Disruption[]> {
+    const byId = new Map<string, Disruption>();
+    for (const item of getAllDisplayItems()) {
+        if (item.type !== 'bus') continue;
+        for (const d of item.data.disruptions ?? []) byId.set(d.id, d);
+    }
+
+    try {
+        for (const d of await BusStopService.getLocalDisruptions()) byId.set(d.id, d);
+    } catch (error) {
+        Logger.warn('Failed to load disruptions', error);
+    }
+
+    return sortDisruptions([...byId.values()]);
+}
+
+/**
+ * Load and show the disruptions, scrolling to one if given
+ */
+async function renderDisruptionsPanel(focusId: string | null): Promise<void> {
+    const body = document.getElementById('disruptions-body');
+    if (!body) return;
+
+    body.innerHTML = '<p class="tracking-note">Loading disruptions...</p>';
+    const disruptions = await collectDisruptions();
+
+    body.innerHTML =
+        disruptions.length === 0
+            ? '<p class="tracking-note">No disruptions reported for buses around you</p>'
+            : `<ol class="disruption-list">${disruptions.map(renderDisruption).join('')}</ol>`;
+
+    if (focusId) {
+        const item = body.querySelector<HTMLElement>(
+            `.disruption-item[data-disruption-id="${CSS.escape(focusId)}"]`
+        );
+        item?.scrollIntoView({ block: 'nearest' });
+        item?.focus();
+    }
+}
+
+/**
+ * Open the disruptions panel
+ */
+function openDisruptionsPanel(focusId: string | null = null): void {
+    const modal = document.getElementById('disruptions-modal');
+    if (!modal) return;
+
+    returnFocus = document.activeElement instanceof HTMLElement ? document.activeElement : null;
+    modal.hidden = false;
+    document.getElementById('disruptions-close')?.focus();
+    void renderDisruptionsPanel(focusId);
+}
+
+/**
+ * Close the disruptions panel
+ */
+function closeDisruptionsPanel(): void {
+    const modal = document.getElementById('disruptions-modal');
+    if (modal && !modal.hidden) {
+        modal.hidden = true;
+        returnFocus?.focus();
+        returnFocus = null;
+    }
+}
+
+/**
+ * Handle clicks on disruption banners
+ */
+function handleDisruptionBannerClick(e: Event): void {
+    const banner = (e.target as HTMLElement).closest('.disruption-banner');
+    if (!banner) return;
+
+    openDisruptionsPanel(banner.getAttribute('data-disruption-id'));
+}
+
+/**
+ * Set up disruption banner handlers using event delegation
+ * Called after each render, like the favorite handlers
+ */
+export function setupDisruptionBannerHandlers(): void {
+    const container = document.getElementById('departures-container');
+    if (!container) return;
+
+    // Remove old listener if any (avoid duplicates)
+    container.removeEventListener('click', handleDisruptionBannerClick);
+    container.addEventListener('click', handleDisruptionBannerClick);
+}
+
+/**
+ * Set up disruptions panel handlers
+ */
+export function setupDisruptionsPanelHandlers(): void {
+    document
+        .getElementById('disruptions-btn')
+        ?.addEventListener('click', () => openDisruptionsPanel());
+    document.getElementById('disruptions-close')?.addEventListener('click', closeDisruptionsPanel);
+
+    // Close on overlay click (outside panel)
+    const overlay = document.getElementById('disruptions-modal');
+    overlay?.addEventListener('click', e => {
+        if (e.target === overlay) closeDisruptionsPanel();
+    });
+
+    // Close on Escape key
+    document.addEventListener('keydown', e => {
+        if (e.key === 'Escape') closeDisruptionsPanel();
+    });
+}
@@ -15,7 +15,7 @@ import {
 import { FavoritesManager } from '@/utils/favorites';
 import { reverseGeocodeToPostcode } from '@/api';
 import { saveLocation, getSavedLocation } from '@/utils/location-storage';
-import type { DepartureBoard } from '@/types';
+import type { Coordinates, DepartureBoard, NearbyTrainStation } from '@/types';
 import type { DisplayItem } from '@/core/app-state';
 import {
     getUserLocation,
@@ -23,11 +23,18 @@ import {
     setCurrentSearchRadius,
     hasReachedMaxRadius,
     setHasReachedMaxRadius,
+    getTrainSearchRadius,
+    setTrainSearchRadius,
+    hasReachedMaxTrainRadius,
+    setHasReachedMaxTrainRadius,
+    canShowMore,
     getDisplayedAtcoCodes,
     addDisplayedAtcoCodes,
     getAllDisplayItems,
     addDisplayItems,
     resetProgressiveExpansion,
+    getArrivalStations,
+    setStationShowsArrivals,
 } from '@/core/app-state';
 import {
     displayItems,
@@ -35,7 +42,13 @@ import {
     showPostcodeEntryForm,
     updatePostcodeDisplay,
     showLoadingDepartures,
+    getShowMoreLabel,
 } from './render';
+import { setupTrackingRowHandlers } from './tracking';
+import { setupLineBadgeHandlers } from './line-view';
+import { setupDisruptionBannerHandlers } from './disruptions';
+import { setupServiceRowHandlers } from './train-service';
+import { setupAlertButtonHandlers } from './departure-alerts';
 import { triggerHapticFeedback } from '@/utils/settings';
 
 /**
@@ -118,7 +131,111 @@ function handleFavoriteClick(e: Event): void {
     announceStatus(isNowFavorite ? `${name} added to favorites` : `${name} removed from favorites`);
 
     // Re-render to reorder (favorites at top)
-    displayItems(getAllDisplayItems(), !hasReachedMaxRadius(), setupHandlersCallback);
+    displayItems(getAllDisplayItems(), canShowMore(), setupHandlersCallback);
+}
+
+/**
+ * Set up station board controls (destination picker, arrivals toggle) using event delegation
+ */
+function setupStationBoardHandlers(): void {
+    const container = document.getElementById('departures-container');
+    if (!container) return;
+
+    // Remove old listeners if any (avoid duplicates)
+    container.removeEventListener('change', handleDestinationChange);
+    container.removeEventListener('click', handleBoardModeClick);
+    container.addEventListener('change', handleDestinationChange);
+    container.addEventListener('click', handleBoardModeClick);
+}
+
+/**
+ * Find the station shown on a train card
+ */
+function findDisplayedStation(crsCode: string | null): NearbyTrainStation | null {
+    for (const item of getAllDisplayItems()) {
+        if (item.type === 'train' && item.data.station.crsCode === crsCode) {
+            return item.data.station;
+        }
+    }
+    return null;
+}
+
+/**
+ * Save a station's preferred destination and reload its board filtered to it
+ */
+function handleDestinationChange(e: Event): void {
+    const select = e.target;
+    if (
+        !(select instanceof HTMLSelectElement) ||
+        !select.classList.contains('destination-select')
+    ) {
+        return;
+    }
+
+    const station = findDisplayedStation(select.getAttribute('data-crs-code'));
+    if (!station) return;
+
+    const destinationCrs = select.value || null;
+    FavoritesManager.setStationDestination(station.crsCode, destinationCrs);
+    announceStatus(
+        destinationCrs
+            ? `Showing trains to ${select.selectedOptions[0]?.textContent ?? destinationCrs}`
+            : 'Showing trains to all destinations'
+    );
+
+    void reloadStation(station, '.destination-select');
+}
+
+/**
+ * Switch a station card between departures and arrivals
+ */
+function handleBoardModeClick(e: Event): void {
+    const button = (e.target as HTMLElement).closest('.board-mode-btn');
+    if (!(button instanceof HTMLButtonElement) || button.getAttribute('aria-pressed') === 'true') {
+        return;
+    }
+
+    const station = findDisplayedStation(button.getAttribute('data-crs-code'));
+    if (!station) return;
+
+    const mode = button.getAttribute('data-mode');
+    setStationShowsArrivals(station.crsCode, mode === 'arrivals');
+    announceStatus(`Showing ${mode} at ${station.name}`);
+
+    void reloadStation(station, `.board-mode-btn[data-mode="${mode}"]`);
+}
+
+/**
+ * Fetch one station's board (arrivals or departures) and redraw it in place of the old one
+ * @param focusSelector - Control on the card to put focus back on after redrawing
+ */
+async function reloadStation(station: NearbyTrainStation, focusSelector: string): Promise<void> {
+    const { crsCode } = station;
+    const result = getArrivalStations().has(crsCode)
+        ? await TrainDepartureService.getArrivalsForStation(station)
+        : await TrainDepartureService.getDeparturesForStation(
+              station,
+              FavoritesManager.getStationDestination(crsCode) ?? undefined
+          );
+    const updated: DisplayItem = result.success
+        ? { type: 'train', data: result.board }
+        : {
+              type: 'train',
+              data: { station, departures: [], lastUpdated: Date.now(), isStale: false },
+              errorMessage: result.error.getUserMessage(),
+          };
+
+    const items = getAllDisplayItems().map(i =>
+        i.type === 'train' && i.data.station.crsCode === crsCode ? updated : i
+    );
+    displayItems(items, canShowMore(), setupHandlersCallback);
+
+    // Redrawing replaced the card's controls, so put focus back on the new one
+    document
+        .querySelector<HTMLElement>(
+            `.train-station-card[data-crs-code="${CSS.escape(crsCode)}"] ${focusSelector}`
+        )
+        ?.focus();
 }
 
 /**
@@ -132,14 +249,91 @@ function setupShowMoreHandler(): void {
 }
 
 /**
- * Handle "Show more stops" button click - progressive radius expansion
+ * Load bus stops from the next search radius
+ * @returns Boards for the new stops, or none once the max radius is reached
+ */
+async function expandBusStops(location: Coordinates): Promise<DisplayItem[]> {
+    if (hasReachedMaxRadius()) return [];
+
+    const config = getConfig();
+    const result = await BusStopService.getExpandedStops(
+        location,
+        getDisplayedAtcoCodes(),
+        getCurrentSearchRadius()
+    );
+
+    // Update current radius and check if we've reached max radius
+    setCurrentSearchRadius(result.actualRadius);
+    if (result.actualRadius >= config.busStops.maxExpandedRadius) {
+        setHasReachedMaxRadius(true);
+    }
+    if (result.stops.length === 0) return [];
+
+    // Fetch departures for additional stops
+    const additionalBoards = await Promise.all(
+        result.stops.map(stop => BusStopService.getDeparturesForStop(stop))
+    );
+    addDisplayedAtcoCodes(result.stops.map(s => s.atcoCode));
+
+    return additionalBoards
+        .filter(b => b.departures.length > 0)
+        .map(b => ({ type: 'bus' as const, data: b }));
+}
+
+/**
+ * Load train stations from the next station search radius
+ * @returns Boards for the new stations, or none once the max radius is reached
+ */
+async function expandTrainStations(location: Coordinates): Promise<DisplayItem[]> {
+    if (hasReachedMaxTrainRadius()) return [];
+
+    const config = getConfig();
+    const displayedCrsCodes = getAllDisplayItems()
+        .filter((item): item is DisplayItem & { type: 'train' } => item.type === 'train')
+        .map(item => item.data.station.crsCode);
+    const result = TrainStationService.getExpandedStations(
+        location,
+        displayedCrsCodes,
+        getTrainSearchRadius()
+    );
+
+    setTrainSearchRadius(result.actualRadius);
+    if (result.actualRadius >= config.trainStations.maxExpandedRadius) {
+        setHasReachedMaxTrainRadius(true);
+    }
+
+    const results = await TrainDepartureService.getDeparturesForAllStations(result.stations, {
+        destinations: FavoritesManager.getStationDestinations(),
+        arrivals: getArrivalStations(),
+    });
+
+    return results.map((r, index) =>
+        r.success
+            ? { type: 'train' as const, data: r.board }
+            : {
+                  type: 'train' as const,
+                  data: {
+                      station: result.stations[index],
+                      departures: [],
+                      lastUpdated: Date.now(),
+                      isStale: false,
+                  },
+                  errorMessage: r.error.getUserMessage(),
+              }
+    );
+}
+
+/**
+ * Handle "Show more" button click - progressive radius expansion
+ * Bus stops and train stations each search their next radius
  */
 async function handleShowMore(): Promise<void> {
     const userLocation = getUserLocation();
-    if (!userLocation || hasReachedMaxRadius()) return;
+    if (!userLocation || !canShowMore()) return;
 
     const btn = document.getElementById('show-more-btn');
     const container = document.getElementById('departures-container');
+    const label = getShowMoreLabel();
 
     if (btn instanceof HTMLButtonElement) {
         btn.textContent = 'Searching...';
@@ -151,35 +345,22 @@ async function handleShowMore(): Promise<void> {
     }
     announceStatus('Searching for more stops');
 
-    const config = getConfig();
-    const currentRadius = getCurrentSearchRadius();
-    const displayedAtcoCodes = getDisplayedAtcoCodes();
-
     try {
-        // Get additional stops at expanded radius
-        const result = await BusStopService.getExpandedStops(
-            userLocation,
-            displayedAtcoCodes,
-            currentRadius
-        );
-
-        // Update current radius
-        setCurrentSearchRadius(result.actualRadius);
-
-        // Check if we've reached max radius
-        if (result.actualRadius >= config.busStops.maxExpandedRadius) {
-            setHasReachedMaxRadius(true);
-        }
+        const [busItems, trainItems] = await Promise.all([
+            expandBusStops(userLocation),
+            expandTrainStations(userLocation),
+        ]);
+        const newItems = [...busItems, ...trainItems];
 
         // Clear aria-busy
         if (container) {
             container.setAttribute('aria-busy', 'false');
         }
 
-        if (result.stops.length === 0) {
+        if (newItems.length === 0) {
             // No new stops found
             announceStatus('No additional stops found');
-            if (hasReachedMaxRadius()) {
+            if (!canShowMore()) {
                 // Remove button - no more stops possible
                 const showMoreContainer = document.getElementById('show-more-container');
                 if (showMoreContainer) showMoreContainer.remove();
@@ -190,32 +371,25 @@ async function handleShowMore(): Promise<void> {
             return;
         }
 
-        // Fetch departures for additional stops
-        const additionalBoards = await Promise.all(
-            result.stops.map(stop => BusStopService.getDeparturesForStop(stop))
-        );
-
-        // Add to display items
-        const newItems: DisplayItem[] = additionalBoards
-            .filter(b => b.departures.length > 0)
-            .map(b => ({ type: 'bus' as const, data: b }));
-
-        // Update displayed ATCO codes
-        addDisplayedAtcoCodes(result.stops.map(s => s.atcoCode));
-
         addDisplayItems(newItems);
 
-        // Re-render (button shows if not at max radius)
-        displayItems(getAllDisplayItems(), !hasReachedMaxRadius(), setupHandlersCallback);
+        // Re-render (button shows if either search can still expand)
+        displayItems(getAllDisplayItems(), canShowMore(), setupHandlersCallback);
 
         // Announce results to screen readers
+        const stationCount = trainItems.length;
         announceStatus(
-            `Found ${newItems.length} additional stop${newItems.length === 1 ? '' : 's'}`
+            `Found ${busItems.length} additional stop${busItems.length === 1 ? '' : 's'}` +
+                (stationCount > 0
+                    ? ` and ${stationCount} station${stationCount === 1 ? '' : 's'}`
+                    : '')
         );
 
         Logger.debug('Expanded stops loaded', {
-            count: newItems.length,
+            count: busItems.length,
+            stations: stationCount,
             radius: getCurrentSearchRadius(),
+            trainRadius: getTrainSearchRadius(),
         });
     } catch (error) {
         Logger.error('Failed to load more stops', String(error));
@@ -226,10 +400,7 @@ async function handleShowMore(): Promise<void> {
         }
 
         if (btn instanceof HTMLButtonElement) {
-            const nextRadius = currentRadius + config.busStops.radiusIncrement;
-            const displayRadius =
-                nextRadius >= 1000 ? `${(nextRadius / 1000).toFixed(1)}km` : `${nextRadius}m`;
-            btn.textContent = `Show more stops (within ${displayRadius})`;
+            btn.textContent = label;
             btn.disabled = false;
             btn.removeAttribute('aria-busy');
         }
@@ -246,7 +417,10 @@ export async function handleRefresh(): Promise<void> {
 
     // Reset progressive expansion state on refresh
     const config = getConfig();
-    resetProgressiveExpansion(config.busStops.maxSearchRadius);
+    resetProgressiveExpansion(
+        config.busStops.maxSearchRadius,
+        config.trainStations.maxSearchRadius
+    );
 
     const refreshBtn = document.getElementById('refresh-btn');
     const container = document.getElementById('departures-container');
@@ -272,7 +446,10 @@ export async function handleRefresh(): Promise<void> {
         const [favoriteStops, busResult, trainResults] = await Promise.all([
             BusStopService.getByAtcoCodes(favoriteAtcoCodes, userLocation),
             BusStopService.refreshBothDirections(userLocation),
-            TrainDepartureService.refreshDeparturesForAllStations(trainStations),
+            TrainDepartureService.refreshDeparturesForAllStations(trainStations, {
+                destinations: FavoritesManager.getStationDestinations(),
+                arrivals: getArrivalStations(),
+            }),
         ]);
 
         // Convert train results to display items (include both successful and failed)
@@ -355,6 +532,12 @@ export async function handleRefresh(): Promise<void> {
  */
 export function setupAllHandlers(): void {
     setupFavoriteHandlers();
+    setupStationBoardHandlers();
+    setupTrackingRowHandlers();
+    setupLineBadgeHandlers();
+    setupDisruptionBannerHandlers();
+    setupServiceRowHandlers();
+    setupAlertButtonHandlers();
     setupShowMoreHandler();
 }
 
@@ -0,0 +1,233 @@
+/**
+ * Journey Planner Panel
+ * Plans a bus journey between two postcodes (or from the user's location),
+ * or a bus to the station in time for a train
+ */
+
+import { Logger } from '@/utils/logger';
+import { escapeHtml } from '@/utils/helpers';
+import { formatTimeHHMM } from '@/utils/time';
+import { getUserLocation } from '@/core/app-state';
+import { JourneyPlannerService, JourneyPlannerError } from '@/core/journey-planner';
+import type { JourneyPlace } from '@/core/journey-planner';
+import type { Itinerary, JourneyLeg, RailConnection } from '@/types';
+
+/** Element focused before the panel opened, to restore on close */
+let returnFocus: HTMLElement | null = null;
+
+/**
+ * Render one leg of an itinerary
+ */
+function renderLeg(leg: JourneyLeg): string {
+    if (leg.mode === 'walk') {
+        const minutes = Math.max(
+            1,
+            Math.round((leg.arrival.getTime() - leg.departure.getTime()) / 60000)
+        );
+        return `<li class="journey-walk">Walk ${leg.distanceMeters}m (${minutes} min) to ${escapeHtml(leg.to.name)}</li>`;
+    }
+
+    const stops = `${leg.stopCount} ${leg.stopCount === 1 ? 'stop' : 'stops'}`;
+    const delay = leg.delayMinutes
+        ? ` <span class="time delayed">(${leg.delayMinutes} min late)</span>`
+        : '';
+    return `
+        <li class="journey-bus">
+            <span class="line-badge">${escapeHtml(leg.line)}</span>
+            <span>
+                Towards ${escapeHtml(leg.destination)}<br>
+                ${formatTimeHHMM(leg.departure)} ${escapeHtml(leg.from.name)}${delay}<br>
+                ${formatTimeHHMM(leg.arrival)} ${escapeHtml(leg.to.name)} (${stops})
+            </span>
+        </li>
+    `;
+}
+
+/**
+ * Render an itinerary with its summary and legs
+ */
+function renderItinerary(itinerary: Itinerary): string {
+    const changes =
+        itinerary.transfers === 0
+            ? 'no changes'
+            : `${itinerary.transfers} ${itinerary.transfers === 1 ? 'change' : 'changes'}`;
+
+    return `
+        <li class="journey-option">
+            <h3>
+                ${formatTimeHHMM(itinerary.departure)} - ${formatTimeHHMM(itinerary.arrival)}
+                <span class="line-summary">${itinerary.durationMinutes} min, ${changes}</span>
+            </h3>
+            <ol class="journey-legs">${itinerary.legs.map(renderLeg).join('')}</ol>
+        </li>
+    `;
+}
+
+/**
+ * Render a bus journey to the station followed by the train it connects with
+ */
+function renderConnection(connection: RailConnection): string {
+    const { itinerary, station, train } = connection;
+    const destination = escapeHtml(train.destination);
+    const trainTime =
+        train.status === 'delayed'
+            ? `<span class="time delayed">${escapeHtml(train.expectedDeparture)}</span> (due ${escapeHtml(train.scheduledDeparture)})`
+            : escapeHtml(train.scheduledDeparture);
+    const platform = train.platform
+        ? ` <span class="platform-badge">Plat ${escapeHtml(train.platform)}</span>`
+        : '';
+
+    return `
+        <li class="journey-option">
+            <h3>
+                ${trainTime} to ${destination}
+                <span class="line-summary">
+                    from ${escapeHtml(station.name)}, ${connection.connectionMinutes} min to change
+                </span>
+            </h3>
+            <ol class="journey-legs">
+                ${itinerary.legs.map(renderLeg).join('')}
+                <li class="journey-train">
+                    <span>
+                        ${formatTimeHHMM(connection.trainDeparture)} train to ${destination}${platform}
+                    </span>
+                </li>
+            </ol>
+        </li>
+    `;
+}
+
+/**
+ * Show why planning failed
+ */
+function renderPlanningError(results: HTMLElement, error: unknown, fallback: string): void {
+    const message = error instanceof JourneyPlannerError ? error.getUserMessage() : fallback;
+    results.innerHTML = `<p class="tracking-note">${message}</p>`;
+}
+
+/**
+ * Work out where the journey starts
+ * An empty field means the user's current location
+ */
+function getOrigin(value: string): JourneyPlace | null {
+    if (value) return { type: 'postcode', postcode: value };
+
+    const location = getUserLocation();
+    return location ? { type: 'coordinates', coordinates: location, name: 'Your location' } : null;
+}
+
+/**
+ * Plan the journey entered in the form and show the results
+ */
+async function handleJourneySubmit(e: Event): Promise<void> {
+    e.preventDefault();
+
+    const results = document.getElementById('journey-results');
+    const fromInput = document.getElementById('journey-from') as HTMLInputElement | null;
+    const toInput = document.getElementById('journey-to') as HTMLInputElement | null;
+    if (!results || !fromInput || !toInput) return;
+
+    const from = getOrigin(fromInput.value.trim());
+    if (!from) {
+        results.innerHTML =
+            '<p class="tracking-note">Your location is not known yet - enter a starting postcode</p>';
+        return;
+    }
+
+    results.innerHTML = '<p class="tracking-note">Planning your journey...</p>';
+
+    try {
+        const itineraries = await JourneyPlannerService.plan(from, {
+            type: 'postcode',
+            postcode: toInput.value.trim(),
+        });
+        results.innerHTML =
+            itineraries.length === 0
+                ? '<p class="tracking-note">No buses found for this journey today</p>'
+                : `<ol class="journey-options">${itineraries.map(renderItinerary).join('')}</ol>`;
+    } catch (error) {
+        Logger.warn('Failed to plan journey', error);
+        renderPlanningError(results, error, 'Unable to plan this journey right now');
+    }
+}
+
+/**
+ * Find buses that connect with trains from nearby stations
+ */
+async function handleRailSubmit(e: Event): Promise<void> {
+    e.preventDefault();
+
+    const results = document.getElementById('journey-results');
+    const fromInput = document.getElementById('journey-from') as HTMLInputElement | null;
+    const destinationInput = document.getElementById('rail-destination') as HTMLInputElement | null;
+    if (!results || !fromInput || !destinationInput) return;
+
+    const from = getOrigin(fromInput.value.trim());
+    if (!from) {
+        results.innerHTML =
+            '<p class="tracking-note">Your location is not known yet - enter a starting postcode</p>';
+        return;
+    }
+
+    results.innerHTML = '<p class="tracking-note">Finding trains...</p>';
+
+    try {
+        const connections = await JourneyPlannerService.planRailConnections(from, {
+            destination: destinationInput.value.trim() || undefined,
+        });
+        results.innerHTML =
+            connections.length === 0
+                ? '<p class="tracking-note">No bus and train connections found right now</p>'
+                : `<ol class="journey-options">${connections.map(renderConnection).join('')}</ol>`;
+    } catch (error) {
+        Logger.warn('Failed to plan rail connections', error);
+        renderPlanningError(results, error, 'Unable to find train connections right now');
+    }
+}
+
+/**
+ * Open the journey planner panel
+ */
+function openJourneyPanel(): void {
+    const modal = document.getElementById('journey-modal');
+    if (!modal) return;
+
+    returnFocus = document.activeElement instanceof HTMLElement ? document.activeElement : null;
+    modal.hidden = false;
+    document.getElementById('journey-to')?.focus();
+}
+
+/**
+ * Close the journey planner panel
+ */
+function closeJourneyPanel(): void {
+    const modal = document.getElementById('journey-modal');
+    if (modal && !modal.hidden) {
+        modal.hidden = true;
+        returnFocus?.focus();
+        returnFocus = null;
+    }
+}
+
+/**
+ * Set up journey planner panel handlers
+ */
+export function setupJourneyPlannerHandlers(): void {
+    document.getElementById('journey-btn')?.addEventListener('click', openJourneyPanel);
+    document.getElementById('journey-close')?.addEventListener('click', closeJourneyPanel);
+    document
+        .getElementById('journey-form')
+        ?.addEventListener('submit', e => void handleJourneySubmit(e));
+    document.getElementById('rail-form')?.addEventListener('submit', e => void handleRailSubmit(e));
+
+    // Close on overlay click (outside panel)
+    const overlay = document.getElementById('journey-modal');
+    overlay?.addEventListener('click', e => {
+        if (e.target === overlay) closeJourneyPanel();
+    });
+
+    // Close on Escape key
+    document.addEventListener('keydown', e => {
+        if (e.key === 'Escape') closeJourneyPanel();
+    });
+}
@@ -0,0 +1,168 @@
+/**
+ * Line View Panel
+ * Shows every stop on a line and where its buses are, refreshed while open
+ */
+
+import { getConfig } from '@/config';
+import { Logger } from '@/utils/logger';
+import { escapeHtml } from '@/utils/helpers';
+import { getLineView, type LineView } from '@/core/bus-stops/line-view';
+
+/** Refresh timer for the open panel */
+let refreshTimer: ReturnType<typeof setInterval> | null = null;
+
+/** Element focused before the panel opened, to restore on close */
+let returnFocus: HTMLElement | null = null;
+
+type LineVehicle = LineView['directions'][number]['vehicles'][number];
+
+/**
+ * Render a vehicle marker between two stops
+ */
+function renderVehicle(vehicle: LineVehicle, nextStop: string): string {
+    const progress = vehicle.fraction < 0.5 ? 'Just left' : `Approaching ${escapeHtml(nextStop)}`;
+    const staleClass = vehicle.freshness === 'fresh' ? '' : ' stale';
+    const staleNote = vehicle.freshness === 'fresh' ? '' : ' (position may be out of date)';
+
+    return `<li class="line-vehicle${staleClass}">Bus ${escapeHtml(vehicle.vehicle.vehicleRef)}: ${progress}${staleNote}</li>`;
+}
+
+/**
+ * Render one direction's stops with its buses in between
+ */
+function renderDirection(direction: LineView['directions'][number]): string {
+    const items = direction.stops
+        .map((stop, index) => {
+            const next = direction.stops[index + 1]?.name ?? '';
+            const vehicles = direction.vehicles
+                .filter(v => v.segment === index)
+                .map(v => renderVehicle(v, next))
+                .join('');
+            return `<li class="line-stop">${escapeHtml(stop.name)}</li>${vehicles}`;
+        })
+        .join('');
+
+    const count = direction.vehicles.length;
+    const summary = count === 0 ? 'No buses tracked' : `${count} ${count === 1 ? 'bus' : 'buses'}`;
+
+    return `
+        <section class="line-direction">
+            <h3>Towards ${escapeHtml(direction.destination)} <span class="line-summary">${summary}</span></h3>
+            <ol class="line-stops">${items}</ol>
+        </section>
+    `;
+}
+
+/**
+ * Render the line view into the panel body
+ */
+function renderLineView(view: LineView | null): string {
+    if (!view) {
+        return '<p class="tracking-note">Route details are not available for this line</p>';
+    }
+
+    const unplaced =
+        view.unplacedVehicles > 0
+            ? `<p class="tracking-note">${view.unplacedVehicles} more ${view.unplacedVehicles === 1 ? 'bus is' : 'buses are'} away from the usual route</p>`
+            : '';
+
+    return view.directions.map(renderDirection).join('') + unplaced;
+}
+
+/**
+ * Fetch the line's buses and update the panel
+ */
+async function refreshLineView(line: string): Promise<void> {
+    const body = document.getElementById('line-body');
+    if (!body) return;
+
+    try {
+        body.innerHTML = renderLineView(await getLineView(line));
+    } catch (error) {
+        Logger.warn('Failed to load line view', error);
+        body.innerHTML = '<p class="tracking-note">Unable to load this line right now</p>';
+    }
+}
+
+/**
+ * Open the line panel
+ */
+function openLinePanel(line: string): void {
+    const modal = document.getElementById('line-modal');
+    const title = document.getElementById('line-title');
+    const body = document.getElementById('line-body');
+    if (!modal || !title || !body) return;
+
+    closeLinePanel();
+    returnFocus = document.activeElement instanceof HTMLElement ? document.activeElement : null;
+
+    title.textContent = `Line ${line}`;
+    body.innerHTML = '<p class="tracking-note">Loading route...</p>';
+    modal.hidden = false;
+    document.getElementById('line-close')?.focus();
+
+    void refreshLineView(line);
+    refreshTimer = setInterval(
+        () => void refreshLineView(line),
+        getConfig().busStops.trackingRefreshInterval
+    );
+}
+
+/**
+ * Close the line panel and stop refreshing
+ */
+function closeLinePanel(): void {
+    if (refreshTimer !== null) {
+        clearInterval(refreshTimer);
+        refreshTimer = null;
+    }
+
+    const modal = document.getElementById('line-modal');
+    if (modal && !modal.hidden) {
+        modal.hidden = true;
+        returnFocus?.focus();
+        returnFocus = null;
+    }
+}
+
+/**
+ * Handle clicks on line badges
+ */
+function handleLineBadgeClick(e: Event): void {
+    const badge = (e.target as HTMLElement).closest('.line-badge[data-line]');
+    const line = badge?.getAttribute('data-line');
+    if (!line) return;
+
+    openLinePanel(line);
+}
+
+/**
+ * Set up line badge handlers using event delegation
+ * Called after each render, like the favorite handlers
+ */
+export function setupLineBadgeHandlers(): void {
+    const container = document.getElementById('departures-container');
+    if (!container) return;
+
+    // Remove old listener if any (avoid duplicates)
+    container.removeEventListener('click', handleLineBadgeClick);
+    container.addEventListener('click', handleLineBadgeClick);
+}
+
+/**
+ * Set up line panel close handlers
+ */
+export function setupLinePanelHandlers(): void {
+    document.getElementById('line-close')?.addEventListener('click', closeLinePanel);
+
+    // Close on overlay click (outside panel)
+    const overlay = document.getElementById('line-modal');
+    overlay?.addEventListener('click', e => {
+        if (e.target === overlay) closeLinePanel();
+    });
+
+    // Close on Escape key
+    document.addEventListener('keydown', e => {
+        if (e.key === 'Escape') closeLinePanel();
+    });
+}
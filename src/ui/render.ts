@@ -6,11 +6,29 @@
 import { getConfig } from '@/config';
 import { getDirectionsUrl } from '@/utils/maps-link';
 import { FavoritesManager } from '@/utils/favorites';
-import type { Departure, DepartureBoard, TrainDeparture, TrainDepartureBoard } from '@/types';
+import { escapeHtml } from '@/utils/helpers';
+import { TrainStationService } from '@/core';
+import { findFastestDeparture } from '@/core/train-stations/destination';
+import { getCatchability, getLeaveIn, getWalkingMinutes } from '@/core/bus-stops/walking';
+import { getBusAlertKey, getTrainAlertKey } from '@/core/departure-alerts';
+import { hasAlert } from './departure-alerts';
+import type {
+    Departure,
+    DepartureCatchability,
+    DepartureBoard,
+    Disruption,
+    TrainArrival,
+    TrainDeparture,
+    TrainDepartureBoard,
+} from '@/types';
 import {
     type DisplayItem,
+    canShowMore,
+    getArrivalStations,
     getCurrentSearchRadius,
+    getTrainSearchRadius,
     hasReachedMaxRadius,
+    hasReachedMaxTrainRadius,
     setDisplayedAtcoCodes,
     setAllDisplayItems,
 } from '@/core/app-state';
@@ -43,28 +61,138 @@ function formatDistance(meters: number): string {
     return `${Math.round(meters)}m away`;
 }
 
+/**
+ * Get tooltip text for a live ETA's confidence
+ */
+function getConfidenceLabel(confidence: NonNullable<Departure['confidence']>): string {
+    const labels = {
+        high: 'Tracked along its route',
+        medium: 'Estimated from its position on the route',
+        low: 'Rough estimate from distance to the stop',
+    };
+    return labels[confidence];
+}
+
+/** Row class and screen reader note for a departure you may not reach in time */
+const CATCHABILITY_LABELS: Record<Exclude<DepartureCatchability, 'catchable'>, string> = {
+    tight: 'Only just time to walk there',
+    missed: 'Leaves before you can walk there',
+};
+
+/**
+ * Render the button to be notified before a departure leaves
+ * Cancelled departures can't have an alert set
+ */
+function renderAlertButton(key: string, label: string, isCancelled: boolean): string {
+    if (isCancelled) return '';
+
+    const { leadMinutes } = getConfig().alerts;
+    return `<button type="button" class="alert-btn" data-alert-key="${escapeHtml(key)}" aria-pressed="${hasAlert(key)}" aria-label="Notify me ${leadMinutes} min before the ${escapeHtml(label)} leaves"><span aria-hidden="true">&#128276;</span></button>`;
+}
+
 /**
  * Render a single departure row
+ * @param walkingMinutes - Time to walk to the stop, to grey out buses that can't be caught
+ * @param atcoCode - Stop the departure leaves from, to set an alert for it
  */
-function renderDeparture(departure: Departure): string {
-    const timeClass = departure.status === 'delayed' ? 'time delayed' : 'time';
-    const timeDisplay = departure.minutesUntil <= 0 ? 'Due' : `${departure.minutesUntil} min`;
+function renderDeparture(departure: Departure, walkingMinutes: number, atcoCode: string): string {
+    // Rough ETAs (bus position not matched to its route) are marked approximate
+    const approximate = departure.confidence === 'low' ? '~' : '';
+    const timeDisplay =
+        departure.minutesUntil <= 0 ? 'Due' : `${approximate}${departure.minutesUntil} min`;
+    const confidenceTitle = departure.confidence
+        ? ` title="${getConfidenceLabel(departure.confidence)}"`
+        : '';
     const sourceIndicator = departure.isRealTime
-        ? '<span class="source-badge realtime">Live</span>'
+        ? `<span class="source-badge realtime"${confidenceTitle}>Live</span>`
         : '<span class="source-badge scheduled">Scheduled</span>';
 
+    let timeClass = 'time';
+    let statusBadge = '';
+
+    if (departure.status === 'cancelled') {
+        timeClass = 'time cancelled';
+        statusBadge = '<span class="status-badge cancelled">Cancelled</span>';
+    } else if (departure.status === 'delayed') {
+        timeClass = 'time delayed';
+        if (departure.scheduledDeparture) {
+            statusBadge = `<span class="was-time">was <s>${departure.scheduledDeparture}</s></span>`;
+        }
+    }
+
+    // Mark buses you'd only just make, or couldn't reach, on foot
+    const catchability =
+        departure.status === 'cancelled' ? 'catchable' : getCatchability(departure, walkingMinutes);
+    const catchClass = catchability === 'catchable' ? '' : ` ${catchability}`;
+    const catchNote =
+        catchability === 'catchable'
+            ? ''
+            : `<span class="visually-hidden">. ${CATCHABILITY_LABELS[catchability]}</span>`;
+
+    const line = escapeHtml(departure.line);
+    const destination = escapeHtml(departure.destination);
+
+    // Departures with a matched bus open the tracking panel
+    const rowAttributes = departure.vehicleRef
+        ? ` trackable" data-vehicle-ref="${escapeHtml(departure.vehicleRef)}" role="button" tabindex="0" aria-label="Track the ${line} to ${destination}"`
+        : '"';
+
     return `
-        <div class="departure-row">
-            <span class="line-badge">${departure.line}</span>
-            <span class="destination">${departure.destination}</span>
+        <div class="departure-row${catchClass}${rowAttributes}>
+            <button type="button" class="line-badge" data-line="${line}" aria-label="Show every stop on line ${line}">${line}</button>
+            <span class="destination">${destination}${catchNote}</span>
             <span class="time-container">
+                ${statusBadge}
                 ${sourceIndicator}
                 <span class="${timeClass}">${timeDisplay}</span>
+                ${renderAlertButton(
+                    getBusAlertKey(atcoCode, departure),
+                    `${departure.line} to ${departure.destination}`,
+                    departure.status === 'cancelled'
+                )}
             </span>
         </div>
     `;
 }
 
+/** Disruptions to show on a stop card; the rest are in the disruptions panel */
+const MAX_CARD_DISRUPTIONS = 2;
+
+/**
+ * Render banners for disruptions affecting a stop, most serious first
+ */
+function renderDisruptionBanners(disruptions: Disruption[] | undefined): string {
+    if (!disruptions || disruptions.length === 0) return '';
+
+    const banners = disruptions.slice(0, MAX_CARD_DISRUPTIONS).map(
+        d => `
+            <button type="button" class="disruption-banner" data-disruption-id="${escapeHtml(d.id)}">
+                <span aria-hidden="true">&#9888;</span> ${escapeHtml(d.summary)}
+            </button>
+        `
+    );
+    const more = disruptions.length - MAX_CARD_DISRUPTIONS;
+    if (more > 0) {
+        banners.push(`
+            <button type="button" class="disruption-banner" data-disruption-id="${escapeHtml(disruptions[MAX_CARD_DISRUPTIONS].id)}">
+                ${more} more ${more === 1 ? 'disruption' : 'disruptions'}
+            </button>
+        `);
+    }
+    return `<div class="disruption-banners">${banners.join('')}</div>`;
+}
+
+/**
+ * Render when to leave for the first bus that can still be caught
+ */
+function renderLeaveHint(departures: Departure[], walkingMinutes: number): string {
+    const leaveIn = getLeaveIn(departures, walkingMinutes);
+    if (!leaveIn) return '';
+
+    const when = leaveIn.minutes <= 0 ? 'Leave now' : `Leave in ${leaveIn.minutes} min`;
+    return `<p class="leave-hint">${when} for the ${escapeHtml(leaveIn.departure.line)} to ${escapeHtml(leaveIn.departure.destination)}</p>`;
+}
+
 /**
  * Render a single departure board card
  */
@@ -73,6 +201,12 @@ function renderDepartureCard(board: DepartureBoard): string {
     const bearingBadge = board.stop.bearing
         ? `<span class="bearing-badge">${getBearingLabel(board.stop.bearing)}</span>`
         : '';
+    // Name the bus station or stop area when the stop's own name doesn't
+    const { stopAreaName } = board.stop;
+    const stopArea =
+        stopAreaName && stopAreaName !== board.stop.commonName
+            ? `<p class="stop-area">${stopAreaName}</p>`
+            : '';
 
     const isFavorite = FavoritesManager.isFavorite(board.stop.atcoCode);
     const favoriteClass = isFavorite ? 'favorite-btn active' : 'favorite-btn';
@@ -82,9 +216,15 @@ function renderDepartureCard(board: DepartureBoard): string {
         ? `Remove ${board.stop.commonName} from favorites`
         : `Add ${board.stop.commonName} to favorites`;
 
+    const walkingMinutes = getWalkingMinutes(
+        board.stop.distanceMeters,
+        getConfig().journeyPlanner.walkingSpeed
+    );
     const departuresHtml =
         board.departures.length > 0
-            ? board.departures.map(renderDeparture).join('')
+            ? board.departures
+                  .map(d => renderDeparture(d, walkingMinutes, board.stop.atcoCode))
+                  .join('')
             : '<p class="no-departures">No buses expected soon</p>';
 
     const directionsUrl = getDirectionsUrl(board.stop.coordinates);
@@ -95,20 +235,57 @@ function renderDepartureCard(board: DepartureBoard): string {
                 <h2>${board.stop.commonName}${indicator}</h2>
                 ${bearingBadge}
             </div>
+            ${stopArea}
+            ${renderDisruptionBanners(board.disruptions)}
             <div class="card-meta">
-                <span class="distance">${formatDistance(board.stop.distanceMeters)}</span>
+                <span class="distance">${formatDistance(board.stop.distanceMeters)}, ${walkingMinutes} min walk</span>
                 <a href="${directionsUrl}" class="directions-link" target="_blank" rel="noopener" aria-label="Get walking directions to this stop">Directions</a>
                 <button class="${favoriteClass}" data-atco-code="${board.stop.atcoCode}" aria-pressed="${favoriteAriaPressed}" aria-label="${favoriteAriaLabel}">${favoriteText}</button>
             </div>
+            ${renderLeaveHint(board.departures, walkingMinutes)}
             <div class="departures-list">${departuresHtml}</div>
         </div>
     `;
 }
 
+/**
+ * Render when a train reaches the board's destination filter
+ */
+function renderDestinationArrival(departure: TrainDeparture, isFastest: boolean): string {
+    const arrival = departure.destinationArrival;
+    if (!arrival || arrival.status === 'cancelled') return '';
+
+    const fastest = isFastest ? ' <strong>(fastest)</strong>' : '';
+    return `<span class="arrival-time">arrives ${escapeHtml(arrival.crsCode)} ${arrival.expectedTime}${fastest}</span>`;
+}
+
+/**
+ * Render the platform, or a badge marking a rail replacement bus
+ */
+function renderServiceBadge(departure: TrainDeparture): string {
+    if (departure.isReplacementBus) {
+        return '<span class="platform-badge replacement-bus-badge">Bus</span>';
+    }
+    return departure.platform
+        ? `<span class="platform-badge">Plat ${departure.platform}</span>`
+        : '';
+}
+
+/**
+ * Check whether only replacement buses are running, as when the line is closed for engineering works
+ */
+function isLineClosed(departures: TrainDeparture[]): boolean {
+    return departures.length > 0 && departures.every(departure => departure.isReplacementBus);
+}
+
 /**
  * Render a single train departure row
  */
-function renderTrainDeparture(departure: TrainDeparture): string {
+function renderTrainDeparture(
+    departure: TrainDeparture,
+    crsCode: string,
+    isFastest = false
+): string {
     const timeDisplay = departure.minutesUntil <= 0 ? 'Due' : `${departure.minutesUntil} min`;
     const sourceIndicator = departure.isRealTime
         ? '<span class="source-badge realtime">Live</span>'
@@ -124,20 +301,142 @@ function renderTrainDeparture(departure: TrainDeparture): string {
         timeClass = 'time delayed';
     }
 
-    const platformBadge = departure.platform
-        ? `<span class="platform-badge">Plat ${departure.platform}</span>`
+    const platformBadge = renderServiceBadge(departure);
+
+    // Say why the train is cancelled or late, when Darwin gives a reason
+    const reason =
+        departure.status === 'cancelled'
+            ? (departure.cancelReason ?? departure.delayReason)
+            : departure.delayReason;
+    const reasonLine = reason ? `<p class="service-reason">${escapeHtml(reason)}</p>` : '';
+    const boardingLine = departure.boardingPoint
+        ? `<p class="boarding-point">Board at ${escapeHtml(departure.boardingPoint)}</p>`
         : '';
 
+    // Departures with a Darwin service ID open the service panel
+    const serviceName = departure.isReplacementBus ? 'replacement bus' : '';
+    const rowAttributes = departure.serviceId
+        ? ` service-row" data-service-id="${escapeHtml(departure.serviceId)}" role="button" tabindex="0" aria-label="Show calling points for the ${departure.scheduledDeparture} ${serviceName}to ${escapeHtml(departure.destination)}"`
+        : '"';
+
     return `
-        <div class="departure-row train-departure-row">
+        <div class="departure-row train-departure-row${rowAttributes}>
             ${platformBadge}
-            <span class="destination">${departure.destination}</span>
+            <span class="destination">
+                ${escapeHtml(departure.destination)}
+                ${renderDestinationArrival(departure, isFastest)}
+            </span>
             <span class="time-container">
                 ${statusBadge}
                 ${sourceIndicator}
                 <span class="${timeClass}">${timeDisplay}</span>
+                ${renderAlertButton(
+                    getTrainAlertKey(crsCode, departure),
+                    `${departure.scheduledDeparture} to ${departure.destination}`,
+                    departure.status === 'cancelled'
+                )}
             </span>
         </div>
+        ${boardingLine}
+        ${reasonLine}
+    `;
+}
+
+/**
+ * Render a single train arrival row
+ */
+function renderTrainArrival(arrival: TrainArrival): string {
+    const timeDisplay = arrival.minutesUntil <= 0 ? 'Due' : `${arrival.minutesUntil} min`;
+
+    let timeClass = 'time';
+    let statusBadge = '';
+    if (arrival.status === 'cancelled') {
+        timeClass = 'time cancelled';
+        statusBadge = '<span class="status-badge cancelled">Cancelled</span>';
+    } else if (arrival.status === 'delayed') {
+        timeClass = 'time delayed';
+    }
+
+    const platformBadge = arrival.platform
+        ? `<span class="platform-badge">Plat ${arrival.platform}</span>`
+        : '';
+    const expected =
+        arrival.expectedArrival !== arrival.scheduledArrival && arrival.status !== 'cancelled'
+            ? `, expected ${arrival.expectedArrival}`
+            : '';
+
+    const reason =
+        arrival.status === 'cancelled'
+            ? (arrival.cancelReason ?? arrival.delayReason)
+            : arrival.delayReason;
+    const reasonLine = reason ? `<p class="service-reason">${escapeHtml(reason)}</p>` : '';
+
+    return `
+        <div class="departure-row train-departure-row">
+            ${platformBadge}
+            <span class="destination">
+                from ${escapeHtml(arrival.origin)}
+                <span class="arrival-time">due ${arrival.scheduledArrival}${expected}</span>
+            </span>
+            <span class="time-container">
+                ${statusBadge}
+                <span class="${timeClass}">${timeDisplay}</span>
+            </span>
+        </div>
+        ${reasonLine}
+    `;
+}
+
+/**
+ * Render the departures/arrivals toggle for a station
+ */
+function renderBoardModeToggle(crsCode: string, showArrivals: boolean): string {
+    const button = (mode: string, label: string, pressed: boolean) =>
+        `<button type="button" class="board-mode-btn" data-crs-code="${crsCode}" data-mode="${mode}" aria-pressed="${pressed}">${label}</button>`;
+
+    return `
+        <div class="board-mode" role="group" aria-label="Board">
+            ${button('departures', 'Departures', !showArrivals)}
+            ${button('arrivals', 'Arrivals', showArrivals)}
+        </div>
+    `;
+}
+
+/**
+ * Render NRCC station messages as an expandable alert
+ */
+function renderStationAlerts(messages: string[] | undefined): string {
+    if (!messages || messages.length === 0) return '';
+
+    const label = messages.length === 1 ? '1 station alert' : `${messages.length} station alerts`;
+    return `
+        <details class="station-alerts">
+            <summary><span aria-hidden="true">&#9888;</span> ${label}</summary>
+            ${messages.map(message => `<p>${escapeHtml(message)}</p>`).join('')}
+        </details>
+    `;
+}
+
+/**
+ * Render the picker for a station's preferred destination
+ */
+function renderDestinationSelect(crsCode: string): string {
+    const selected = FavoritesManager.getStationDestination(crsCode);
+    const options = TrainStationService.getDestinations()
+        .map(
+            d =>
+                `<option value="${d.crsCode}"${d.crsCode === selected ? ' selected' : ''}>${escapeHtml(d.name)}</option>`
+        )
+        .join('');
+
+    return `
+        <label class="destination-filter">
+            Trains to
+            <select class="destination-select" data-crs-code="${crsCode}">
+                <option value="">All destinations</option>
+                ${options}
+            </select>
+        </label>
     `;
 }
 
@@ -146,12 +445,30 @@ function renderTrainDeparture(departure: TrainDeparture): string {
  */
 function renderTrainStationCard(board: TrainDepartureBoard, errorMessage?: string): string {
     const { station, departures } = board;
+    const showArrivals = getArrivalStations().has(station.crsCode);
+    const arrivals = board.arrivals ?? [];
 
     let departuresHtml: string;
     if (errorMessage) {
         departuresHtml = `<p class="no-departures error-message">${errorMessage}</p>`;
+    } else if (showArrivals) {
+        departuresHtml =
+            arrivals.length > 0
+                ? arrivals.map(renderTrainArrival).join('')
+                : '<p class="no-departures">No trains arriving soon</p>';
     } else if (departures.length > 0) {
-        departuresHtml = departures.map(renderTrainDeparture).join('');
+        // Only worth pointing out when there's more than one train to choose from
+        const fastest =
+            board.destinationCrs && departures.length > 1
+                ? findFastestDeparture(departures)
+                : undefined;
+        departuresHtml = departures
+            .map(departure =>
+                renderTrainDeparture(departure, station.crsCode, departure === fastest)
+            )
+            .join('');
+    } else if (board.destinationCrs) {
+        departuresHtml = `<p class="no-departures">No trains to ${escapeHtml(board.destinationCrs)} expected soon</p>`;
     } else {
         departuresHtml = '<p class="no-departures">No trains expected soon</p>';
     }
@@ -175,12 +492,16 @@ function renderTrainStationCard(board: TrainDepartureBoard, errorMessage?: strin
             <div class="stop-header">
                 <h2>${station.name}</h2>
                 <span class="station-badge">${station.crsCode}</span>
+                ${!showArrivals && isLineClosed(departures) ? '<span class="line-closed-badge">Line closed - replacement buses</span>' : ''}
             </div>
+            ${renderStationAlerts(board.messages)}
             <div class="card-meta">
                 <span class="distance">${formatDistance(station.distanceMeters)}</span>
                 <a href="${directionsUrl}" class="directions-link" target="_blank" rel="noopener" aria-label="Get walking directions to this station">Directions</a>
                 <button class="${favoriteClass}" data-crs-code="${station.crsCode}" aria-pressed="${favoriteAriaPressed}" aria-label="${favoriteAriaLabel}">${favoriteText}</button>
             </div>
+            ${renderBoardModeToggle(station.crsCode, showArrivals)}
+            ${showArrivals ? '' : renderDestinationSelect(station.crsCode)}
             <div class="departures-list">${departuresHtml}</div>
         </div>
     `;
@@ -206,6 +527,33 @@ function getItemDistance(item: DisplayItem): number {
     return item.data.stop.distanceMeters;
 }
 
+/**
+ * Format a search radius for display
+ */
+function formatRadius(radius: number): string {
+    return radius >= 1000 ? `${(radius / 1000).toFixed(1)}km` : `${radius}m`;
+}
+
+/**
+ * Label for the "Show more" button with the next radius each search will use
+ * Bus stops and train stations expand separately, so either may have run out
+ */
+export function getShowMoreLabel(): string {
+    const config = getConfig();
+    const parts: string[] = [];
+
+    if (!hasReachedMaxRadius()) {
+        const nextRadius = getCurrentSearchRadius() + config.busStops.radiusIncrement;
+        parts.push(`stops (within ${formatRadius(nextRadius)})`);
+    }
+    if (!hasReachedMaxTrainRadius()) {
+        const nextRadius = getTrainSearchRadius() + config.trainStations.radiusIncrement;
+        parts.push(`stations (within ${formatRadius(nextRadius)})`);
+    }
+
+    return `Show more ${parts.join(' and ')}`;
+}
+
 /**
  * Display all items (bus departures and train stations) sorted by distance
  * Favorites are pinned to the top
@@ -269,18 +617,11 @@ export function displayItems(
     // Render items
     let html = sorted.map(renderDisplayItem).join('');
 
-    // Add "Show more stops" button if applicable
-    const reachedMax = hasReachedMaxRadius();
-    if (hasMoreStops && !reachedMax) {
-        const config = getConfig();
-        const currentRadius = getCurrentSearchRadius();
-        const nextRadius = currentRadius + config.busStops.radiusIncrement;
-        const displayRadius =
-            nextRadius >= 1000 ? `${(nextRadius / 1000).toFixed(1)}km` : `${nextRadius}m`;
-
+    // Add "Show more" button if applicable
+    if (hasMoreStops && canShowMore()) {
         html += `
             <div id="show-more-container" class="show-more-container">
-                <button id="show-more-btn" class="show-more-btn" aria-label="Load more bus stops within ${displayRadius}">Show more stops (within ${displayRadius})</button>
+                <button id="show-more-btn" class="show-more-btn">${getShowMoreLabel()}</button>
             </div>
         `;
     }
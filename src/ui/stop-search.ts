@@ -0,0 +1,95 @@
+/**
+ * Stop Search Box
+ * Finds stops by name as the user types and opens the chosen stop's departures
+ */
+
+import { Logger } from '@/utils/logger';
+import { debounce } from '@/utils/helpers';
+import { getUserLocation } from '@/core/app-state';
+import { BusStopService } from '@/core';
+import type { BusStop, StopSearchMatch } from '@/types';
+
+/** Wait this long after typing stops before searching (ms) */
+const SEARCH_DELAY = 200;
+
+/** Results currently listed, looked up when one is chosen */
+let currentMatches: StopSearchMatch[] = [];
+
+/**
+ * Render one search result
+ */
+function renderMatch(match: StopSearchMatch): string {
+    const { stop } = match;
+    const indicator = stop.indicator ? ` (${stop.indicator})` : '';
+    const details = [stop.street, stop.locality].filter(Boolean);
+    if (match.distanceMeters !== undefined) {
+        details.push(
+            match.distanceMeters >= 1000
+                ? `${(match.distanceMeters / 1000).toFixed(1)}km away`
+                : `${Math.round(match.distanceMeters)}m away`
+        );
+    }
+
+    return `
+        <li>
+            <button type="button" class="stop-search-result" data-atco-code="${stop.atcoCode}">
+                ${stop.commonName}${indicator}
+                <span class="line-summary">${details.join(', ')}</span>
+            </button>
+        </li>
+    `;
+}
+
+/**
+ * Search for the text in the box and list the matches
+ */
+async function runSearch(query: string): Promise<void> {
+    const results = document.getElementById('stop-search-results');
+    if (!results) return;
+
+    if (!query.trim()) {
+        currentMatches = [];
+        results.innerHTML = '';
+        return;
+    }
+
+    try {
+        currentMatches = await BusStopService.searchStops(query, getUserLocation() ?? undefined);
+        results.innerHTML =
+            currentMatches.length === 0
+                ? '<li class="tracking-note">No stops match that name</li>'
+                : currentMatches.map(renderMatch).join('');
+    } catch (error) {
+        Logger.warn('Stop search failed', error);
+        currentMatches = [];
+        results.innerHTML = '<li class="tracking-note">Stops are still loading - try again</li>';
+    }
+}
+
+/**
+ * Set up the stop search box
+ * @param onSelect - Called with the stop the user picks
+ */
+export function setupStopSearch(onSelect: (stop: BusStop) => void): void {
+    const input = document.getElementById('stop-search-input');
+    const results = document.getElementById('stop-search-results');
+    if (!(input instanceof HTMLInputElement) || !results) return;
+
+    const search = debounce((query: string) => void runSearch(query), SEARCH_DELAY);
+    input.addEventListener('input', () => search(input.value));
+    document.getElementById('stop-search-form')?.addEventListener('submit', e => {
+        e.preventDefault();
+        void runSearch(input.value);
+    });
+
+    results.addEventListener('click', e => {
+        const button = (e.target as HTMLElement).closest<HTMLElement>('.stop-search-result');
+        const match = currentMatches.find(m => m.stop.atcoCode === button?.dataset.atcoCode);
+        if (!match) return;
+
+        input.value = '';
+        results.innerHTML = '';
+        currentMatches = [];
+        onSelect(match.stop);
+    });
+}
@@ -0,0 +1,218 @@
+/**
+ * Vehicle Tracking Panel
+ * Shows where the bus for a selected departure is, refreshed while open
+ */
+
+import { getConfig } from '@/config';
+import { Logger } from '@/utils/logger';
+import { escapeHtml } from '@/utils/helpers';
+import { trackVehicle, type VehicleTracking } from '@/core/bus-stops/vehicle-tracking';
+import { getAllDisplayItems } from '@/core/app-state';
+import type { BusStop, Departure } from '@/types';
+
+/** Refresh timer for the open panel */
+let refreshTimer: ReturnType<typeof setInterval> | null = null;
+
+/** Element focused before the panel opened, to restore on close */
+let returnFocus: HTMLElement | null = null;
+
+/**
+ * Format distance from the stop for display
+ */
+function formatTrackingDistance(meters: number): string {
+    if (meters < 50) return 'at the stop';
+    if (meters >= 1000) return `${(meters / 1000).toFixed(1)}km`;
+    return `${Math.round(meters)}m`;
+}
+
+/**
+ * Format how long ago a position was recorded
+ */
+function formatPositionAge(seconds: number): string {
+    if (seconds < 60) return `${seconds}s ago`;
+    return `${Math.round(seconds / 60)} min ago`;
+}
+
+/**
+ * Render the warning shown when the bus's position may be out of date
+ */
+function renderFreshnessWarning(tracking: VehicleTracking): string {
+    if (tracking.freshness === 'fresh') return '';
+
+    const message =
+        tracking.freshness === 'expired'
+            ? 'This position has expired - the bus may have stopped reporting'
+            : 'This position may be out of date';
+    return `<p class="tracking-warning" role="alert">${message}</p>`;
+}
+
+/**
+ * Render the stops the bus still has to serve
+ */
+function renderRemainingStops(tracking: VehicleTracking): string {
+    if (tracking.remainingStops.length === 0) {
+        return '<p class="tracking-note">Stops along the route are not available for this bus</p>';
+    }
+
+    const items = tracking.remainingStops
+        .map(stop => {
+            const current = stop.isSelectedStop
+                ? ' class="selected-stop" aria-current="location"'
+                : '';
+            return `<li${current}><span>${escapeHtml(stop.name)}</span><span class="time">${stop.scheduledTime}</span></li>`;
+        })
+        .join('');
+
+    const count = tracking.remainingStops.length;
+    return `
+        <h3>${count} ${count === 1 ? 'stop' : 'stops'} to go</h3>
+        <ol class="tracking-stops">${items}</ol>
+    `;
+}
+
+/**
+ * Render tracking details into the panel body
+ */
+function renderTracking(tracking: VehicleTracking | null): string {
+    if (!tracking) {
+        return '<p class="tracking-note">This bus is not reporting its position right now</p>';
+    }
+
+    const distance = formatTrackingDistance(tracking.distanceMeters);
+    const location =
+        tracking.distanceMeters < 50
+            ? 'The bus is at the stop'
+            : `The bus is ${distance} ${tracking.direction} of the stop`;
+
+    return `
+        <p class="tracking-position">${location}</p>
+        <p class="tracking-updated">Position updated ${formatPositionAge(tracking.positionAge)}</p>
+        ${renderFreshnessWarning(tracking)}
+        ${renderRemainingStops(tracking)}
+    `;
+}
+
+/**
+ * Fetch the bus's position and update the panel
+ */
+async function refreshTracking(stop: BusStop, departure: Departure): Promise<void> {
+    const body = document.getElementById('tracking-body');
+    if (!body) return;
+
+    try {
+        body.innerHTML = renderTracking(await trackVehicle(stop, departure));
+    } catch (error) {
+        Logger.warn('Failed to track vehicle', error);
+        body.innerHTML = '<p class="tracking-note">Unable to locate this bus right now</p>';
+    }
+}
+
+/**
+ * Open the tracking panel for a departure
+ */
+function openTrackingPanel(stop: BusStop, departure: Departure): void {
+    const modal = document.getElementById('tracking-modal');
+    const title = document.getElementById('tracking-title');
+    const body = document.getElementById('tracking-body');
+    if (!modal || !title || !body) return;
+
+    closeTrackingPanel();
+    returnFocus = document.activeElement instanceof HTMLElement ? document.activeElement : null;
+
+    title.textContent = `${departure.line} to ${departure.destination}`;
+    body.innerHTML = '<p class="tracking-note">Finding the bus...</p>';
+    modal.hidden = false;
+    document.getElementById('tracking-close')?.focus();
+
+    void refreshTracking(stop, departure);
+    refreshTimer = setInterval(
+        () => void refreshTracking(stop, departure),
+        getConfig().busStops.trackingRefreshInterval
+    );
+}
+
+/**
+ * Close the tracking panel and stop refreshing
+ */
+function closeTrackingPanel(): void {
+    if (refreshTimer !== null) {
+        clearInterval(refreshTimer);
+        refreshTimer = null;
+    }
+
+    const modal = document.getElementById('tracking-modal');
+    if (modal && !modal.hidden) {
+        modal.hidden = true;
+        returnFocus?.focus();
+        returnFocus = null;
+    }
+}
+
+/**
+ * Find the departure shown in a clicked row
+ */
+function findTrackedDeparture(row: Element): { stop: BusStop; departure: Departure } | null {
+    const vehicleRef = row.getAttribute('data-vehicle-ref');
+    const atcoCode = row.closest('.card')?.getAttribute('data-atco-code');
+    if (!vehicleRef || !atcoCode) return null;
+
+    for (const item of getAllDisplayItems()) {
+        if (item.type !== 'bus' || item.data.stop.atcoCode !== atcoCode) continue;
+        const departure = item.data.departures.find(d => d.vehicleRef === vehicleRef);
+        if (departure) return { stop: item.data.stop, departure };
+    }
+    return null;
+}
+
+/**
+ * Handle clicks and key presses on trackable departure rows
+ */
+function handleTrackableRow(e: Event): void {
+    if (e instanceof KeyboardEvent && e.key !== 'Enter' && e.key !== ' ') return;
+
+    // Line badges open the line view, and alert buttons set an alert, instead
+    const target = e.target as HTMLElement;
+    if (target.closest('.line-badge, .alert-btn')) return;
+
+    const row = target.closest('.departure-row.trackable');
+    if (!row) return;
+
+    const tracked = findTrackedDeparture(row);
+    if (!tracked) return;
+
+    e.preventDefault();
+    openTrackingPanel(tracked.stop, tracked.departure);
+}
+
+/**
+ * Set up departure row handlers using event delegation
+ * Called after each render, like the favorite handlers
+ */
+export function setupTrackingRowHandlers(): void {
+    const container = document.getElementById('departures-container');
+    if (!container) return;
+
+    // Remove old listeners if any (avoid duplicates)
+    container.removeEventListener('click', handleTrackableRow);
+    container.removeEventListener('keydown', handleTrackableRow);
+    container.addEventListener('click', handleTrackableRow);
+    container.addEventListener('keydown', handleTrackableRow);
+}
+
+/**
+ * Set up tracking panel close handlers
+ */
+export function setupTrackingPanelHandlers(): void {
+    document.getElementById('tracking-close')?.addEventListener('click', closeTrackingPanel);
+
+    // Close on overlay click (outside panel)
+    const overlay = document.getElementById('tracking-modal');
+    overlay?.addEventListener('click', e => {
+        if (e.target === overlay) closeTrackingPanel();
+    });
+
+    // Close on Escape key
+    document.addEventListener('keydown', e => {
+        if (e.key === 'Escape') closeTrackingPanel();
+    });
+}
@@ -0,0 +1,298 @@
+/**
+ * Train Service Panel
+ * Shows the stations a selected train calls at and where it was last reported
+ */
+
+import { getConfig } from '@/config';
+import { escapeHtml } from '@/utils/helpers';
+import { formatTimeHHMM } from '@/utils/time';
+import { TrainDepartureService } from '@/core';
+import { findTrainPosition } from '@/core/train-stations/train-position';
+import { getAllDisplayItems } from '@/core/app-state';
+import type { TrainCallingPoint, TrainDeparture, TrainPosition, TrainServiceDetail } from '@/types';
+
+/** Darwin service ID of the train shown in the panel */
+let openServiceId: string | null = null;
+
+/** Refresh timer while the train is tracked */
+let refreshTimer: ReturnType<typeof setInterval> | null = null;
+
+/** Element focused before the panel opened, to restore on close */
+let returnFocus: HTMLElement | null = null;
+
+/**
+ * Render the time column for a calling point
+ */
+function renderCallingTime(point: TrainCallingPoint): string {
+    if (point.status === 'cancelled') {
+        return '<span class="time cancelled">Cancelled</span>';
+    }
+    if (point.expectedTime !== point.scheduledTime) {
+        return `<span class="time delayed"><span class="was-time"><s>${point.scheduledTime}</s></span> ${point.expectedTime}</span>`;
+    }
+    return `<span class="time">${point.scheduledTime}</span>`;
+}
+
+/**
+ * Render the stations still to come
+ */
+function renderCallingPoints(points: TrainCallingPoint[], next?: TrainCallingPoint): string {
+    if (points.length === 0) {
+        return '<p class="tracking-note">This train does not call anywhere else</p>';
+    }
+
+    const items = points
+        .map(point => {
+            const current = point === next ? ' class="selected-stop" aria-current="location"' : '';
+            return `<li${current}><span>${escapeHtml(point.name)}</span>${renderCallingTime(point)}</li>`;
+        })
+        .join('');
+
+    return `
+        <h3>Calling at</h3>
+        <ol class="tracking-stops">${items}</ol>
+    `;
+}
+
+/**
+ * Describe where the train was last reported
+ */
+function describePosition(position: TrainPosition | null): string {
+    if (!position) return 'This train is cancelled';
+
+    switch (position.type) {
+        case 'not-started':
+            return `Not yet left ${position.origin.name}`;
+        case 'arrived':
+            return `Arrived at ${position.last.name} at ${position.last.actualTime ?? position.last.scheduledTime}`;
+        case 'between':
+            return `Left ${position.last.name} at ${position.last.actualTime ?? position.last.scheduledTime}, next stop ${position.next.name}`;
+    }
+}
+
+/**
+ * Render platform and operator for the train
+ */
+function renderServiceMeta(platform: string | undefined, operatorName: string | undefined): string {
+    const parts = [platform && `Platform ${platform}`, operatorName].filter(Boolean) as string[];
+    return parts.length > 0
+        ? `<p class="tracking-updated">${escapeHtml(parts.join(' - '))}</p>`
+        : '';
+}
+
+/**
+ * Render the cancellation or delay reason, if any
+ */
+function renderReason(reason: string | undefined): string {
+    return reason ? `<p class="tracking-warning">${escapeHtml(reason)}</p>` : '';
+}
+
+/**
+ * Render a train's live details into the panel body
+ */
+function renderServiceDetail(detail: TrainServiceDetail): string {
+    const position = findTrainPosition(detail);
+    const reason =
+        detail.station.status === 'cancelled'
+            ? (detail.cancelReason ?? detail.delayReason)
+            : detail.delayReason;
+    // Only highlight the next stop once the train has left this station
+    const next =
+        position?.type === 'between' && detail.callingPoints.includes(position.next)
+            ? position.next
+            : undefined;
+
+    return `
+        ${renderServiceMeta(detail.platform, detail.operatorName)}
+        <p class="tracking-position">${escapeHtml(describePosition(position))}</p>
+        <p class="tracking-updated">Updated ${formatTimeHHMM(new Date(detail.generatedAt))}</p>
+        ${renderReason(reason)}
+        ${renderCallingPoints(detail.callingPoints, next)}
+    `;
+}
+
+/**
+ * Render what the departure board already knows while the details load
+ */
+function renderDepartureSummary(departure: TrainDeparture): string {
+    const reason =
+        departure.status === 'cancelled'
+            ? (departure.cancelReason ?? departure.delayReason)
+            : departure.delayReason;
+
+    return `
+        ${renderServiceMeta(departure.platform, departure.operatorName)}
+        <p class="tracking-note">Finding the train...</p>
+        ${renderReason(reason)}
+        ${renderCallingPoints(departure.callingPoints ?? [])}
+    `;
+}
+
+/**
+ * Fetch the train's details and update the panel
+ * Keeps what's shown if a refresh fails, so a blip doesn't blank the list
+ */
+async function refreshService(serviceId: string): Promise<void> {
+    const result = await TrainDepartureService.getServiceDetail(serviceId);
+
+    // The panel may have closed, or moved to another train, while loading
+    const body = document.getElementById('train-service-body');
+    if (!body || serviceId !== openServiceId) return;
+
+    if (result.success) {
+        body.innerHTML = renderServiceDetail(result.detail);
+        return;
+    }
+
+    const note = body.querySelector('.tracking-note');
+    const message = `<p class="tracking-note">${escapeHtml(result.error.getUserMessage())}</p>`;
+    if (note) {
+        note.outerHTML = message;
+    } else {
+        body.insertAdjacentHTML('afterbegin', message);
+    }
+}
+
+/**
+ * Stop refreshing the train
+ */
+function stopTracking(): void {
+    if (refreshTimer !== null) {
+        clearInterval(refreshTimer);
+        refreshTimer = null;
+    }
+
+    const button = document.getElementById('train-track-btn');
+    if (button) {
+        button.textContent = 'Track this train';
+        button.setAttribute('aria-pressed', 'false');
+    }
+}
+
+/**
+ * Start or stop refreshing the open train's details
+ */
+function toggleTracking(): void {
+    const button = document.getElementById('train-track-btn');
+    const serviceId = openServiceId;
+    if (!button || !serviceId) return;
+
+    if (refreshTimer !== null) {
+        stopTracking();
+        return;
+    }
+
+    void refreshService(serviceId);
+    refreshTimer = setInterval(
+        () => void refreshService(serviceId),
+        getConfig().trainStations.serviceRefreshInterval
+    );
+    button.textContent = 'Stop tracking';
+    button.setAttribute('aria-pressed', 'true');
+}
+
+/**
+ * Open the service panel for a train departure
+ */
+function openServicePanel(departure: TrainDeparture & { serviceId: string }): void {
+    const modal = document.getElementById('train-service-modal');
+    const title = document.getElementById('train-service-title');
+    const body = document.getElementById('train-service-body');
+    if (!modal || !title || !body) return;
+
+    closeServicePanel();
+    returnFocus = document.activeElement instanceof HTMLElement ? document.activeElement : null;
+
+    title.textContent = `${departure.scheduledDeparture} to ${departure.destination}`;
+    body.innerHTML = renderDepartureSummary(departure);
+    openServiceId = departure.serviceId;
+    modal.hidden = false;
+    document.getElementById('train-service-close')?.focus();
+
+    void refreshService(departure.serviceId);
+}
+
+/**
+ * Close the service panel and stop tracking
+ */
+function closeServicePanel(): void {
+    stopTracking();
+    openServiceId = null;
+
+    const modal = document.getElementById('train-service-modal');
+    if (modal && !modal.hidden) {
+        modal.hidden = true;
+        returnFocus?.focus();
+        returnFocus = null;
+    }
+}
+
+/**
+ * Find the train departure shown in a clicked row
+ */
+function findServiceDeparture(row: Element): (TrainDeparture & { serviceId: string }) | null {
+    const serviceId = row.getAttribute('data-service-id');
+    const crsCode = row.closest('.card')?.getAttribute('data-crs-code');
+    if (!serviceId || !crsCode) return null;
+
+    for (const item of getAllDisplayItems()) {
+        if (item.type !== 'train' || item.data.station.crsCode !== crsCode) continue;
+        const departure = item.data.departures.find(d => d.serviceId === serviceId);
+        if (departure) return { ...departure, serviceId };
+    }
+    return null;
+}
+
+/**
+ * Handle clicks and key presses on train departure rows
+ */
+function handleServiceRow(e: Event): void {
+    if (e instanceof KeyboardEvent && e.key !== 'Enter' && e.key !== ' ') return;
+
+    // Alert buttons set an alert instead
+    const target = e.target as HTMLElement;
+    if (target.closest('.alert-btn')) return;
+
+    const row = target.closest('.departure-row.service-row');
+    if (!row) return;
+
+    const departure = findServiceDeparture(row);
+    if (!departure) return;
+
+    e.preventDefault();
+    openServicePanel(departure);
+}
+
+/**
+ * Set up train departure row handlers using event delegation
+ * Called after each render, like the favorite handlers
+ */
+export function setupServiceRowHandlers(): void {
+    const container = document.getElementById('departures-container');
+    if (!container) return;
+
+    // Remove old listeners if any (avoid duplicates)
+    container.removeEventListener('click', handleServiceRow);
+    container.removeEventListener('keydown', handleServiceRow);
+    container.addEventListener('click', handleServiceRow);
+    container.addEventListener('keydown', handleServiceRow);
+}
+
+/**
+ * Set up train service panel handlers
+ */
+export function setupServicePanelHandlers(): void {
+    document.getElementById('train-service-close')?.addEventListener('click', closeServicePanel);
+    document.getElementById('train-track-btn')?.addEventListener('click', toggleTracking);
+
+    // Close on overlay click (outside panel)
+    const overlay = document.getElementById('train-service-modal');
+    overlay?.addEventListener('click', e => {
+        if (e.target === overlay) closeServicePanel();
+    });
+
+    // Close on Escape key
+    document.addEventListener('keydown', e => {
+        if (e.key === 'Escape') closeServicePanel();
+    });
+}
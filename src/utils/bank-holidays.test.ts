@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import { getBankHolidays, isBankHoliday } from './bank-holidays';
+
+describe('bank-holidays', () => {
+    describe('getBankHolidays', () => {
+        it('should return the eight regular holidays for 2024', () => {
+            expect(getBankHolidays(2024)).toEqual([
+                '2024-01-01',
+                '2024-03-29',
+                '2024-04-01',
+                '2024-05-06',
+                '2024-05-27',
+                '2024-08-26',
+                '2024-12-25',
+                '2024-12-26',
+            ]);
+        });
+
+        it('should substitute New Year and Christmas falling at the weekend', () => {
+            const holidays = getBankHolidays(2022);
+            expect(holidays).toContain('2022-01-03');
+            expect(holidays).toContain('2022-12-26');
+            expect(holidays).toContain('2022-12-27');
+            expect(holidays).not.toContain('2022-01-01');
+            expect(holidays).not.toContain('2022-12-25');
+        });
+
+        it('should substitute Boxing Day after a Saturday Christmas', () => {
+            const holidays = getBankHolidays(2021);
+            expect(holidays).toContain('2021-12-27');
+            expect(holidays).toContain('2021-12-28');
+        });
+
+        it('should apply one-off moved and additional holidays', () => {
+            const holidays2022 = getBankHolidays(2022);
+            expect(holidays2022).toContain('2022-06-02');
+            expect(holidays2022).toContain('2022-06-03');
+            expect(holidays2022).toContain('2022-09-19');
+            expect(holidays2022).not.toContain('2022-05-30');
+
+            expect(getBankHolidays(2023)).toContain('2023-05-08');
+        });
+    });
+
+    describe('isBankHoliday', () => {
+        it('should return true for Easter Monday', () => {
+            expect(isBankHoliday(new Date(2025, 3, 21, 9, 30))).toBe(true);
+        });
+
+        it('should return false for an ordinary weekday', () => {
+            expect(isBankHoliday(new Date(2025, 3, 22, 9, 30))).toBe(false);
+        });
+    });
+});
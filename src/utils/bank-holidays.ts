@@ -0,0 +1,118 @@
+/**
+ * UK Bank Holidays
+ * Calculates England & Wales bank holidays for timetable service day lookups
+ */
+
+/** One-off changes to the regular pattern (royal events, moved holidays) */
+const BANK_HOLIDAY_OVERRIDES: Record<number, { remove?: string[]; add?: string[] }> = {
+    2020: { remove: ['2020-05-04'], add: ['2020-05-08'] },
+    2022: { remove: ['2022-05-30'], add: ['2022-06-02', '2022-06-03', '2022-09-19'] },
+    2023: { add: ['2023-05-08'] },
+};
+
+/**
+ * Format a date as YYYY-MM-DD using local time
+ */
+function toDateKey(date: Date): string {
+    const year = date.getFullYear();
+    const month = (date.getMonth() + 1).toString().padStart(2, '0');
+    const day = date.getDate().toString().padStart(2, '0');
+    return `${year}-${month}-${day}`;
+}
+
+/**
+ * Calculate Easter Sunday (anonymous Gregorian algorithm)
+ */
+function getEasterSunday(year: number): Date {
+    const a = year % 19;
+    const b = Math.floor(year / 100);
+    const c = year % 100;
+    const d = Math.floor(b / 4);
+    const e = b % 4;
+    const f = Math.floor((b + 8) / 25);
+    const g = Math.floor((b - f + 1) / 3);
+    const h = (19 * a + b - d - g + 15) % 30;
+    const i = Math.floor(c / 4);
+    const k = c % 4;
+    const l = (32 + 2 * e + 2 * i - h - k) % 7;
+    const m = Math.floor((a + 11 * h + 22 * l) / 451);
+    const month = Math.floor((h + l - 7 * m + 114) / 31);
+    const day = ((h + l - 7 * m + 114) % 31) + 1;
+    return new Date(year, month - 1, day);
+}
+
+/**
+ * First Monday of the month
+ */
+function firstMonday(year: number, month: number): Date {
+    const date = new Date(year, month, 1);
+    while (date.getDay() !== 1) {
+        date.setDate(date.getDate() + 1);
+    }
+    return date;
+}
+
+/**
+ * Last Monday of the month
+ */
+function lastMonday(year: number, month: number): Date {
+    const date = new Date(year, month + 1, 0);
+    while (date.getDay() !== 1) {
+        date.setDate(date.getDate() - 1);
+    }
+    return date;
+}
+
+/**
+ * Move a fixed-date holiday that falls at a weekend to the next free weekday
+ */
+function substituteWeekday(date: Date, taken: Set<string>): Date {
+    const result = new Date(date);
+    while (result.getDay() === 0 || result.getDay() === 6 || taken.has(toDateKey(result))) {
+        result.setDate(result.getDate() + 1);
+    }
+    return result;
+}
+
+/**
+ * Get England & Wales bank holidays for a year as YYYY-MM-DD keys
+ * Weekend holidays are replaced by their substitute weekday
+ */
+export function getBankHolidays(year: number): string[] {
+    const holidays = new Set<string>();
+    const easter = getEasterSunday(year);
+
+    holidays.add(toDateKey(substituteWeekday(new Date(year, 0, 1), holidays)));
+    holidays.add(toDateKey(new Date(year, easter.getMonth(), easter.getDate() - 2)));
+    holidays.add(toDateKey(new Date(year, easter.getMonth(), easter.getDate() + 1)));
+    holidays.add(toDateKey(firstMonday(year, 4)));
+    holidays.add(toDateKey(lastMonday(year, 4)));
+    holidays.add(toDateKey(lastMonday(year, 7)));
+
+    // Christmas first so Boxing Day substitutes around it
+    const christmas = substituteWeekday(new Date(year, 11, 25), holidays);
+    holidays.add(toDateKey(christmas));
+    holidays.add(toDateKey(substituteWeekday(new Date(year, 11, 26), holidays)));
+
+    const overrides = BANK_HOLIDAY_OVERRIDES[year];
+    overrides?.remove?.forEach(key => holidays.delete(key));
+    overrides?.add?.forEach(key => holidays.add(key));
+
+    return [...holidays].sort();
+}
+
+/** Cached holiday sets by year */
+const holidayCache = new Map<number, Set<string>>();
+
+/**
+ * Check if a date is an England & Wales bank holiday
+ */
+export function isBankHoliday(date: Date): boolean {
+    const year = date.getFullYear();
+    let holidays = holidayCache.get(year);
+    if (!holidays) {
+        holidays = new Set(getBankHolidays(year));
+        holidayCache.set(year, holidays);
+    }
+    return holidays.has(toDateKey(date));
+}
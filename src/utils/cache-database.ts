@@ -0,0 +1,55 @@
+/**
+ * Shared IndexedDB Database
+ * The bus and train caches keep their stores in one database, so whichever
+ * opens it first must create every store
+ */
+
+import { Logger } from './logger';
+
+const DB_NAME = 'cm123go-cache';
+const DB_VERSION = 4;
+
+export const STOPS_STORE = 'bus-stops';
+export const DEPARTURES_STORE = 'departures';
+export const TRAIN_DEPARTURES_STORE = 'train-departures';
+export const TIMETABLE_STORE = 'timetable-shards';
+export const NETWORK_STORE = 'timetable-network';
+
+/**
+ * Open or create the IndexedDB database, creating any stores it's missing
+ */
+export function openDatabase(): Promise<IDBDatabase> {
+    return new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+        request.onerror = () => {
+            Logger.error('Failed to open IndexedDB', request.error);
+            reject(new Error(request.error?.message ?? 'Failed to open IndexedDB'));
+        };
+
+        request.onsuccess = () => {
+            resolve(request.result);
+        };
+
+        request.onupgradeneeded = event => {
+            const db = (event.target as IDBOpenDBRequest).result;
+
+            // Create stores if they don't exist
+            if (!db.objectStoreNames.contains(STOPS_STORE)) {
+                db.createObjectStore(STOPS_STORE, { keyPath: 'id' });
+            }
+            if (!db.objectStoreNames.contains(DEPARTURES_STORE)) {
+                db.createObjectStore(DEPARTURES_STORE, { keyPath: 'atcoCode' });
+            }
+            if (!db.objectStoreNames.contains(TRAIN_DEPARTURES_STORE)) {
+                db.createObjectStore(TRAIN_DEPARTURES_STORE, { keyPath: 'crsCode' });
+            }
+            if (!db.objectStoreNames.contains(TIMETABLE_STORE)) {
+                db.createObjectStore(TIMETABLE_STORE, { keyPath: 'atcoCode' });
+            }
+            if (!db.objectStoreNames.contains(NETWORK_STORE)) {
+                db.createObjectStore(NETWORK_STORE, { keyPath: 'id' });
+            }
+        };
+    });
+}
@@ -5,6 +5,7 @@
 
 const BUS_FAVORITES_KEY = 'cm123go-favorite-stops';
 const TRAIN_FAVORITES_KEY = 'cm123go-favorite-stations';
+const STATION_DESTINATIONS_KEY = 'cm123go-station-destinations';
 
 interface FavoriteStop {
     atcoCode: string;
@@ -16,6 +17,12 @@ interface FavoriteStation {
     addedAt: number;
 }
 
+interface StationDestination {
+    crsCode: string;
+    destinationCrs: string;
+    addedAt: number;
+}
+
 /**
  * Manages favorite bus stops in localStorage
  */
@@ -139,4 +146,51 @@ export const FavoritesManager = {
         this.addStation(crsCode);
         return true;
     },
+
+    // Preferred destinations, to filter a station's trains by
+
+    /**
+     * Get all preferred destinations
+     */
+    getAllStationDestinations(): StationDestination[] {
+        try {
+            const raw = localStorage.getItem(STATION_DESTINATIONS_KEY);
+            if (!raw) return [];
+            const parsed: unknown = JSON.parse(raw);
+            if (!Array.isArray(parsed)) return [];
+            return parsed as StationDestination[];
+        } catch {
+            return [];
+        }
+    },
+
+    /**
+     * Get preferred destination CRS codes keyed by station, for fetching boards
+     */
+    getStationDestinations(): Map<string, string> {
+        return new Map(
+            this.getAllStationDestinations().map(d => [d.crsCode, d.destinationCrs] as const)
+        );
+    },
+
+    /**
+     * Get a station's preferred destination, if one is saved
+     */
+    getStationDestination(crsCode: string): string | null {
+        return (
+            this.getAllStationDestinations().find(d => d.crsCode === crsCode)?.destinationCrs ??
+            null
+        );
+    },
+
+    /**
+     * Save a station's preferred destination, or clear it with null
+     */
+    setStationDestination(crsCode: string, destinationCrs: string | null): void {
+        const destinations = this.getAllStationDestinations().filter(d => d.crsCode !== crsCode);
+        if (destinationCrs) {
+            destinations.push({ crsCode, destinationCrs, addedAt: Date.now() });
+        }
+        localStorage.setItem(STATION_DESTINATIONS_KEY, JSON.stringify(destinations));
+    },
 };
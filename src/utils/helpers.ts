@@ -5,7 +5,7 @@
 import { Logger } from './logger';
 
 // Re-export resilience utilities (only what's actually used)
-export { CircuitOpenError } from './circuit-breaker';
+export { CircuitOpenError, getCircuitBreakerStatus } from './circuit-breaker';
 export { resilientFetch } from './resilient-fetch';
 
 /**
@@ -52,3 +52,16 @@ export function debounce<T extends (...args: Parameters<T>) => ReturnType<T>>(
         timeoutId = setTimeout(() => fn.apply(this, args), delay);
     };
 }
+
+/**
+ * Escape text for use in HTML
+ * For free text from feeds, which may contain markup characters
+ */
+export function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#39;');
+}
@@ -35,6 +35,12 @@ const API_CIRCUIT_CONFIGS: Record<string, Partial<CircuitBreakerConfig>> = {
         successThreshold: 2,
         name: 'BODS SIRI-VM',
     },
+    'bods-siri-sx': {
+        failureThreshold: 2,
+        resetTimeout: 300000,
+        successThreshold: 1,
+        name: 'BODS SIRI-SX',
+    },
     'bods-gtfs': {
         failureThreshold: 2,
         resetTimeout: 120000,
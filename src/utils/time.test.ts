@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import {
+    addDays,
+    getDelayMinutes,
+    getServiceTimeOffset,
+    parseServiceTime,
+    serviceTimeToDate,
+} from './time';
+
+describe('time', () => {
+    describe('parseServiceTime', () => {
+        it('should parse HH:MM:SS to seconds', () => {
+            expect(parseServiceTime('08:05:30')).toBe(8 * 3600 + 5 * 60 + 30);
+        });
+
+        it('should accept single-digit hours and HH:MM', () => {
+            expect(parseServiceTime('7:00:00')).toBe(7 * 3600);
+            expect(parseServiceTime('07:15')).toBe(7 * 3600 + 15 * 60);
+        });
+
+        it('should allow hours beyond 24 for after-midnight trips', () => {
+            expect(parseServiceTime('24:15:00')).toBe(24 * 3600 + 15 * 60);
+            expect(parseServiceTime('25:40:00')).toBe(25 * 3600 + 40 * 60);
+        });
+
+        it('should return NaN for invalid input', () => {
+            expect(parseServiceTime('')).toBeNaN();
+            expect(parseServiceTime('10:75:00')).toBeNaN();
+            expect(parseServiceTime('Due')).toBeNaN();
+        });
+    });
+
+    describe('serviceTimeToDate', () => {
+        it('should resolve a time on the service date', () => {
+            const result = serviceTimeToDate(new Date(2025, 5, 11, 15, 0), '08:05:00');
+            expect(result).toEqual(new Date(2025, 5, 11, 8, 5));
+        });
+
+        it('should roll times past 24:00 into the next calendar day', () => {
+            const result = serviceTimeToDate(new Date(2025, 5, 11, 9, 0), '24:15:00');
+            expect(result).toEqual(new Date(2025, 5, 12, 0, 15));
+        });
+    });
+
+    describe('getServiceTimeOffset', () => {
+        it('should measure from the start of the service day', () => {
+            const serviceDay = new Date(2025, 5, 11);
+            expect(getServiceTimeOffset(serviceDay, new Date(2025, 5, 11, 23, 30))).toBe(
+                23.5 * 3600
+            );
+        });
+
+        it('should exceed 24h when measuring into the next day', () => {
+            const serviceDay = new Date(2025, 5, 11);
+            expect(getServiceTimeOffset(serviceDay, new Date(2025, 5, 12, 0, 10))).toBe(
+                24 * 3600 + 10 * 60
+            );
+        });
+    });
+
+    describe('addDays', () => {
+        it('should shift across month boundaries', () => {
+            expect(addDays(new Date(2025, 0, 31, 22, 0), 1)).toEqual(new Date(2025, 1, 1, 22, 0));
+            expect(addDays(new Date(2025, 2, 1, 6, 0), -1)).toEqual(new Date(2025, 1, 28, 6, 0));
+        });
+    });
+
+    describe('getDelayMinutes', () => {
+        it('should return positive minutes for late and negative for early', () => {
+            expect(getDelayMinutes('10:32', '10:38')).toBe(6);
+            expect(getDelayMinutes('10:32', '10:31')).toBe(-1);
+        });
+
+        it('should handle times crossing midnight', () => {
+            expect(getDelayMinutes('23:58', '00:03')).toBe(5);
+            expect(getDelayMinutes('00:01', '23:59')).toBe(-2);
+        });
+
+        it('should return NaN for invalid times', () => {
+            expect(getDelayMinutes('10:32', 'Due')).toBeNaN();
+        });
+    });
+});
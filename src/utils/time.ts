@@ -52,28 +52,6 @@ export function calculateMinutesUntil(timeStr: string): number {
     return 0;
 }
 
-/**
- * Parse HH:MM:SS or HH:MM time string to Date (today or tomorrow if past)
- * @param timeStr - Time string in "HH:MM:SS" or "HH:MM" format
- * @returns Date object for today (or tomorrow if time has passed)
- */
-export function parseTimeToDate(timeStr: string): Date {
-    const parts = timeStr.split(':').map(Number);
-    const hours = parts[0] || 0;
-    const minutes = parts[1] || 0;
-    const seconds = parts[2] || 0;
-
-    const date = new Date();
-    date.setHours(hours, minutes, seconds, 0);
-
-    // If time is earlier than now, assume tomorrow
-    if (date < new Date()) {
-        date.setDate(date.getDate() + 1);
-    }
-
-    return date;
-}
-
 /**
  * Format Date as HH:MM string
  * @param date - Date object to format
@@ -85,14 +63,88 @@ export function formatTimeHHMM(date: Date): string {
     return `${hours}:${minutes}`;
 }
 
+/** Seconds in a day */
+const SECONDS_PER_DAY = 86400;
+
+/** Minutes in a day */
+const MINUTES_PER_DAY = 1440;
+
 /**
- * Format Date as HH:MM:SS string
- * @param date - Date object to format
- * @returns Time string in "HH:MM:SS" format
+ * Parse a GTFS time string to seconds after the start of its service day
+ * GTFS times can exceed 24:00:00 for trips running past midnight (e.g. "24:15:00")
+ * @param timeStr - Time string in "H:MM:SS", "HH:MM:SS" or "HH:MM" format
+ * @returns Seconds offset, or NaN if the string is invalid
  */
-export function formatTimeHHMMSS(date: Date): string {
-    const hours = date.getHours().toString().padStart(2, '0');
-    const minutes = date.getMinutes().toString().padStart(2, '0');
-    const seconds = date.getSeconds().toString().padStart(2, '0');
-    return `${hours}:${minutes}:${seconds}`;
+export function parseServiceTime(timeStr: string): number {
+    const match = timeStr.trim().match(/^(\d{1,2}):(\d{2})(?::(\d{2}))?$/);
+    if (!match) {
+        return NaN;
+    }
+
+    const hours = parseInt(match[1], 10);
+    const minutes = parseInt(match[2], 10);
+    const seconds = match[3] ? parseInt(match[3], 10) : 0;
+    if (minutes > 59 || seconds > 59) {
+        return NaN;
+    }
+
+    return hours * 3600 + minutes * 60 + seconds;
+}
+
+/**
+ * Get the reference start of the service day containing a date
+ * GTFS defines this as "noon minus 12h" so clock changes are handled correctly
+ */
+function getServiceDayStart(date: Date): Date {
+    const noon = new Date(date.getFullYear(), date.getMonth(), date.getDate(), 12, 0, 0, 0);
+    return new Date(noon.getTime() - (SECONDS_PER_DAY / 2) * 1000);
+}
+
+/**
+ * Shift a date by whole calendar days, keeping the local time of day
+ */
+export function addDays(date: Date, days: number): Date {
+    const result = new Date(date);
+    result.setDate(result.getDate() + days);
+    return result;
+}
+
+/**
+ * Convert a service date and GTFS time offset to an absolute Date
+ * @param serviceDay - Any time on the trip's service date
+ * @param timeStr - GTFS time, which may exceed 24:00:00
+ */
+export function serviceTimeToDate(serviceDay: Date, timeStr: string): Date {
+    const offsetSeconds = parseServiceTime(timeStr);
+    return new Date(getServiceDayStart(serviceDay).getTime() + offsetSeconds * 1000);
+}
+
+/**
+ * Get seconds elapsed since the start of a service day
+ * Used to compare the current time with GTFS times on yesterday's service day
+ * @param serviceDay - Any time on the service date
+ * @param now - Point in time to measure
+ */
+export function getServiceTimeOffset(serviceDay: Date, now: Date): number {
+    return Math.floor((now.getTime() - getServiceDayStart(serviceDay).getTime()) / 1000);
+}
+
+/**
+ * Minutes between a scheduled and an expected clock time (positive = late)
+ * Differences of more than 12 hours are treated as crossing midnight,
+ * so 23:58 expected at 00:03 is 5 minutes late
+ * @param scheduled - Scheduled time in "HH:MM" or "HH:MM:SS" format
+ * @param expected - Expected time in the same format
+ * @returns Delay in minutes, or NaN if either time is invalid
+ */
+export function getDelayMinutes(scheduled: string, expected: string): number {
+    const diff = (parseServiceTime(expected) - parseServiceTime(scheduled)) / 60;
+    if (isNaN(diff)) {
+        return NaN;
+    }
+
+    const half = MINUTES_PER_DAY / 2;
+    return Math.round(
+        (((diff % MINUTES_PER_DAY) + MINUTES_PER_DAY + half) % MINUTES_PER_DAY) - half
+    );
 }
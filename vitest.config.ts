@@ -6,7 +6,7 @@ export default defineConfig({
     test: {
         globals: true,
         environment: 'jsdom',
-        include: ['src/**/*.{test,spec}.ts'],
+        include: ['src/**/*.{test,spec}.ts', 'scripts/**/*.{test,spec}.ts'],
         coverage: {
             provider: 'v8',
             reporter: ['text', 'html'],